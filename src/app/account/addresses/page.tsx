@@ -6,7 +6,7 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useIsAuthenticated, useAuthToken } from '@/stores/auth-store';
+import { useIsAuthenticated } from '@/stores/auth-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import type { WCAddress } from '@/types/woocommerce';
@@ -30,7 +30,6 @@ type AddressFormData = z.infer<typeof addressSchema>;
 export default function AddressesPage() {
   const router = useRouter();
   const isAuthenticated = useIsAuthenticated();
-  const token = useAuthToken();
 
   const [billing, setBilling] = useState<WCAddress | null>(null);
   const [shipping, setShipping] = useState<WCAddress | null>(null);
@@ -63,18 +62,14 @@ export default function AddressesPage() {
   }, [mounted, isAuthenticated, router]);
 
   useEffect(() => {
-    if (mounted && isAuthenticated && token) {
+    if (mounted && isAuthenticated) {
       fetchAddresses();
     }
-  }, [mounted, isAuthenticated, token]);
+  }, [mounted, isAuthenticated]);
 
   const fetchAddresses = async () => {
     try {
-      const response = await fetch('/api/account/addresses', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await fetch('/api/account/addresses');
 
       if (!response.ok) {
         throw new Error('Failed to fetch addresses');
@@ -107,7 +102,6 @@ export default function AddressesPage() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({ [type]: data }),
       });
@@ -6,7 +6,7 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useAuthStore, useIsAuthenticated, useUser, useAuthToken } from '@/stores/auth-store';
+import { useAuthStore, useIsAuthenticated, useUser } from '@/stores/auth-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 
@@ -32,7 +32,6 @@ export default function AccountDetailsPage() {
   const router = useRouter();
   const isAuthenticated = useIsAuthenticated();
   const user = useUser();
-  const token = useAuthToken();
   const { setUser } = useAuthStore();
 
   const [isSubmittingDetails, setIsSubmittingDetails] = useState(false);
@@ -86,7 +85,6 @@ export default function AccountDetailsPage() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify(data),
       });
@@ -98,17 +96,14 @@ export default function AccountDetailsPage() {
       }
 
       // Update local state
-      if (user && token) {
-        setUser(
-          {
-            ...user,
-            firstName: data.firstName,
-            lastName: data.lastName,
-            email: data.email,
-            displayName: `${data.firstName} ${data.lastName}`,
-          },
-          token
-        );
+      if (user) {
+        setUser({
+          ...user,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          email: data.email,
+          displayName: `${data.firstName} ${data.lastName}`,
+        });
       }
 
       setDetailsSuccess(true);
@@ -129,7 +124,6 @@ export default function AccountDetailsPage() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
           currentPassword: data.currentPassword,
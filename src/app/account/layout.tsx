@@ -0,0 +1,13 @@
+import { getSession } from '@/lib/session';
+import { SessionSync } from '@/components/account/session-sync';
+
+export default async function AccountLayout({ children }: { children: React.ReactNode }) {
+  const session = await getSession();
+
+  return (
+    <>
+      <SessionSync user={session?.user ?? null} />
+      {children}
+    </>
+  );
+}
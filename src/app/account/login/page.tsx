@@ -6,10 +6,11 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { login } from '@/lib/auth';
+import { login, AuthError } from '@/lib/auth';
 import { useAuthStore } from '@/stores/auth-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { SocialLoginButtons, socialLoginErrors } from '@/components/account/social-login-buttons';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Email or username is required'),
@@ -18,6 +19,11 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+interface LoginErrorState {
+  code: string;
+  message: string;
+}
+
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -25,7 +31,11 @@ function LoginForm() {
 
   const { setUser } = useAuthStore();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Social sign-in failures come back as ?error=<code>
+  const [error, setError] = useState<LoginErrorState | null>(() => {
+    const code = searchParams.get('error');
+    return code ? { code, message: socialLoginErrors[code] || socialLoginErrors.oauth_failed } : null;
+  });
 
   const {
     register,
@@ -40,21 +50,17 @@ function LoginForm() {
     setError(null);
 
     try {
-      const response = await login(data.username, data.password);
-
-      setUser(
-        {
-          id: 0,
-          email: response.user_email,
-          displayName: response.user_display_name,
-          firstName: response.user_nicename,
-        },
-        response.token
-      );
+      // The server keeps the token in an HttpOnly session cookie
+      const user = await login(data.username, data.password);
+      setUser(user);
 
       router.push(redirect);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
+      setError(
+        err instanceof AuthError
+          ? { code: err.code, message: err.message }
+          : { code: 'auth_error', message: 'Login failed. Please try again.' }
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -69,6 +75,8 @@ function LoginForm() {
         </p>
       </div>
 
+      <SocialLoginButtons redirect={redirect} className="mt-8" />
+
       <form onSubmit={handleSubmit(onSubmit)} className="mt-8 space-y-6">
         <Input
           type="text"
@@ -85,8 +93,21 @@ function LoginForm() {
         />
 
         {error && (
-          <div className="rounded bg-red-50 p-3 text-sm text-red-600">
-            {error}
+          <div role="alert" className="rounded bg-red-50 p-3 text-sm text-red-600">
+            {error.message}
+            {error.code === 'invalid_credentials' && (
+              <>
+                {' '}
+                <Link href="/account/forgot-password" className="underline">
+                  Reset your password
+                </Link>
+              </>
+            )}
+            {error.code === 'too_many_attempts' && (
+              <p className="mt-1 text-red-500">
+                For your security, sign-in is paused after repeated failed attempts.
+              </p>
+            )}
           </div>
         )}
 
@@ -4,30 +4,11 @@ import { useEffect, useState, use } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
-import { useIsAuthenticated, useAuthToken } from '@/stores/auth-store';
+import { useIsAuthenticated } from '@/stores/auth-store';
 import { formatPrice } from '@/lib/utils';
+import { orderStatusColors, orderStatusLabels } from '@/lib/order-status';
 import type { WCOrder } from '@/types/woocommerce';
 
-const statusColors: Record<string, string> = {
-  pending: 'bg-yellow-100 text-yellow-800',
-  processing: 'bg-blue-100 text-blue-800',
-  'on-hold': 'bg-orange-100 text-orange-800',
-  completed: 'bg-green-100 text-green-800',
-  cancelled: 'bg-gray-100 text-gray-800',
-  refunded: 'bg-purple-100 text-purple-800',
-  failed: 'bg-red-100 text-red-800',
-};
-
-const statusLabels: Record<string, string> = {
-  pending: 'Pending Payment',
-  processing: 'Processing',
-  'on-hold': 'On Hold',
-  completed: 'Completed',
-  cancelled: 'Cancelled',
-  refunded: 'Refunded',
-  failed: 'Failed',
-};
-
 interface OrderDetailPageProps {
   params: Promise<{ id: string }>;
 }
@@ -36,7 +17,6 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
   const { id } = use(params);
   const router = useRouter();
   const isAuthenticated = useIsAuthenticated();
-  const token = useAuthToken();
 
   const [order, setOrder] = useState<WCOrder | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -54,18 +34,14 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
   }, [mounted, isAuthenticated, router, id]);
 
   useEffect(() => {
-    if (mounted && isAuthenticated && token) {
+    if (mounted && isAuthenticated) {
       fetchOrder();
     }
-  }, [mounted, isAuthenticated, token, id]);
+  }, [mounted, isAuthenticated, id]);
 
   const fetchOrder = async () => {
     try {
-      const response = await fetch(`/api/account/orders/${id}`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await fetch(`/api/account/orders/${id}`);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -153,10 +129,10 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
         </div>
         <span
           className={`rounded-full px-3 py-1 text-sm font-medium ${
-            statusColors[order.status] || 'bg-gray-100 text-gray-800'
+            orderStatusColors[order.status] || 'bg-gray-100 text-gray-800'
           }`}
         >
-          {statusLabels[order.status] || order.status}
+          {orderStatusLabels[order.status] || order.status}
         </span>
       </div>
 
@@ -3,35 +3,15 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { useIsAuthenticated, useAuthToken } from '@/stores/auth-store';
+import { useIsAuthenticated } from '@/stores/auth-store';
 import { formatPrice } from '@/lib/utils';
+import { orderStatusColors, orderStatusLabels } from '@/lib/order-status';
 import { Button } from '@/components/ui/button';
 import type { WCOrder } from '@/types/woocommerce';
 
-const statusColors: Record<string, string> = {
-  pending: 'bg-yellow-100 text-yellow-800',
-  processing: 'bg-blue-100 text-blue-800',
-  'on-hold': 'bg-orange-100 text-orange-800',
-  completed: 'bg-green-100 text-green-800',
-  cancelled: 'bg-gray-100 text-gray-800',
-  refunded: 'bg-purple-100 text-purple-800',
-  failed: 'bg-red-100 text-red-800',
-};
-
-const statusLabels: Record<string, string> = {
-  pending: 'Pending Payment',
-  processing: 'Processing',
-  'on-hold': 'On Hold',
-  completed: 'Completed',
-  cancelled: 'Cancelled',
-  refunded: 'Refunded',
-  failed: 'Failed',
-};
-
 export default function OrdersPage() {
   const router = useRouter();
   const isAuthenticated = useIsAuthenticated();
-  const token = useAuthToken();
 
   const [orders, setOrders] = useState<WCOrder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -49,18 +29,14 @@ export default function OrdersPage() {
   }, [mounted, isAuthenticated, router]);
 
   useEffect(() => {
-    if (mounted && isAuthenticated && token) {
+    if (mounted && isAuthenticated) {
       fetchOrders();
     }
-  }, [mounted, isAuthenticated, token]);
+  }, [mounted, isAuthenticated]);
 
   const fetchOrders = async () => {
     try {
-      const response = await fetch('/api/account/orders', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await fetch('/api/account/orders');
 
       if (!response.ok) {
         throw new Error('Failed to fetch orders');
@@ -150,10 +126,10 @@ export default function OrdersPage() {
                     <span className="font-medium">Order #{order.number}</span>
                     <span
                       className={`rounded-full px-2 py-0.5 text-xs font-medium ${
-                        statusColors[order.status] || 'bg-gray-100 text-gray-800'
+                        orderStatusColors[order.status] || 'bg-gray-100 text-gray-800'
                       }`}
                     >
-                      {statusLabels[order.status] || order.status}
+                      {orderStatusLabels[order.status] || order.status}
                     </span>
                   </div>
                   <p className="mt-1 text-sm text-gray-500">
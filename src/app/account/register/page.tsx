@@ -10,6 +10,7 @@ import { login } from '@/lib/auth';
 import { useAuthStore } from '@/stores/auth-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { SocialLoginButtons } from '@/components/account/social-login-buttons';
 
 const registerSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
@@ -32,6 +33,7 @@ function RegisterForm() {
   const { setUser } = useAuthStore();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [verificationEmail, setVerificationEmail] = useState<string | null>(null);
 
   const {
     register,
@@ -65,18 +67,15 @@ function RegisterForm() {
         throw new Error(result.message || 'Registration failed');
       }
 
+      // The account can't sign in until its email is confirmed
+      if (result.verificationRequired) {
+        setVerificationEmail(data.email);
+        return;
+      }
+
       try {
-        const loginResponse = await login(data.email, data.password);
-        setUser(
-          {
-            id: result.id,
-            email: data.email,
-            displayName: `${data.firstName} ${data.lastName}`,
-            firstName: data.firstName,
-            lastName: data.lastName,
-          },
-          loginResponse.token
-        );
+        const user = await login(data.email, data.password);
+        setUser(user);
         router.push(redirect);
       } catch {
         router.push('/account/login?registered=true');
@@ -88,6 +87,23 @@ function RegisterForm() {
     }
   };
 
+  if (verificationEmail) {
+    return (
+      <div className="mx-auto max-w-md px-4 py-16 text-center lg:px-8">
+        <h1 className="text-3xl font-light">Confirm your email</h1>
+        <p className="mt-2 text-gray-500">
+          We&apos;ve sent a link to <span className="text-black">{verificationEmail}</span>. Follow it to
+          activate your account, then sign in.
+        </p>
+        <Link href="/account/login">
+          <Button className="mt-8" variant="outline">
+            Go to Sign In
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
   return (
     <div className="mx-auto max-w-md px-4 py-16 lg:px-8">
       <div className="text-center">
@@ -97,6 +113,8 @@ function RegisterForm() {
         </p>
       </div>
 
+      <SocialLoginButtons redirect={redirect} className="mt-8" />
+
       <form onSubmit={handleSubmit(onSubmit)} className="mt-8 space-y-6">
         <div className="grid gap-4 sm:grid-cols-2">
           <Input
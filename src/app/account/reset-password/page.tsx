@@ -0,0 +1,181 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+type LinkStatus = 'checking' | 'valid' | 'invalid';
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const key = searchParams.get('key') || '';
+  const login = searchParams.get('login') || '';
+
+  const [linkStatus, setLinkStatus] = useState<LinkStatus>('checking');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  // Check the link up front so an expired one doesn't cost the user a form fill
+  useEffect(() => {
+    fetch('/api/auth/reset-password', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ key, login }),
+    })
+      .then(async (response) => {
+        if (response.ok) {
+          setLinkStatus('valid');
+          return;
+        }
+        const result = await response.json();
+        setError(result.message || 'This link is invalid or has already been used.');
+        setLinkStatus('invalid');
+      })
+      .catch(() => {
+        setError('Something went wrong. Please try again.');
+        setLinkStatus('invalid');
+      });
+  }, [key, login]);
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key, login, password: data.password }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to reset password');
+      }
+
+      setIsSuccess(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSuccess) {
+    return (
+      <div className="mx-auto max-w-md px-4 py-16 text-center lg:px-8">
+        <h1 className="text-3xl font-light">Password updated</h1>
+        <p className="mt-2 text-gray-500">You can now sign in with your new password.</p>
+        <Link href="/account/login">
+          <Button className="mt-8">Sign In</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (linkStatus === 'invalid') {
+    return (
+      <div className="mx-auto max-w-md px-4 py-16 text-center lg:px-8">
+        <h1 className="text-3xl font-light">Link not valid</h1>
+        <p className="mt-2 text-gray-500">{error}</p>
+        <Link href="/account/forgot-password">
+          <Button className="mt-8" variant="outline">
+            Request a New Link
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-md px-4 py-16 lg:px-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-light">Choose a New Password</h1>
+        <p className="mt-2 text-gray-500">
+          Enter a new password for <span className="text-black">{login}</span>.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="mt-8 space-y-6">
+        <Input
+          type="password"
+          placeholder="New password"
+          {...register('password')}
+          error={errors.password?.message}
+        />
+
+        <Input
+          type="password"
+          placeholder="Confirm new password"
+          {...register('confirmPassword')}
+          error={errors.confirmPassword?.message}
+        />
+
+        {error && (
+          <div className="rounded bg-red-50 p-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          size="lg"
+          disabled={isSubmitting || linkStatus === 'checking'}
+        >
+          {isSubmitting ? 'Saving...' : 'Reset Password'}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="mx-auto max-w-md px-4 py-16 lg:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 w-48 bg-gray-200 rounded mx-auto mb-4"></div>
+            <div className="h-4 w-56 bg-gray-200 rounded mx-auto mb-8"></div>
+            <div className="space-y-4">
+              <div className="h-12 bg-gray-200 rounded"></div>
+              <div className="h-12 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+        </div>
+      }
+    >
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
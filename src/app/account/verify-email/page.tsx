@@ -0,0 +1,85 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const key = searchParams.get('key') || '';
+  const login = searchParams.get('login') || '';
+
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  const hasRequested = useRef(false);
+
+  // Links are single use, so only ever send the key once
+  useEffect(() => {
+    if (hasRequested.current) return;
+    hasRequested.current = true;
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ key, login }),
+    })
+      .then(async (response) => {
+        if (response.ok) {
+          setStatus('verified');
+          return;
+        }
+        const result = await response.json();
+        setError(result.message || 'This link is invalid or has already been used.');
+        setStatus('failed');
+      })
+      .catch(() => {
+        setError('Something went wrong. Please try again.');
+        setStatus('failed');
+      });
+  }, [key, login]);
+
+  if (status === 'verifying') {
+    return (
+      <div className="mx-auto max-w-md px-4 py-16 text-center lg:px-8">
+        <h1 className="text-3xl font-light">Confirming your email...</h1>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-md px-4 py-16 text-center lg:px-8">
+      <h1 className="text-3xl font-light">
+        {status === 'verified' ? 'Email confirmed' : 'Link not valid'}
+      </h1>
+      <p className="mt-2 text-gray-500">
+        {status === 'verified'
+          ? 'Your account is ready. Sign in to start shopping.'
+          : `${error} Signing in will send you a new confirmation link.`}
+      </p>
+      <Link href="/account/login">
+        <Button className="mt-8" variant={status === 'verified' ? 'primary' : 'outline'}>
+          Sign In
+        </Button>
+      </Link>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="mx-auto max-w-md px-4 py-16 text-center lg:px-8">
+          <h1 className="text-3xl font-light">Confirming your email...</h1>
+        </div>
+      }
+    >
+      <VerifyEmail />
+    </Suspense>
+  );
+}
@@ -0,0 +1,8 @@
+import { getSession } from '@/lib/session';
+import { WishlistView } from '@/components/account/wishlist-view';
+
+export default async function WishlistPage() {
+  const session = await getSession();
+
+  return <WishlistView signedIn={Boolean(session)} />;
+}
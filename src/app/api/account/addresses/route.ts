@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { wooCommerce } from '@/lib/woocommerce';
-import { validateToken, getCurrentUser } from '@/lib/auth';
+import { withCustomer, forgetAccount } from '@/lib/account';
 import type { WCAddress } from '@/types/woocommerce';
 
 interface AddressesRequestBody {
@@ -8,86 +8,17 @@ interface AddressesRequestBody {
   shipping?: Partial<WCAddress>;
 }
 
-export async function GET(request: Request) {
-  try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
-
-    if (!token) {
-      return NextResponse.json(
-        { message: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+export const GET = withCustomer(
+  async (_request, { customer }) =>
+    NextResponse.json({
+      billing: customer?.billing ?? null,
+      shipping: customer?.shipping ?? null,
+    }),
+  { requireCustomer: false }
+);
 
-    // Validate token
-    const isValid = await validateToken(token);
-    if (!isValid) {
-      return NextResponse.json(
-        { message: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
-
-    // Get user info
-    const user = await getCurrentUser(token);
-
-    // Get customer by email
-    const customer = await wooCommerce.customers.getByEmail(user.email);
-    if (!customer) {
-      return NextResponse.json({
-        billing: null,
-        shipping: null,
-      });
-    }
-
-    return NextResponse.json({
-      billing: customer.billing,
-      shipping: customer.shipping,
-    });
-  } catch (error) {
-    console.error('Error fetching addresses:', error);
-
-    const message = error instanceof Error ? error.message : 'Failed to fetch addresses';
-    return NextResponse.json({ message }, { status: 500 });
-  }
-}
-
-export async function PUT(request: Request) {
+export const PUT = withCustomer(async (request, { token, customer }) => {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
-
-    if (!token) {
-      return NextResponse.json(
-        { message: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Validate token
-    const isValid = await validateToken(token);
-    if (!isValid) {
-      return NextResponse.json(
-        { message: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
-
-    // Get user info
-    const user = await getCurrentUser(token);
-
-    // Get customer by email
-    const customer = await wooCommerce.customers.getByEmail(user.email);
-    if (!customer) {
-      return NextResponse.json(
-        { message: 'Customer not found' },
-        { status: 404 }
-      );
-    }
-
     const body: AddressesRequestBody = await request.json();
 
     // Build update object - merge with existing customer data to ensure complete addresses
@@ -109,6 +40,7 @@ export async function PUT(request: Request) {
 
     // Update customer
     const updatedCustomer = await wooCommerce.customers.update(customer.id, updateData as Partial<typeof customer>);
+    forgetAccount(token);
 
     return NextResponse.json({
       billing: updatedCustomer.billing,
@@ -120,4 +52,4 @@ export async function PUT(request: Request) {
     const message = error instanceof Error ? error.message : 'Failed to update addresses';
     return NextResponse.json({ message }, { status: 500 });
   }
-}
+});
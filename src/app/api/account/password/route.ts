@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
-import { validateToken, getCurrentUser, login } from '@/lib/auth';
+import { requestToken } from '@/lib/auth';
+import { withCustomer } from '@/lib/account';
+import { getRateLimitStore } from '@/lib/rate-limit';
 
 interface PasswordRequestBody {
   currentPassword: string;
@@ -8,78 +10,73 @@ interface PasswordRequestBody {
 
 const WP_URL = process.env.NEXT_PUBLIC_WORDPRESS_URL;
 
-export async function PUT(request: Request) {
-  try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
+// Wrong current passwords allowed per account within the window, so a stolen
+// session can't be used to guess the password
+const ATTEMPT_LIMIT = 5;
+const ATTEMPT_WINDOW = 15 * 60;
 
-    if (!token) {
-      return NextResponse.json(
-        { message: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+export const PUT = withCustomer(
+  async (request, { user, token }) => {
+    try {
+      const body: PasswordRequestBody = await request.json();
 
-    // Validate token
-    const isValid = await validateToken(token);
-    if (!isValid) {
-      return NextResponse.json(
-        { message: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
+      if (!body.currentPassword || !body.newPassword) {
+        return NextResponse.json(
+          { message: 'Current password and new password are required' },
+          { status: 400 }
+        );
+      }
 
-    // Get user info
-    const user = await getCurrentUser(token);
+      if (body.newPassword.length < 8) {
+        return NextResponse.json(
+          { message: 'New password must be at least 8 characters' },
+          { status: 400 }
+        );
+      }
 
-    const body: PasswordRequestBody = await request.json();
+      const store = getRateLimitStore();
+      const failuresKey = `password-change:account:${user.id}:failures`;
+      if (parseInt((await store.get(failuresKey)) || '0', 10) >= ATTEMPT_LIMIT) {
+        return NextResponse.json(
+          { message: 'Too many incorrect attempts. Please try again later.', code: 'too_many_attempts' },
+          { status: 429, headers: { 'Retry-After': String(ATTEMPT_WINDOW) } }
+        );
+      }
 
-    if (!body.currentPassword || !body.newPassword) {
-      return NextResponse.json(
-        { message: 'Current password and new password are required' },
-        { status: 400 }
-      );
-    }
+      // Verify current password by attempting to login
+      try {
+        await requestToken(user.email, body.currentPassword);
+      } catch {
+        await store.increment(failuresKey, ATTEMPT_WINDOW);
+        return NextResponse.json(
+          { message: 'Current password is incorrect' },
+          { status: 400 }
+        );
+      }
 
-    if (body.newPassword.length < 8) {
-      return NextResponse.json(
-        { message: 'New password must be at least 8 characters' },
-        { status: 400 }
-      );
-    }
+      // Update password using WordPress REST API
+      const response = await fetch(`${WP_URL}/wp-json/wp/v2/users/${user.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          password: body.newPassword,
+        }),
+      });
 
-    // Verify current password by attempting to login
-    try {
-      await login(user.email, body.currentPassword);
-    } catch {
-      return NextResponse.json(
-        { message: 'Current password is incorrect' },
-        { status: 400 }
-      );
-    }
+      if (!response.ok) {
+        throw new Error('Failed to update password');
+      }
 
-    // Update password using WordPress REST API
-    const response = await fetch(`${WP_URL}/wp-json/wp/v2/users/${user.id}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({
-        password: body.newPassword,
-      }),
-    });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Error updating password:', error);
 
-    if (!response.ok) {
-      throw new Error('Failed to update password');
+      const message = error instanceof Error ? error.message : 'Failed to update password';
+      return NextResponse.json({ message }, { status: 500 });
     }
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Error updating password:', error);
-
-    const message = error instanceof Error ? error.message : 'Failed to update password';
-    return NextResponse.json({ message }, { status: 500 });
-  }
-}
+  },
+  { requireCustomer: false }
+);
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { wooCommerce } from '@/lib/woocommerce';
-import { validateToken, getCurrentUser } from '@/lib/auth';
+import { withCustomer, forgetAccount } from '@/lib/account';
 
 interface UpdateRequestBody {
   firstName?: string;
@@ -8,40 +8,8 @@ interface UpdateRequestBody {
   email?: string;
 }
 
-export async function PUT(request: Request) {
+export const PUT = withCustomer(async (request, { token, customer }) => {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
-
-    if (!token) {
-      return NextResponse.json(
-        { message: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Validate token
-    const isValid = await validateToken(token);
-    if (!isValid) {
-      return NextResponse.json(
-        { message: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
-
-    // Get user info
-    const user = await getCurrentUser(token);
-
-    // Get customer by email
-    const customer = await wooCommerce.customers.getByEmail(user.email);
-    if (!customer) {
-      return NextResponse.json(
-        { message: 'Customer not found' },
-        { status: 404 }
-      );
-    }
-
     const body: UpdateRequestBody = await request.json();
 
     // Update customer
@@ -50,6 +18,7 @@ export async function PUT(request: Request) {
       last_name: body.lastName || customer.last_name,
       email: body.email || customer.email,
     });
+    forgetAccount(token);
 
     return NextResponse.json({
       id: updatedCustomer.id,
@@ -63,4 +32,4 @@ export async function PUT(request: Request) {
     const message = error instanceof Error ? error.message : 'Failed to update account';
     return NextResponse.json({ message }, { status: 500 });
   }
-}
+});
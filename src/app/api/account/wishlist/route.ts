@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { wooCommerce } from '@/lib/woocommerce';
+import { withCustomer, forgetAccount } from '@/lib/account';
+import {
+  WISHLIST_META_KEY,
+  WISHLIST_LIMIT,
+  toWishlistItem,
+  readWishlistEntries,
+  mergeWishlistEntries,
+} from '@/lib/wishlist';
+import type { WCCustomer } from '@/types/woocommerce';
+import type { WishlistEntry, WishlistItem } from '@/types/wishlist';
+
+interface WishlistRequestBody {
+  items: WishlistEntry[];
+}
+
+/**
+ * Attach live product details, dropping products that are no longer published
+ */
+async function toWishlistItems(entries: WishlistEntry[]): Promise<WishlistItem[]> {
+  if (entries.length === 0) return [];
+
+  const products = await wooCommerce.products.list({
+    include: entries.map((entry) => entry.productId),
+    per_page: WISHLIST_LIMIT,
+    status: 'publish',
+  });
+  const byId = new Map(products.map((product) => [product.id, product]));
+
+  return entries.flatMap((entry) => {
+    const product = byId.get(entry.productId);
+    return product ? [toWishlistItem(product, entry.addedAt)] : [];
+  });
+}
+
+async function saveWishlist(customer: WCCustomer, token: string, entries: WishlistEntry[]): Promise<void> {
+  await wooCommerce.customers.update(customer.id, {
+    meta_data: [{ key: WISHLIST_META_KEY, value: JSON.stringify(entries) }],
+  });
+  forgetAccount(token);
+}
+
+export const GET = withCustomer(async (_request, { customer }) => {
+  try {
+    const items = await toWishlistItems(readWishlistEntries(customer));
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to fetch wishlist';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+});
+
+/**
+ * Add products to the saved wishlist
+ * Also used on sign-in to merge the list saved while signed out.
+ */
+export const POST = withCustomer(async (request, { token, customer }) => {
+  try {
+    const body: WishlistRequestBody = await request.json();
+
+    const incoming = (Array.isArray(body.items) ? body.items : [])
+      .filter((entry) => Number.isInteger(entry?.productId))
+      .map((entry) => ({
+        productId: entry.productId,
+        addedAt: typeof entry.addedAt === 'string' ? entry.addedAt : new Date().toISOString(),
+      }));
+
+    const current = readWishlistEntries(customer);
+    const entries = mergeWishlistEntries(current, incoming);
+
+    if (JSON.stringify(entries) !== JSON.stringify(current)) {
+      await saveWishlist(customer, token, entries);
+    }
+
+    return NextResponse.json({ items: await toWishlistItems(entries) });
+  } catch (error) {
+    console.error('Error updating wishlist:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to update wishlist';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+});
+
+/**
+ * Remove a product from the saved wishlist (?productId=)
+ */
+export const DELETE = withCustomer(async (request, { token, customer }) => {
+  try {
+    const productId = parseInt(new URL(request.url).searchParams.get('productId') || '', 10);
+
+    if (isNaN(productId)) {
+      return NextResponse.json(
+        { message: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const current = readWishlistEntries(customer);
+    const entries = current.filter((entry) => entry.productId !== productId);
+
+    if (entries.length !== current.length) {
+      await saveWishlist(customer, token, entries);
+    }
+
+    return NextResponse.json({ items: await toWishlistItems(entries) });
+  } catch (error) {
+    console.error('Error updating wishlist:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to update wishlist';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+});
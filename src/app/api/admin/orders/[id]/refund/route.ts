@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/admin';
+import { wooCommerce, WooCommerceError } from '@/lib/woocommerce';
+import { refundOrder, PaymentError } from '@/lib/payments';
+
+// Force Node.js runtime (needed for the payment provider SDKs)
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface RefundRequestBody {
+  amount?: string; // The rest of the order total when omitted
+  reason?: string;
+}
+
+/**
+ * Refund a paid order through its payment gateway and record it in WooCommerce
+ * Responds with whether the gateway returned the money or it has to be done by hand.
+ */
+export const POST = withAdmin<RouteParams>(async (request, { params }) => {
+  try {
+    const { id } = await params;
+    const orderId = parseInt(id, 10);
+
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: RefundRequestBody = await request.json().catch(() => ({}));
+    const order = await wooCommerce.orders.get(orderId);
+
+    if (!order.date_paid || order.status === 'refunded') {
+      return NextResponse.json(
+        { message: 'Only paid orders can be refunded', code: 'not_refundable' },
+        { status: 409 }
+      );
+    }
+
+    // Refund totals are negative in WooCommerce
+    const refunded = order.refunds.reduce((total, refund) => total - parseFloat(refund.total), 0);
+    const remaining = Math.round((parseFloat(order.total) - refunded) * 100) / 100;
+    const amount = body.amount === undefined ? remaining : parseFloat(body.amount);
+
+    if (!Number.isFinite(amount) || amount <= 0 || amount > remaining) {
+      return NextResponse.json(
+        { message: `Refund amount must be between 0.01 and ${remaining.toFixed(2)}`, code: 'invalid_amount' },
+        { status: 400 }
+      );
+    }
+
+    const result = await refundOrder(order, amount.toFixed(2), body.reason);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error refunding order:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to refund order';
+    const status =
+      error instanceof WooCommerceError || error instanceof PaymentError ? error.status : 500;
+    const code = error instanceof PaymentError ? error.code : undefined;
+    return NextResponse.json({ message, code }, { status });
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/admin';
+import { getSearchReport } from '@/lib/search/analytics';
+
+// Force Node.js runtime (needed for the file sink and crypto)
+export const runtime = 'nodejs';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Search report for merchandisers: ?days=30 (up to 365) and ?limit=20 (up to 100)
+ */
+export const GET = withAdmin(async (request) => {
+  const searchParams = new URL(request.url).searchParams;
+  const days = Math.min(365, Math.max(1, parseInt(searchParams.get('days') || '30', 10) || 30));
+  const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+
+  try {
+    const report = await getSearchReport(Date.now() - days * DAY, limit);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error building search report:', error);
+    return NextResponse.json(
+      { message: 'Failed to build search report' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,11 +1,17 @@
 import { NextResponse } from 'next/server';
-
-const WP_URL = process.env.NEXT_PUBLIC_WORDPRESS_URL;
+import { sendPasswordReset } from '@/lib/account-keys';
+import { getClientIp, getRateLimitStore } from '@/lib/rate-limit';
 
 interface ForgotPasswordRequestBody {
   email: string;
 }
 
+// Reset emails allowed within the window, per IP and per address, so links can't be
+// mass-mailed or kept invalidated by requesting new ones
+const IP_LIMIT = 10;
+const EMAIL_LIMIT = 3;
+const RESET_WINDOW = 60 * 60;
+
 export async function POST(request: Request) {
   try {
     const body: ForgotPasswordRequestBody = await request.json();
@@ -17,24 +23,25 @@ export async function POST(request: Request) {
       );
     }
 
-    // Use WordPress REST API to request password reset
-    // This triggers WordPress to send a password reset email
-    const response = await fetch(`${WP_URL}/wp-json/wp/v2/users/lostpassword`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        user_login: body.email,
-      }),
-    });
+    // Counted whether or not the account exists, so limits don't reveal it
+    const store = getRateLimitStore();
+    const [ipRequests, emailRequests] = await Promise.all([
+      store.increment(`forgot-password:ip:${getClientIp(request)}`, RESET_WINDOW),
+      store.increment(`forgot-password:email:${String(body.email).trim().toLowerCase()}`, RESET_WINDOW),
+    ]);
 
+    if (ipRequests > IP_LIMIT || emailRequests > EMAIL_LIMIT) {
+      return NextResponse.json(
+        { message: 'Too many reset requests. Please try again later.', code: 'too_many_attempts' },
+        { status: 429, headers: { 'Retry-After': String(RESET_WINDOW) } }
+      );
+    }
+
+    // Email a link to our own reset page rather than wp-login.php.
     // Even if the email doesn't exist, we return success for security
     // (prevents email enumeration attacks)
-    if (!response.ok) {
-      // Log the actual error for debugging but return generic success
-      console.log('Password reset request:', await response.text());
-    }
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin;
+    await sendPasswordReset(body.email, siteUrl);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { AuthError } from '@/lib/auth';
+import { authenticate } from '@/lib/login';
+import { setSessionToken } from '@/lib/session';
+import { getClientIp } from '@/lib/rate-limit';
+
+interface LoginRequestBody {
+  username: string;
+  password: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: LoginRequestBody = await request.json();
+
+    const { token, user } = await authenticate(body.username, body.password, {
+      ip: getClientIp(request),
+      siteUrl: process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin,
+    });
+    await setSessionToken(token);
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code, retryAfter: error.retryAfter },
+        {
+          status: error.status,
+          headers: error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined,
+        }
+      );
+    }
+
+    console.error('Error signing in:', error);
+
+    const message = error instanceof Error ? error.message : 'Login failed';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getProvider, completeSignIn, OAuthError, OAUTH_STATE_COOKIE, type OAuthState } from '@/lib/oauth';
+import { SESSION_COOKIE, getSessionCookieOptions } from '@/lib/session';
+
+interface RouteParams {
+  params: Promise<{ provider: string }>;
+}
+
+function readState(request: NextRequest): OAuthState | null {
+  const value = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!value) return null;
+
+  try {
+    return JSON.parse(Buffer.from(value, 'base64url').toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finish sign-in and start our session, or send the user back to the login page
+ */
+async function handleCallback(request: NextRequest, providerId: string, callbackParams: URLSearchParams) {
+  const provider = getProvider(providerId);
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin;
+
+  let response: NextResponse;
+  try {
+    if (!provider) {
+      throw new OAuthError('This sign-in option is not available.', 'oauth_unavailable');
+    }
+
+    const { token, redirect } = await completeSignIn(provider, readState(request), callbackParams, siteUrl);
+
+    // 303 so a form_post callback is followed with a GET
+    response = NextResponse.redirect(new URL(redirect, siteUrl), 303);
+    response.cookies.set(SESSION_COOKIE, token, getSessionCookieOptions(token));
+  } catch (error) {
+    console.error('OAuth sign-in error:', error);
+
+    const code = error instanceof OAuthError ? error.code : 'oauth_failed';
+    response = NextResponse.redirect(new URL(`/account/login?error=${code}`, siteUrl), 303);
+  }
+
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/oauth' });
+  return response;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { provider } = await params;
+  return handleCallback(request, provider, request.nextUrl.searchParams);
+}
+
+// Providers using response_mode=form_post (Apple)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { provider } = await params;
+  const form = await request.formData();
+
+  const callbackParams = new URLSearchParams();
+  form.forEach((value, key) => {
+    if (typeof value === 'string') callbackParams.set(key, value);
+  });
+
+  return handleCallback(request, provider, callbackParams);
+}
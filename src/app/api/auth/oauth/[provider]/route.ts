@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getProvider, createAuthorizationRequest, OAUTH_STATE_COOKIE } from '@/lib/oauth';
+
+interface RouteParams {
+  params: Promise<{ provider: string }>;
+}
+
+/**
+ * Send the user to the provider's consent screen
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { provider: providerId } = await params;
+  const provider = getProvider(providerId);
+
+  if (!provider) {
+    return NextResponse.redirect(new URL('/account/login?error=oauth_unavailable', request.url));
+  }
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin;
+  const { url, state } = createAuthorizationRequest(provider, siteUrl, request.nextUrl.searchParams.get('redirect'));
+
+  const response = NextResponse.redirect(url);
+
+  // form_post callbacks are cross-site POSTs, which only carry SameSite=None cookies
+  const crossSite = provider.responseMode === 'form_post';
+  response.cookies.set(OAUTH_STATE_COOKIE, Buffer.from(JSON.stringify(state)).toString('base64url'), {
+    httpOnly: true,
+    sameSite: crossSite ? 'none' : 'lax',
+    secure: crossSite || process.env.NODE_ENV === 'production',
+    path: '/api/auth/oauth',
+    maxAge: 10 * 60,
+  });
+
+  return response;
+}
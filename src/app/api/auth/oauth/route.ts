@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getEnabledProviders } from '@/lib/oauth';
+
+/**
+ * List the social sign-in providers configured on this server
+ */
+export async function GET() {
+  const providers = getEnabledProviders().map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+  }));
+
+  return NextResponse.json(providers);
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { wooCommerce } from '@/lib/woocommerce';
+import { createAccountKey, isEmailVerificationRequired, sendEmailVerification } from '@/lib/account-keys';
 
 interface RegisterRequestBody {
   email: string;
@@ -37,19 +38,34 @@ export async function POST(request: Request) {
       );
     }
 
+    // New accounts can't sign in until the emailed link is followed
+    const verification = isEmailVerificationRequired() ? createAccountKey('email_verification') : null;
+
     // Create the customer
     const customer = await wooCommerce.customers.create({
       email: body.email,
       password: body.password,
       first_name: body.firstName || '',
       last_name: body.lastName || '',
+      meta_data: verification ? [verification.meta] : undefined,
     });
 
+    if (verification) {
+      const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin;
+      try {
+        await sendEmailVerification(customer, siteUrl, verification.key);
+      } catch (error) {
+        // Signing in sends a fresh link, so the account isn't stuck
+        console.error('Error sending verification email:', error);
+      }
+    }
+
     return NextResponse.json({
       id: customer.id,
       email: customer.email,
       firstName: customer.first_name,
       lastName: customer.last_name,
+      verificationRequired: Boolean(verification),
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { AuthError } from '@/lib/auth';
+import { checkPasswordResetKey, resetPassword } from '@/lib/account-keys';
+
+interface ResetPasswordRequestBody {
+  key: string;
+  login: string;
+  password?: string; // Omit to only check the link
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: ResetPasswordRequestBody = await request.json();
+
+    if (!body.key || !body.login) {
+      return NextResponse.json(
+        { message: 'This link is invalid or has already been used.', code: 'invalid_key' },
+        { status: 400 }
+      );
+    }
+
+    if (body.password === undefined) {
+      await checkPasswordResetKey(body.login, body.key);
+      return NextResponse.json({ valid: true });
+    }
+
+    if (body.password.length < 8) {
+      return NextResponse.json(
+        { message: 'Password must be at least 8 characters', code: 'weak_password' },
+        { status: 400 }
+      );
+    }
+
+    await resetPassword(body.login, body.key, body.password);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: error.status });
+    }
+
+    console.error('Reset password error:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to reset password';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getSession, clearSession } from '@/lib/session';
+
+export async function GET() {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ message: 'Not signed in' }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    user: session.user,
+    expiresAt: session.expiresAt.toISOString(),
+  });
+}
+
+export async function DELETE() {
+  await clearSession();
+  return NextResponse.json({ success: true });
+}
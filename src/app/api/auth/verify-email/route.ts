@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { AuthError } from '@/lib/auth';
+import { verifyEmail } from '@/lib/account-keys';
+
+interface VerifyEmailRequestBody {
+  key: string;
+  login: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: VerifyEmailRequestBody = await request.json();
+
+    if (!body.key || !body.login) {
+      return NextResponse.json(
+        { message: 'This link is invalid or has already been used.', code: 'invalid_key' },
+        { status: 400 }
+      );
+    }
+
+    await verifyEmail(body.login, body.key);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: error.status });
+    }
+
+    console.error('Email verification error:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to verify email';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
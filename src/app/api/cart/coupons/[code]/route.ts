@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { storeApi, StoreAPIError } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+
+interface RouteParams {
+  params: Promise<{ code: string }>;
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { code } = await params;
+
+    const { cart, cartToken } = await storeApi.cart.removeCoupon(await getCartToken(), code);
+    await setCartToken(cartToken);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error('Error removing coupon:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to remove coupon';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
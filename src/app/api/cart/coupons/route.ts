@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { storeApi, StoreAPIError } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+import { getPricedLines } from '@/lib/pricing';
+import { getSignedInAccount } from '@/lib/account';
+import { findCoupon, validateCoupon, CouponError } from '@/lib/coupons';
+
+interface ApplyCouponRequestBody {
+  code: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: ApplyCouponRequestBody = await request.json();
+    const code = body.code?.trim();
+
+    if (!code) {
+      return NextResponse.json(
+        { message: 'Please enter a coupon code' },
+        { status: 400 }
+      );
+    }
+
+    const current = await storeApi.cart.get(await getCartToken());
+
+    // Check the coupon rules first so the shopper gets a specific reason;
+    // signed-in customers are held to per-user limits straight away
+    const [coupon, lines, applied, account] = await Promise.all([
+      findCoupon(code),
+      getPricedLines(
+        current.cart.items.map((item) => ({
+          product_id: item.productId,
+          variation_id: item.variationId,
+          quantity: item.quantity,
+        }))
+      ),
+      Promise.all(current.cart.coupons.map((c) => findCoupon(c.code))),
+      getSignedInAccount(),
+    ]);
+    validateCoupon(coupon, {
+      lines,
+      applied,
+      email: account?.user.email,
+      customerId: account?.customer?.id,
+    });
+
+    const { cart, cartToken } = await storeApi.cart.applyCoupon(current.cartToken, coupon.code);
+    await setCartToken(cartToken);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error('Error applying coupon:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to apply coupon';
+    const status =
+      error instanceof CouponError || error instanceof StoreAPIError ? error.status : 500;
+    const code =
+      error instanceof CouponError || error instanceof StoreAPIError ? error.code : undefined;
+    return NextResponse.json({ message, code }, { status });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { storeApi, StoreAPIError } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+import { getCrossSells } from '@/lib/cross-sells';
+
+/**
+ * "Complete the look" products for the current cart
+ */
+export async function GET() {
+  try {
+    const { cart, cartToken } = await storeApi.cart.get(await getCartToken());
+    await setCartToken(cartToken);
+
+    const products = await getCrossSells(cart.items.map((item) => item.productId));
+
+    return NextResponse.json(products);
+  } catch (error) {
+    console.error('Error fetching cross-sells:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to fetch cross-sells';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
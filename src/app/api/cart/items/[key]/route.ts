@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { storeApi, StoreAPIError } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+
+interface RouteParams {
+  params: Promise<{ key: string }>;
+}
+
+interface UpdateItemRequestBody {
+  quantity: number;
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { key } = await params;
+    const body: UpdateItemRequestBody = await request.json();
+
+    if (typeof body.quantity !== 'number' || body.quantity < 0) {
+      return NextResponse.json(
+        { message: 'A valid quantity is required' },
+        { status: 400 }
+      );
+    }
+
+    const cartToken = await getCartToken();
+    const result =
+      body.quantity === 0
+        ? await storeApi.cart.removeItem(cartToken, key)
+        : await storeApi.cart.updateItem(cartToken, key, body.quantity);
+    await setCartToken(result.cartToken);
+
+    return NextResponse.json(result.cart);
+  } catch (error) {
+    console.error('Error updating cart item:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to update cart item';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    const code = error instanceof StoreAPIError ? error.code : undefined;
+    return NextResponse.json({ message, code }, { status });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { key } = await params;
+
+    const { cart, cartToken } = await storeApi.cart.removeItem(await getCartToken(), key);
+    await setCartToken(cartToken);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error('Error removing cart item:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to remove cart item';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
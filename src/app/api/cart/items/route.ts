@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { storeApi, StoreAPIError } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+import type { AddToCartData } from '@/types/cart';
+
+export async function POST(request: Request) {
+  try {
+    const body: AddToCartData = await request.json();
+
+    if (!body.productId || !body.quantity || body.quantity < 1) {
+      return NextResponse.json(
+        { message: 'Product and quantity are required' },
+        { status: 400 }
+      );
+    }
+
+    const { cart, cartToken } = await storeApi.cart.addItem(await getCartToken(), {
+      productId: body.productId,
+      variationId: body.variationId,
+      quantity: body.quantity,
+      attributes: body.attributes,
+    });
+    await setCartToken(cartToken);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error('Error adding to cart:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to add item to cart';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    const code = error instanceof StoreAPIError ? error.code : undefined;
+    return NextResponse.json({ message, code }, { status });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { storeApi, StoreAPIError } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+
+export async function GET() {
+  try {
+    const { cart, cartToken } = await storeApi.cart.get(await getCartToken());
+    await setCartToken(cartToken);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error('Error fetching cart:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to fetch cart';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const { cart, cartToken } = await storeApi.cart.clear(await getCartToken());
+    await setCartToken(cartToken);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    console.error('Error clearing cart:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to clear cart';
+    const status = error instanceof StoreAPIError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
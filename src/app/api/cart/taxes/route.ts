@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { storeApi } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+import { getPricedLines } from '@/lib/pricing';
+import { findCoupon, calculateTotalDiscount } from '@/lib/coupons';
+import { getShippingPackage, resolveShippingRate, ShippingError } from '@/lib/shipping';
+import { getTaxSummary } from '@/lib/tax';
+
+interface TaxesRequestBody {
+  country?: string;
+  state?: string;
+  postcode?: string;
+  city?: string;
+  shipping_method?: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: TaxesRequestBody = await request.json();
+
+    const { cart, cartToken } = await storeApi.cart.get(await getCartToken());
+    await setCartToken(cartToken);
+
+    const [lines, applied] = await Promise.all([
+      getPricedLines(
+        cart.items.map((item) => ({
+          product_id: item.productId,
+          variation_id: item.variationId,
+          quantity: item.quantity,
+        }))
+      ),
+      Promise.all(cart.coupons.map((coupon) => findCoupon(coupon.code))),
+    ]);
+
+    // Discounts are recalculated in the same price basis as the lines
+    const discount = calculateTotalDiscount(applied, lines);
+
+    const address = body.country
+      ? { country: body.country, state: body.state, postcode: body.postcode, city: body.city }
+      : undefined;
+
+    let shipping = 0;
+    if (address && body.shipping_method) {
+      try {
+        const rate = await resolveShippingRate(
+          address,
+          getShippingPackage(lines, discount, applied.some((coupon) => coupon.free_shipping)),
+          body.shipping_method
+        );
+        shipping = rate.cost;
+      } catch (error) {
+        // An unavailable method is reported at checkout; estimate without it
+        if (!(error instanceof ShippingError)) throw error;
+      }
+    }
+
+    const summary = await getTaxSummary(lines, { discount, shipping, shippingAddress: address });
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error calculating taxes:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to calculate taxes';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { wooCommerce } from '@/lib/woocommerce';
+import { getGateway, applyPaymentResult } from '@/lib/payments';
+import { matchesOrderKey } from '@/lib/order-tracking';
+
+// Force Node.js runtime (needed for the payment provider SDKs)
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ gateway: string }>;
+}
+
+/**
+ * Return URL for off-site payments: confirm the payment, record it on the
+ * WooCommerce order and send the shopper on to the confirmation page.
+ * Any failure returns them to checkout with their cart untouched.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { gateway: gatewayId } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const orderId = parseInt(searchParams.get('order_id') || '', 10);
+  const orderKey = searchParams.get('key');
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin;
+  const failureUrl = `${siteUrl}/checkout?payment=failed`;
+
+  const gateway = getGateway(gatewayId);
+  if (!gateway || isNaN(orderId) || !orderKey) {
+    return NextResponse.redirect(failureUrl);
+  }
+
+  try {
+    const order = await wooCommerce.orders.get(orderId);
+
+    if (!matchesOrderKey(order, orderKey) || order.payment_method !== gateway.id) {
+      return NextResponse.redirect(failureUrl);
+    }
+
+    const successUrl = `${siteUrl}/order-confirmation/${order.id}?key=${order.order_key}&payment=success`;
+
+    // Already paid (e.g. the webhook won, or the shopper refreshed the page)
+    if (order.status === 'processing' || order.status === 'completed') {
+      return NextResponse.redirect(successUrl);
+    }
+
+    const result = await gateway.confirm(order, searchParams);
+    await applyPaymentResult(result);
+
+    return NextResponse.redirect(result.status === 'failed' ? failureUrl : successUrl);
+  } catch (error) {
+    console.error('Payment confirmation error:', error);
+    return NextResponse.redirect(failureUrl);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { wooCommerce, WooCommerceError } from '@/lib/woocommerce';
+import { getGateway, PaymentError } from '@/lib/payments';
+import { matchesOrderKey } from '@/lib/order-tracking';
+
+// Force Node.js runtime (needed for the payment provider SDKs)
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ gateway: string }>;
+}
+
+interface CheckoutRequestBody {
+  orderId: number;
+  orderKey: string;
+}
+
+/**
+ * Start payment for a pending order with the given gateway
+ * Returns the off-site URL to send the shopper to, if any.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { gateway: gatewayId } = await params;
+    const gateway = getGateway(gatewayId);
+
+    if (!gateway) {
+      return NextResponse.json(
+        { message: 'Payment method not available' },
+        { status: 404 }
+      );
+    }
+
+    const body: CheckoutRequestBody = await request.json();
+
+    if (!body.orderId || !body.orderKey) {
+      return NextResponse.json(
+        { message: 'Order ID and order key are required' },
+        { status: 400 }
+      );
+    }
+
+    const order = await wooCommerce.orders.get(body.orderId);
+
+    // The order key proves the caller created this order
+    if (!matchesOrderKey(order, body.orderKey)) {
+      return NextResponse.json(
+        { message: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (order.status !== 'pending' || order.payment_method !== gateway.id) {
+      return NextResponse.json(
+        { message: `This order cannot be paid with ${gateway.title}` },
+        { status: 409 }
+      );
+    }
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin;
+    const intent = await gateway.createIntent(order, { siteUrl });
+
+    return NextResponse.json({ url: intent.redirectUrl });
+  } catch (error) {
+    console.error('Payment checkout error:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to start payment';
+    const status =
+      error instanceof WooCommerceError || error instanceof PaymentError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getEnabledGateways } from '@/lib/payments';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const methods = getEnabledGateways().map((gateway) => ({
+    id: gateway.id,
+    title: gateway.title,
+    description: gateway.description,
+  }));
+
+  return NextResponse.json(methods);
+}
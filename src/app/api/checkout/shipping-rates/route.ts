@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { storeApi } from '@/lib/store-api';
+import { getCartToken, setCartToken } from '@/lib/cart-session';
+import { getPricedLines } from '@/lib/pricing';
+import { findCoupon, calculateTotalDiscount } from '@/lib/coupons';
+import { getShippingPackage, getShippingRates } from '@/lib/shipping';
+import type { ShippingDestination, ShippingRatesResponse } from '@/types/shipping';
+
+export async function POST(request: Request) {
+  try {
+    const destination: ShippingDestination = await request.json();
+
+    if (!destination.country) {
+      return NextResponse.json(
+        { message: 'Country is required' },
+        { status: 400 }
+      );
+    }
+
+    // Rates are priced from the server cart, not client totals
+    const { cart, cartToken } = await storeApi.cart.get(await getCartToken());
+    await setCartToken(cartToken);
+
+    const [lines, applied] = await Promise.all([
+      getPricedLines(
+        cart.items.map((item) => ({
+          product_id: item.productId,
+          variation_id: item.variationId,
+          quantity: item.quantity,
+        }))
+      ),
+      Promise.all(cart.coupons.map((coupon) => findCoupon(coupon.code))),
+    ]);
+
+    // Same subtotal and discount as the order will be priced with, so a
+    // free-shipping threshold met here is still met when the order is placed
+    const { zone, rates } = await getShippingRates(
+      destination,
+      getShippingPackage(
+        lines,
+        calculateTotalDiscount(applied, lines),
+        applied.some((coupon) => coupon.free_shipping)
+      )
+    );
+
+    const response: ShippingRatesResponse = { zone: zone?.name || null, rates };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating shipping rates:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to calculate shipping';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
@@ -1,6 +1,12 @@
 import { NextResponse } from 'next/server';
 import { wooCommerce } from '@/lib/woocommerce';
-import type { WCAddress } from '@/types/woocommerce';
+import { getGateway } from '@/lib/payments';
+import { validateLineItems } from '@/lib/order-validation';
+import { getPricedLines } from '@/lib/pricing';
+import { findCoupon, validateCoupon, calculateTotalDiscount, CouponError } from '@/lib/coupons';
+import { getSignedInAccount } from '@/lib/account';
+import { getShippingPackage, resolveShippingRate, ShippingError } from '@/lib/shipping';
+import type { WCAddress, WCCoupon } from '@/types/woocommerce';
 
 interface OrderRequestBody {
   billing: WCAddress;
@@ -10,7 +16,10 @@ interface OrderRequestBody {
     variation_id?: number;
     quantity: number;
   }>;
+  coupon_lines?: Array<{ code: string }>;
+  shipping_method?: string; // Rate ID from /api/checkout/shipping-rates
   customer_note?: string;
+  payment_method?: string;
   create_account?: boolean;
   password?: string;
 }
@@ -20,16 +29,72 @@ export async function POST(request: Request) {
     const body: OrderRequestBody = await request.json();
 
     // Validate required fields
-    if (!body.billing || !body.line_items?.length) {
+    if (!body.billing || !Array.isArray(body.line_items) || body.line_items.length === 0) {
       return NextResponse.json(
         { message: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    // If user wants to create an account, create customer first
-    let customerId = 0;
-    if (body.create_account && body.password && body.billing.email) {
+    const gateway = getGateway(body.payment_method || 'cod');
+    if (!gateway) {
+      return NextResponse.json(
+        { message: 'Unsupported payment method' },
+        { status: 400 }
+      );
+    }
+
+    // Re-check every line against live product data before creating anything
+    // Line items are narrowed to what they may set; prices come from WooCommerce
+    const { lineItems, errors: lineItemErrors } = await validateLineItems(
+      body.line_items.map(({ product_id, variation_id, quantity }) => ({ product_id, variation_id, quantity }))
+    );
+    if (lineItemErrors.length > 0) {
+      return NextResponse.json(
+        {
+          message: 'Some items in your bag need attention',
+          code: 'invalid_line_items',
+          errors: lineItemErrors,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Re-check coupons now the billing email is known (usage and email rules)
+    const couponLines = body.coupon_lines || [];
+    const [lines, account] = await Promise.all([getPricedLines(lineItems), getSignedInAccount()]);
+    const applied: WCCoupon[] = [];
+    for (const { code } of couponLines) {
+      const coupon = await findCoupon(code);
+      validateCoupon(coupon, {
+        lines,
+        email: body.billing.email,
+        customerId: account?.customer?.id,
+        applied,
+      });
+      applied.push(coupon);
+    }
+    const discount = calculateTotalDiscount(applied, lines);
+
+    // Price the chosen shipping method for the shipping address; orders of
+    // virtual products only have nothing to ship
+    const shippingAddress = body.shipping || body.billing;
+    const needsShipping = lines.some((line) => line.needsShipping);
+    const shippingRate = needsShipping
+      ? await resolveShippingRate(
+          {
+            country: shippingAddress.country,
+            state: shippingAddress.state,
+            postcode: shippingAddress.postcode,
+          },
+          getShippingPackage(lines, discount, applied.some((coupon) => coupon.free_shipping)),
+          body.shipping_method
+        )
+      : null;
+
+    // Signed-in customers own their order; guests may create an account first
+    let customerId = account?.customer?.id || 0;
+    if (!customerId && body.create_account && body.password && body.billing.email) {
       try {
         const customer = await wooCommerce.customers.create({
           email: body.billing.email,
@@ -53,12 +118,23 @@ export async function POST(request: Request) {
 
     // Create the order
     const order = await wooCommerce.orders.create({
-      payment_method: 'cod', // Cash on delivery as default
-      payment_method_title: 'Cash on Delivery',
-      set_paid: false,
+      payment_method: gateway.id,
+      payment_method_title: gateway.title,
+      set_paid: false, // Online payments are confirmed by their webhook
       billing: body.billing,
       shipping: body.shipping,
-      line_items: body.line_items,
+      line_items: lineItems,
+      coupon_lines: couponLines.map(({ code }) => ({ code })),
+      shipping_lines: shippingRate
+        ? [
+            {
+              method_id: shippingRate.methodId,
+              method_title: shippingRate.title,
+              instance_id: String(shippingRate.instanceId),
+              total: shippingRate.cost.toFixed(2),
+            },
+          ]
+        : [],
       customer_id: customerId || undefined,
       customer_note: body.customer_note,
     });
@@ -68,11 +144,16 @@ export async function POST(request: Request) {
       number: order.number,
       status: order.status,
       total: order.total,
+      order_key: order.order_key,
+      payment_method: order.payment_method,
     });
   } catch (error) {
     console.error('Order creation error:', error);
 
     const message = error instanceof Error ? error.message : 'Failed to create order';
+    if (error instanceof CouponError || error instanceof ShippingError) {
+      return NextResponse.json({ message, code: error.code }, { status: error.status });
+    }
     return NextResponse.json({ message }, { status: 500 });
   }
 }
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { findGuestOrder } from '@/lib/order-tracking';
+import { getClientIp, getRateLimitStore } from '@/lib/rate-limit';
+
+interface TrackOrderRequestBody {
+  orderNumber: string;
+  email: string;
+}
+
+// Lookups allowed per IP within the window, to stop order numbers being walked
+const LOOKUP_LIMIT = 10;
+const LOOKUP_WINDOW = 15 * 60;
+
+export async function POST(request: Request) {
+  try {
+    const body: TrackOrderRequestBody = await request.json();
+
+    if (!body.orderNumber || !body.email) {
+      return NextResponse.json(
+        { message: 'Order number and email are required' },
+        { status: 400 }
+      );
+    }
+
+    const attempts = await getRateLimitStore().increment(`track-order:ip:${getClientIp(request)}`, LOOKUP_WINDOW);
+    if (attempts > LOOKUP_LIMIT) {
+      return NextResponse.json(
+        { message: 'Too many lookups. Please try again later.', code: 'too_many_attempts' },
+        { status: 429, headers: { 'Retry-After': String(LOOKUP_WINDOW) } }
+      );
+    }
+
+    const order = await findGuestOrder(String(body.orderNumber), String(body.email));
+
+    if (!order) {
+      return NextResponse.json(
+        { message: 'We couldn\'t find an order matching those details.', code: 'order_not_found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.error('Error tracking order:', error);
+    return NextResponse.json(
+      { message: 'Failed to look up order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { wooCommerce } from '@/lib/woocommerce';
+import { withCustomer } from '@/lib/account';
+import { getReviewPermissions } from '@/lib/reviews';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Whether the signed-in customer may review the product, and if they bought it
+ */
+export const GET = withCustomer<RouteParams>(async (_request, { customer }, { params }) => {
+  try {
+    const { id } = await params;
+    const productId = parseInt(id, 10);
+
+    if (isNaN(productId)) {
+      return NextResponse.json(
+        { message: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const product = await wooCommerce.products.get(productId);
+    return NextResponse.json(await getReviewPermissions(product, customer));
+  } catch (error) {
+    console.error('Error checking review eligibility:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to check review eligibility';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+});
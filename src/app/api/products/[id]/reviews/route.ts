@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { wooCommerce } from '@/lib/woocommerce';
+import { withCustomer } from '@/lib/account';
+import { getReviewsPage, submitReview, ReviewError } from '@/lib/reviews';
+import type { ReviewSort } from '@/types/review';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ReviewRequestBody {
+  rating: number;
+  review: string;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const productId = parseInt(id, 10);
+
+    if (isNaN(productId)) {
+      return NextResponse.json(
+        { message: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = await getReviewsPage(productId, {
+      page: parseInt(searchParams.get('page') || '1', 10) || 1,
+      sort: (searchParams.get('sort') || undefined) as ReviewSort | undefined,
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to fetch reviews';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+}
+
+export const POST = withCustomer<RouteParams>(async (request, { customer }, { params }) => {
+  try {
+    const { id } = await params;
+    const productId = parseInt(id, 10);
+
+    if (isNaN(productId)) {
+      return NextResponse.json(
+        { message: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: ReviewRequestBody = await request.json();
+    const product = await wooCommerce.products.get(productId, { fresh: true });
+    const review = await submitReview(product, customer, { rating: Number(body.rating), review: body.review });
+
+    return NextResponse.json(review, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error submitting review:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to submit review';
+    return NextResponse.json({ message }, { status: 500 });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { wooCommerce, WooCommerceError } from '@/lib/woocommerce';
+import type { WCProductVariation } from '@/types/woocommerce';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A product and its variations, for the quick-view dialog
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const productId = parseInt(id, 10);
+
+    if (isNaN(productId)) {
+      return NextResponse.json(
+        { message: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const product = await wooCommerce.products.get(productId);
+
+    if (product.status !== 'publish') {
+      return NextResponse.json(
+        { message: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    let variations: WCProductVariation[] = [];
+    if (product.type === 'variable' && product.variations.length > 0) {
+      variations = await wooCommerce.products.getVariations(product.id);
+    }
+
+    return NextResponse.json({ product, variations });
+  } catch (error) {
+    console.error('Error fetching product:', error);
+
+    const message = error instanceof Error ? error.message : 'Failed to fetch product';
+    const status = error instanceof WooCommerceError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { recordClientSearchEvent } from '@/lib/search/analytics';
+import { getClientIp } from '@/lib/rate-limit';
+
+// Force Node.js runtime (needed for the file sink)
+export const runtime = 'nodejs';
+
+interface SearchEventRequestBody {
+  type: 'click' | 'add_to_cart';
+  query: string;
+  productId: number;
+  results?: number; // Clicks from the search overlay: how many products the query found
+}
+
+/**
+ * Record a click on a search result, or an add to cart that followed one
+ * Clicking an overlay result commits its search, so that is recorded too.
+ */
+export async function POST(request: Request) {
+  try {
+    const body: SearchEventRequestBody = await request.json();
+    const productId = Number(body.productId);
+
+    if (!['click', 'add_to_cart'].includes(body.type) || typeof body.query !== 'string' || !productId) {
+      return NextResponse.json({ message: 'Invalid search event' }, { status: 400 });
+    }
+
+    const ip = getClientIp(request);
+    const results = Number(body.results);
+    if (body.type === 'click' && results > 0) {
+      await recordClientSearchEvent(ip, { type: 'search', query: body.query, results });
+    }
+    await recordClientSearchEvent(ip, { type: body.type, query: body.query, productId });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error recording search event:', error);
+    return NextResponse.json(
+      { message: 'Failed to record search event' },
+      { status: 500 }
+    );
+  }
+}
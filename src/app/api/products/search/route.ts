@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { products } from '@/lib/woocommerce';
+import { searchProducts } from '@/lib/search/catalog';
+import type { SearchResponse } from '@/types/search';
 
 // Force Node.js runtime (needed for Buffer in woocommerce.ts)
 export const runtime = 'nodejs';
 
+const emptyFacets: SearchResponse['facets'] = { categories: [], attributes: [], inStock: 0, onSale: 0 };
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const query = searchParams.get('q');
 
   if (!query || query.trim().length < 2) {
-    return NextResponse.json({ products: [] });
+    return NextResponse.json({ products: [], total: 0, suggestions: [], didYouMean: null, facets: emptyFacets });
+  }
+
+  try {
+    const response = await searchProducts(query.trim());
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Search index error:', error);
   }
 
+  // Fall back to WooCommerce's own search while the index is unavailable
   try {
     const results = await products.list({
       search: query.trim(),
@@ -32,7 +44,14 @@ export async function GET(request: NextRequest) {
       stock_status: product.stock_status,
     }));
 
-    return NextResponse.json({ products: searchResults });
+    const response: SearchResponse = {
+      products: searchResults,
+      total: searchResults.length,
+      suggestions: [],
+      didYouMean: null,
+      facets: emptyFacets,
+    };
+    return NextResponse.json(response);
   } catch (error) {
     console.error('Search error:', error);
     return NextResponse.json(
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { categories } from '@/lib/woocommerce';
+import { getTrendingQueries } from '@/lib/search/analytics';
+import type { SearchTrending } from '@/types/search';
+
+// Force Node.js runtime (needed for Buffer in woocommerce.ts and the file sink)
+export const runtime = 'nodejs';
+
+/**
+ * Trending searches and popular categories for the search overlay before anything is typed
+ */
+export async function GET() {
+  // Either half is worth showing without the other
+  const [queries, popular] = await Promise.all([
+    getTrendingQueries(5).catch((error) => {
+      console.error('Error loading trending searches:', error);
+      return [];
+    }),
+    categories.list({ orderby: 'count', order: 'desc', per_page: 6 }).catch((error) => {
+      console.error('Error loading popular categories:', error);
+      return [];
+    }),
+  ]);
+
+  const trending: SearchTrending = {
+    queries,
+    categories: popular.map((category) => ({ name: category.name, slug: category.slug, count: category.count })),
+  };
+  return NextResponse.json(trending);
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { verifyRevalidateSignature, verifyWooCommerceSignature } from '@/lib/webhooks';
+import { getContentRevalidation, getWooCommerceRevalidation, revalidate, type ContentUpdate } from '@/lib/revalidation';
+import { removeProduct, upsertProduct } from '@/lib/search/catalog';
+import type { WCProduct } from '@/types/woocommerce';
+
+// Force Node.js runtime (needed for crypto and Buffer)
+export const runtime = 'nodejs';
+
+/**
+ * Refresh cached data when the store changes
+ * Accepts WooCommerce webhooks (signed with WC_WEBHOOK_SECRET) and WordPress
+ * content updates (signed with REVALIDATE_SECRET).
+ */
+export async function POST(request: Request) {
+  // Signature verification needs the raw body
+  const payload = await request.text();
+  const topic = request.headers.get('x-wc-webhook-topic');
+
+  // WooCommerce pings a new webhook with a form-encoded webhook_id and no topic
+  if (!topic && payload.startsWith('webhook_id=')) {
+    return NextResponse.json({ received: true });
+  }
+
+  const verified = topic
+    ? verifyWooCommerceSignature(payload, request.headers.get('x-wc-webhook-signature'))
+    : verifyRevalidateSignature(payload, request.headers.get('x-revalidate-signature'));
+
+  if (!verified) {
+    return NextResponse.json({ message: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const body = JSON.parse(payload);
+    const revalidation = topic ? getWooCommerceRevalidation(topic, body) : getContentRevalidation(body as ContentUpdate);
+
+    if (revalidation) {
+      revalidate(revalidation);
+    }
+
+    // Keep the search index in step with the catalogue
+    if (topic === 'product.deleted') {
+      await removeProduct((body as WCProduct).id);
+    } else if (topic?.startsWith('product.')) {
+      await upsertProduct(body as WCProduct);
+    }
+
+    return NextResponse.json({ revalidated: Boolean(revalidation), ...revalidation });
+  } catch (error) {
+    console.error('Revalidation error:', error);
+    return NextResponse.json({ message: 'Revalidation failed' }, { status: 500 });
+  }
+}
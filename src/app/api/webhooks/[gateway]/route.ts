@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getGateway, applyPaymentResult, PaymentError } from '@/lib/payments';
+
+// Force Node.js runtime (needed for the payment provider SDKs)
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ gateway: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { gateway: gatewayId } = await params;
+  const gateway = getGateway(gatewayId);
+
+  if (!gateway?.handleWebhook) {
+    return NextResponse.json({ message: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    // Signature verification needs the raw body
+    const payload = await request.text();
+    const result = await gateway.handleWebhook(payload, request.headers);
+
+    if (result) {
+      await applyPaymentResult(result);
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error(`${gateway.title} webhook error:`, error);
+
+    // Anything but a rejected signature gets a 5xx so the provider retries
+    const message = error instanceof Error ? error.message : 'Webhook handling failed';
+    const status = error instanceof PaymentError ? error.status : 500;
+    return NextResponse.json({ message }, { status });
+  }
+}
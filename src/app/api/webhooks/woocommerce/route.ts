@@ -0,0 +1,5 @@
+// Product webhooks set up before /api/revalidate existed keep working here
+export { POST } from '@/app/api/revalidate/route';
+
+// Force Node.js runtime (needed for crypto and Buffer)
+export const runtime = 'nodejs';
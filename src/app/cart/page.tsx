@@ -1,15 +1,25 @@
 'use client';
 
+import { useEffect } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
-import { useCartStore, useCartItems, useCartTotal } from '@/stores/cart-store';
+import { useCartStore, useCartItems, useCartTotals, useCartTaxes } from '@/stores/cart-store';
 import { formatPrice } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { CouponForm } from '@/components/cart/coupon-form';
+import { TaxBreakdown, IncludedTaxNote } from '@/components/cart/tax-breakdown';
+import { CrossSells } from '@/components/cart/cross-sells';
 
 export default function CartPage() {
   const items = useCartItems();
-  const total = useCartTotal();
-  const { removeItem, updateQuantity, clearCart } = useCartStore();
+  const totals = useCartTotals();
+  const taxes = useCartTaxes();
+  const { removeItem, updateQuantity, clearCart, fetchTaxes } = useCartStore();
+
+  // Estimate tax for the store address until the shopper enters theirs
+  useEffect(() => {
+    if (items.length > 0) fetchTaxes();
+  }, [items, totals.discount, fetchTaxes]);
 
   if (items.length === 0) {
     return (
@@ -157,6 +167,8 @@ export default function CartPage() {
               Clear bag
             </button>
           </div>
+
+          <CrossSells layout="grid" className="mt-12" />
         </div>
 
         {/* Order Summary */}
@@ -164,26 +176,41 @@ export default function CartPage() {
           <div className="sticky top-24 bg-gray-50 p-6">
             <h2 className="text-lg font-medium">Order Summary</h2>
 
+            <CouponForm className="mt-6" />
+
             <div className="mt-6 space-y-4">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Subtotal</span>
-                <span>{formatPrice(total)}</span>
+                <span>{formatPrice(taxes?.subtotal ?? totals.subtotal)}</span>
               </div>
+              {(taxes?.discount ?? totals.discount) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Discount</span>
+                  <span className="text-green-700">
+                    -{formatPrice(taxes?.discount ?? totals.discount)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Shipping</span>
                 <span>Calculated at checkout</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax</span>
-                <span>Calculated at checkout</span>
-              </div>
+              {taxes ? (
+                <TaxBreakdown taxes={taxes} estimated />
+              ) : (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Tax</span>
+                  <span>Calculated at checkout</span>
+                </div>
+              )}
             </div>
 
             <div className="mt-6 border-t pt-6">
               <div className="flex justify-between text-base font-medium">
                 <span>Total</span>
-                <span>{formatPrice(total)}</span>
+                <span>{formatPrice(taxes?.total ?? totals.total)}</span>
               </div>
+              {taxes && <IncludedTaxNote taxes={taxes} estimated />}
             </div>
 
             <Link href="/checkout" className="mt-6 block">
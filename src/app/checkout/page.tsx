@@ -7,11 +7,25 @@ import Image from 'next/image';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useCartStore, useCartItems, useCartTotal } from '@/stores/cart-store';
+import {
+  useCartStore,
+  useCartItems,
+  useCartTotals,
+  useCartCoupons,
+  useCartTaxes,
+  useCartNeedsShipping,
+} from '@/stores/cart-store';
 import { useAuthStore } from '@/stores/auth-store';
-import { formatPrice } from '@/lib/utils';
+import { formatPrice, cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { PaymentMethods, type PaymentMethodOption } from '@/components/checkout/payment-methods';
+import { PayPalButton } from '@/components/checkout/paypal-button';
+import { ShippingMethods } from '@/components/checkout/shipping-methods';
+import { CouponForm } from '@/components/cart/coupon-form';
+import { TaxBreakdown, IncludedTaxNote } from '@/components/cart/tax-breakdown';
+import type { LineItemError } from '@/types/woocommerce';
+import type { ShippingRate, ShippingRatesResponse } from '@/types/shipping';
 
 const checkoutSchema = z.object({
   email: z.string().email('Please enter a valid email'),
@@ -43,13 +57,23 @@ type CheckoutFormData = z.infer<typeof checkoutSchema>;
 export default function CheckoutPage() {
   const router = useRouter();
   const items = useCartItems();
-  const total = useCartTotal();
-  const { clearCart } = useCartStore();
+  const totals = useCartTotals();
+  const coupons = useCartCoupons();
+  const taxes = useCartTaxes();
+  const needsShipping = useCartNeedsShipping();
+  const { clearCart, removeItem, updateQuantity, fetchTaxes } = useCartStore();
   const { user, isAuthenticated } = useAuthStore();
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Per-line problems reported by the server, keyed by cart item ID
+  const [lineErrors, setLineErrors] = useState<Record<string, LineItemError>>({});
   const [mounted, setMounted] = useState(false);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodOption[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [shippingRates, setShippingRates] = useState<ShippingRate[]>([]);
+  const [shippingMethod, setShippingMethod] = useState('');
+  const [isLoadingRates, setIsLoadingRates] = useState(false);
 
   const {
     register,
@@ -70,10 +94,90 @@ export default function CheckoutPage() {
   const shippingSameAsBilling = watch('shippingSameAsBilling');
   const createAccount = watch('createAccount');
 
+  // Rates depend on where the order ships to
+  const billingDestination = watch(['country', 'state', 'postcode']);
+  const shippingDestination = watch(['shippingCountry', 'shippingState', 'shippingPostcode']);
+  // Virtual-only carts have no shipping address, so tax follows the billing address
+  const [destinationCountry, destinationState, destinationPostcode] = shippingSameAsBilling || !needsShipping
+    ? billingDestination
+    : shippingDestination;
+
+  const selectedRate = needsShipping ? shippingRates.find((rate) => rate.id === shippingMethod) : undefined;
+  // Tax totals include the selected shipping; fall back to untaxed cart totals
+  const total = taxes?.total ?? totals.total + (selectedRate?.cost ?? 0);
+
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Only offer the gateways the server has enabled
+  useEffect(() => {
+    fetch('/api/checkout/payment-methods')
+      .then((response) => response.json())
+      .then((methods: PaymentMethodOption[]) => {
+        setPaymentMethods(methods);
+        setPaymentMethod((current) => current || methods[0]?.id || '');
+      })
+      .catch(() => setError('Failed to load payment methods'));
+  }, []);
+
+  // Refresh rates when the destination or cart value changes (debounced while typing)
+  useEffect(() => {
+    if (!destinationCountry || !needsShipping) return;
+
+    const timeout = setTimeout(() => {
+      setIsLoadingRates(true);
+      fetch('/api/checkout/shipping-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          country: destinationCountry,
+          state: destinationState,
+          postcode: destinationPostcode,
+        }),
+      })
+        .then((response) => response.json())
+        .then(({ rates }: ShippingRatesResponse) => {
+          setShippingRates(rates || []);
+          // Keep the current choice if it is still offered
+          setShippingMethod((current) =>
+            rates?.some((rate) => rate.id === current) ? current : rates?.[0]?.id || ''
+          );
+        })
+        .catch(() => setError('Failed to load shipping methods'))
+        .finally(() => setIsLoadingRates(false));
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [destinationCountry, destinationState, destinationPostcode, needsShipping, totals.subtotal, totals.discount, coupons]);
+
+  // Recalculate tax for the destination and chosen shipping method
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchTaxes(
+        destinationCountry
+          ? {
+              country: destinationCountry,
+              state: destinationState,
+              postcode: destinationPostcode,
+              shippingMethod: needsShipping ? shippingMethod : undefined,
+            }
+          : undefined
+      );
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [
+    destinationCountry,
+    destinationState,
+    destinationPostcode,
+    shippingMethod,
+    needsShipping,
+    totals.subtotal,
+    totals.discount,
+    fetchTaxes,
+  ]);
+
   useEffect(() => {
     if (isAuthenticated && user) {
       setValue('email', user.email);
@@ -114,9 +218,33 @@ export default function CheckoutPage() {
     );
   }
 
+  // Set when the shopper comes back from an abandoned or failed off-site payment
+  const paymentStatus = new URLSearchParams(window.location.search).get('payment');
+
+  // Apply the fix suggested for a line and clear its error
+  const fixLineItem = async (itemId: string, lineError: LineItemError) => {
+    setLineErrors((current) => {
+      const next = { ...current };
+      delete next[itemId];
+      return next;
+    });
+
+    if (lineError.max_quantity) {
+      await updateQuantity(itemId, lineError.max_quantity);
+    } else {
+      await removeItem(itemId);
+    }
+  };
+
   const onSubmit = async (data: CheckoutFormData) => {
+    if (needsShipping && !shippingMethod) {
+      setError('Please choose a shipping method');
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
+    setLineErrors({});
 
     try {
       const billingAddress = {
@@ -133,7 +261,7 @@ export default function CheckoutPage() {
         company: '',
       };
 
-      const shippingAddress = data.shippingSameAsBilling
+      const shippingAddress = data.shippingSameAsBilling || !needsShipping
         ? { ...billingAddress }
         : {
             first_name: data.shippingFirstName || data.firstName,
@@ -162,7 +290,10 @@ export default function CheckoutPage() {
           billing: billingAddress,
           shipping: shippingAddress,
           line_items: lineItems,
+          coupon_lines: coupons.map((coupon) => ({ code: coupon.code })),
+          shipping_method: needsShipping ? shippingMethod : undefined,
           customer_note: data.orderNotes || '',
+          payment_method: paymentMethod,
           create_account: data.createAccount,
           password: data.password,
         }),
@@ -170,12 +301,42 @@ export default function CheckoutPage() {
 
       const result = await response.json();
 
+      if (response.status === 409 && result.errors) {
+        // Map errors back to cart lines by their position in line_items
+        const errorsByItem: Record<string, LineItemError> = {};
+        (result.errors as LineItemError[]).forEach((lineError) => {
+          const item = items[lineError.index];
+          if (item) errorsByItem[item.id] = lineError;
+        });
+        setLineErrors(errorsByItem);
+      }
+
       if (!response.ok) {
         throw new Error(result.message || 'Failed to create order');
       }
 
-      clearCart();
-      router.push(`/order-confirmation/${result.id}`);
+      const paymentResponse = await fetch(`/api/checkout/${result.payment_method}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ orderId: result.id, orderKey: result.order_key }),
+      });
+
+      const payment = await paymentResponse.json();
+
+      if (!paymentResponse.ok) {
+        throw new Error(payment.message || 'Failed to start payment');
+      }
+
+      if (payment.url) {
+        // Keep the cart until the payment provider confirms the payment
+        window.location.href = payment.url;
+        return;
+      }
+
+      await clearCart();
+      router.push(`/order-confirmation/${result.id}?key=${result.order_key}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
@@ -274,71 +435,96 @@ export default function CheckoutPage() {
             </div>
           </section>
 
-          {/* Shipping Address */}
-          <section className="mt-8">
-            <div className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                id="shippingSameAsBilling"
-                {...register('shippingSameAsBilling')}
-                className="h-4 w-4 border-gray-300 text-black focus:ring-black"
-              />
-              <label htmlFor="shippingSameAsBilling" className="text-sm">
-                Shipping address same as billing
-              </label>
-            </div>
-
-            {!shippingSameAsBilling && (
-              <div className="mt-4">
-                <h2 className="text-lg font-medium">Shipping Address</h2>
-                <div className="mt-4 grid gap-4 sm:grid-cols-2">
-                  <Input
-                    placeholder="First name"
-                    {...register('shippingFirstName')}
+          {/* Virtual-only carts skip the shipping step */}
+          {needsShipping && (
+            <>
+              {/* Shipping Address */}
+              <section className="mt-8">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="shippingSameAsBilling"
+                    {...register('shippingSameAsBilling')}
+                    className="h-4 w-4 border-gray-300 text-black focus:ring-black"
                   />
-                  <Input
-                    placeholder="Last name"
-                    {...register('shippingLastName')}
-                  />
-                  <div className="sm:col-span-2">
-                    <Input
-                      placeholder="Address"
-                      {...register('shippingAddress1')}
-                    />
+                  <label htmlFor="shippingSameAsBilling" className="text-sm">
+                    Shipping address same as billing
+                  </label>
+                </div>
+
+                {!shippingSameAsBilling && (
+                  <div className="mt-4">
+                    <h2 className="text-lg font-medium">Shipping Address</h2>
+                    <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                      <Input
+                        placeholder="First name"
+                        {...register('shippingFirstName')}
+                      />
+                      <Input
+                        placeholder="Last name"
+                        {...register('shippingLastName')}
+                      />
+                      <div className="sm:col-span-2">
+                        <Input
+                          placeholder="Address"
+                          {...register('shippingAddress1')}
+                        />
+                      </div>
+                      <div className="sm:col-span-2">
+                        <Input
+                          placeholder="Apartment, suite, etc. (optional)"
+                          {...register('shippingAddress2')}
+                        />
+                      </div>
+                      <Input
+                        placeholder="City"
+                        {...register('shippingCity')}
+                      />
+                      <Input
+                        placeholder="State / Province"
+                        {...register('shippingState')}
+                      />
+                      <Input
+                        placeholder="Postal code"
+                        {...register('shippingPostcode')}
+                      />
+                      <select
+                        {...register('shippingCountry')}
+                        className="w-full border border-gray-300 px-4 py-3 text-sm focus:border-black focus:outline-none"
+                      >
+                        <option value="US">United States</option>
+                        <option value="CA">Canada</option>
+                        <option value="GB">United Kingdom</option>
+                        <option value="AU">Australia</option>
+                        <option value="DE">Germany</option>
+                        <option value="FR">France</option>
+                      </select>
+                    </div>
                   </div>
-                  <div className="sm:col-span-2">
-                    <Input
-                      placeholder="Apartment, suite, etc. (optional)"
-                      {...register('shippingAddress2')}
+                )}
+              </section>
+
+              {/* Shipping Method */}
+              <section className="mt-8">
+                <h2 className="text-lg font-medium">Shipping Method</h2>
+                <div className="mt-4">
+                  {shippingRates.length > 0 ? (
+                    <ShippingMethods
+                      rates={shippingRates}
+                      selected={shippingMethod}
+                      onChange={setShippingMethod}
                     />
-                  </div>
-                  <Input
-                    placeholder="City"
-                    {...register('shippingCity')}
-                  />
-                  <Input
-                    placeholder="State / Province"
-                    {...register('shippingState')}
-                  />
-                  <Input
-                    placeholder="Postal code"
-                    {...register('shippingPostcode')}
-                  />
-                  <select
-                    {...register('shippingCountry')}
-                    className="w-full border border-gray-300 px-4 py-3 text-sm focus:border-black focus:outline-none"
-                  >
-                    <option value="US">United States</option>
-                    <option value="CA">Canada</option>
-                    <option value="GB">United Kingdom</option>
-                    <option value="AU">Australia</option>
-                    <option value="DE">Germany</option>
-                    <option value="FR">France</option>
-                  </select>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      {isLoadingRates
+                        ? 'Loading shipping methods...'
+                        : 'Enter your address to see shipping methods. We may not ship to every location.'}
+                    </p>
+                  )}
                 </div>
-              </div>
-            )}
-          </section>
+              </section>
+            </>
+          )}
 
           {/* Create Account */}
           {!isAuthenticated && (
@@ -370,6 +556,28 @@ export default function CheckoutPage() {
             </section>
           )}
 
+          {/* Payment Method */}
+          <section className="mt-8">
+            <h2 className="text-lg font-medium">Payment Method</h2>
+            {paymentStatus === 'cancelled' && (
+              <p className="mt-2 text-sm text-gray-500">
+                Your payment was cancelled. Your bag has been kept so you can try again.
+              </p>
+            )}
+            {paymentStatus === 'failed' && (
+              <p className="mt-2 text-sm text-red-600">
+                We couldn&apos;t complete your payment. Your bag has been kept &mdash; please try again or choose another method.
+              </p>
+            )}
+            <div className="mt-4">
+              <PaymentMethods
+                methods={paymentMethods}
+                selected={paymentMethod}
+                onChange={setPaymentMethod}
+              />
+            </div>
+          </section>
+
           {/* Order Notes */}
           <section className="mt-8">
             <label htmlFor="orderNotes" className="text-sm font-medium">
@@ -393,14 +601,18 @@ export default function CheckoutPage() {
 
           {/* Submit Button - Mobile */}
           <div className="mt-8 lg:hidden">
-            <Button
-              type="submit"
-              className="w-full"
-              size="lg"
-              disabled={isSubmitting}
-            >
-              {isSubmitting ? 'Processing...' : `Pay ${formatPrice(total)}`}
-            </Button>
+            {paymentMethod === 'paypal' ? (
+              <PayPalButton isLoading={isSubmitting} />
+            ) : (
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Processing...' : `Pay ${formatPrice(total)}`}
+              </Button>
+            )}
           </div>
         </div>
 
@@ -412,7 +624,10 @@ export default function CheckoutPage() {
             {/* Items */}
             <div className="mt-6 divide-y">
               {items.map((item) => (
-                <div key={item.id} className="flex gap-4 py-4">
+                <div
+                  key={item.id}
+                  className={cn('flex gap-4 py-4', lineErrors[item.id] && 'bg-red-50 px-2')}
+                >
                   <div className="relative h-20 w-16 flex-shrink-0 overflow-hidden bg-gray-100">
                     {item.image ? (
                       <Image
@@ -442,26 +657,62 @@ export default function CheckoutPage() {
                           .join(' / ')}
                       </span>
                     )}
+                    {lineErrors[item.id] && (
+                      <div className="mt-1 text-xs text-red-600">
+                        <p>{lineErrors[item.id].message}</p>
+                        <button
+                          type="button"
+                          onClick={() => fixLineItem(item.id, lineErrors[item.id])}
+                          className="mt-1 underline hover:text-red-800"
+                        >
+                          {lineErrors[item.id].max_quantity
+                            ? `Change quantity to ${lineErrors[item.id].max_quantity}`
+                            : 'Remove from bag'}
+                        </button>
+                      </div>
+                    )}
                   </div>
                   <span className="text-sm">{formatPrice(item.price * item.quantity)}</span>
                 </div>
               ))}
             </div>
 
+            <CouponForm className="mt-6 border-t pt-6" />
+
             {/* Totals */}
             <div className="mt-6 space-y-3 border-t pt-6">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Subtotal</span>
-                <span>{formatPrice(total)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Shipping</span>
-                <span>Calculated at next step</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax</span>
-                <span>Calculated at next step</span>
+                <span>{formatPrice(taxes?.subtotal ?? totals.subtotal)}</span>
               </div>
+              {(taxes?.discount ?? totals.discount) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Discount</span>
+                  <span className="text-green-700">
+                    -{formatPrice(taxes?.discount ?? totals.discount)}
+                  </span>
+                </div>
+              )}
+              {needsShipping && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Shipping</span>
+                  <span>
+                    {selectedRate
+                      ? selectedRate.cost > 0
+                        ? formatPrice(taxes?.shipping ?? selectedRate.cost)
+                        : 'Free'
+                      : 'Enter your address'}
+                  </span>
+                </div>
+              )}
+              {taxes ? (
+                <TaxBreakdown taxes={taxes} estimated={!destinationCountry} />
+              ) : (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Tax</span>
+                  <span>Calculated at next step</span>
+                </div>
+              )}
             </div>
 
             <div className="mt-6 border-t pt-6">
@@ -469,18 +720,27 @@ export default function CheckoutPage() {
                 <span>Total</span>
                 <span>{formatPrice(total)}</span>
               </div>
+              {taxes && <IncludedTaxNote taxes={taxes} estimated={!destinationCountry} />}
             </div>
 
             {/* Submit Button - Desktop */}
             <div className="mt-6 hidden lg:block">
-              <Button
-                type="submit"
-                className="w-full"
-                size="lg"
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? 'Processing...' : 'Place Order'}
-              </Button>
+              {paymentMethod === 'paypal' ? (
+                <PayPalButton isLoading={isSubmitting} />
+              ) : (
+                <Button
+                  type="submit"
+                  className="w-full"
+                  size="lg"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting
+                    ? 'Processing...'
+                    : paymentMethod === 'stripe'
+                    ? 'Continue to Payment'
+                    : 'Place Order'}
+                </Button>
+              )}
             </div>
 
             {/* Security Note */}
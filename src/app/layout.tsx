@@ -4,7 +4,10 @@ import "./globals.css";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
 import { CartDrawer } from "@/components/cart/cart-drawer";
+import { QuickView } from "@/components/product/quick-view";
 import { Providers } from "@/components/providers";
+import { JsonLd } from "@/components/ui/json-ld";
+import { getOrganizationJsonLd, getWebSiteJsonLd } from "@/lib/structured-data";
 
 // Body font - clean neutral sans-serif
 const inter = Inter({
@@ -51,6 +54,7 @@ export default function RootLayout({
   return (
     <html lang="en" className={`${inter.variable} ${syne.variable}`}>
       <body className="font-sans antialiased" suppressHydrationWarning>
+        <JsonLd data={[getOrganizationJsonLd(), getWebSiteJsonLd()]} />
         <Providers>
           <div className="flex min-h-screen flex-col">
             <Header />
@@ -58,6 +62,7 @@ export default function RootLayout({
             <Footer />
           </div>
           <CartDrawer />
+          <QuickView />
         </Providers>
       </body>
     </html>
@@ -1,18 +1,22 @@
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { wooCommerce } from '@/lib/woocommerce';
+import { matchesOrderKey } from '@/lib/order-tracking';
 import { formatPrice } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { ClearCart } from '@/components/cart/clear-cart';
 
 interface OrderConfirmationPageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ key?: string; payment?: string }>;
 }
 
-export default async function OrderConfirmationPage({ params }: OrderConfirmationPageProps) {
+export default async function OrderConfirmationPage({ params, searchParams }: OrderConfirmationPageProps) {
   const { id } = await params;
+  const { key, payment } = await searchParams;
   const orderId = parseInt(id, 10);
 
-  if (isNaN(orderId)) {
+  if (isNaN(orderId) || !key) {
     notFound();
   }
 
@@ -23,8 +27,16 @@ export default async function OrderConfirmationPage({ params }: OrderConfirmatio
     notFound();
   }
 
+  // The order key proves the visitor placed this order; IDs alone are guessable
+  if (!matchesOrderKey(order, key)) {
+    notFound();
+  }
+
   return (
     <div className="mx-auto max-w-3xl px-4 py-16 lg:px-8">
+      {/* Returning from an off-site payment */}
+      {payment === 'success' && <ClearCart />}
+
       <div className="text-center">
         {/* Success Icon */}
         <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-green-100">
@@ -93,26 +105,69 @@ export default async function OrderConfirmationPage({ params }: OrderConfirmatio
               <span className="text-gray-500">Subtotal</span>
               <span>
                 {formatPrice(
-                  order.line_items.reduce((acc, item) => acc + parseFloat(item.total), 0)
+                  order.line_items.reduce(
+                    (acc, item) =>
+                      acc +
+                      parseFloat(item.subtotal) +
+                      (order.prices_include_tax ? parseFloat(item.subtotal_tax) : 0),
+                    0
+                  )
                 )}
               </span>
             </div>
-            {parseFloat(order.shipping_total) > 0 && (
+            {parseFloat(order.discount_total) > 0 && (
               <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Shipping</span>
-                <span>{formatPrice(parseFloat(order.shipping_total))}</span>
+                <span className="text-gray-500">
+                  Discount
+                  {order.coupon_lines.length > 0 &&
+                    ` (${order.coupon_lines.map((coupon) => coupon.code.toUpperCase()).join(', ')})`}
+                </span>
+                <span>
+                  -{formatPrice(
+                    parseFloat(order.discount_total) +
+                      (order.prices_include_tax ? parseFloat(order.discount_tax) : 0)
+                  )}
+                </span>
               </div>
             )}
-            {parseFloat(order.total_tax) > 0 && (
+            {parseFloat(order.shipping_total) > 0 && (
               <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Tax</span>
-                <span>{formatPrice(parseFloat(order.total_tax))}</span>
+                <span className="text-gray-500">Shipping</span>
+                <span>
+                  {formatPrice(
+                    parseFloat(order.shipping_total) +
+                      (order.prices_include_tax ? parseFloat(order.shipping_tax) : 0)
+                  )}
+                </span>
               </div>
             )}
+            {!order.prices_include_tax &&
+              order.tax_lines.map((tax) => (
+                <div key={tax.id} className="flex justify-between text-sm">
+                  <span className="text-gray-500">{tax.label}</span>
+                  <span>
+                    {formatPrice(parseFloat(tax.tax_total) + parseFloat(tax.shipping_tax_total))}
+                  </span>
+                </div>
+              ))}
             <div className="flex justify-between border-t pt-2 text-lg font-medium">
               <span>Total</span>
               <span>{formatPrice(parseFloat(order.total))}</span>
             </div>
+            {order.prices_include_tax && parseFloat(order.total_tax) > 0 && (
+              <p className="text-right text-xs text-gray-500">
+                Includes {formatPrice(parseFloat(order.total_tax))} tax
+                {order.tax_lines.length > 1 &&
+                  ` (${order.tax_lines
+                    .map(
+                      (tax) =>
+                        `${tax.label} ${formatPrice(
+                          parseFloat(tax.tax_total) + parseFloat(tax.shipping_tax_total)
+                        )}`
+                    )
+                    .join(', ')})`}
+              </p>
+            )}
           </div>
         </div>
 
@@ -5,8 +5,12 @@ import { ProductDetailSkeleton } from '@/components/ui/skeleton';
 import { ProductGallery } from '@/components/product/product-gallery';
 import { ProductInfo } from '@/components/product/product-info';
 import { ProductGrid } from '@/components/product/product-grid';
+import { ProductReviews } from '@/components/product/product-reviews';
+import { JsonLd } from '@/components/ui/json-ld';
+import { getBreadcrumbJsonLd, getProductJsonLd, getStoreCurrency } from '@/lib/structured-data';
+import { getProductUrl } from '@/lib/utils';
 import type { Metadata } from 'next';
-import type { WCProductVariation } from '@/types/woocommerce';
+import type { WCProduct, WCProductVariation } from '@/types/woocommerce';
 
 interface ProductPageProps {
   params: Promise<{ slug: string }>;
@@ -46,6 +50,19 @@ async function RelatedProducts({ product }: { product: Awaited<ReturnType<typeof
   );
 }
 
+async function Upsells({ product }: { product: WCProduct }) {
+  const upsells = await wooCommerce.products.getUpsells(product, 4);
+
+  if (upsells.length === 0) return null;
+
+  return (
+    <section className="mt-16 border-t pt-16">
+      <h2 className="mb-8 text-2xl font-light">You Might Prefer</h2>
+      <ProductGrid products={upsells} columns={4} />
+    </section>
+  );
+}
+
 async function ProductDetail({ slug }: { slug: string }) {
   const product = await wooCommerce.products.getBySlug(slug);
 
@@ -54,13 +71,24 @@ async function ProductDetail({ slug }: { slug: string }) {
   }
 
   // Fetch variations if variable product
-  let variations: WCProductVariation[] = [];
-  if (product.type === 'variable' && product.variations.length > 0) {
-    variations = await wooCommerce.products.getVariations(product.id);
-  }
+  const [variations, currency] = await Promise.all([
+    product.type === 'variable' && product.variations.length > 0
+      ? wooCommerce.products.getVariations(product.id)
+      : ([] as WCProductVariation[]),
+    getStoreCurrency(),
+  ]);
+
+  const category = product.categories[0];
+  const breadcrumb = getBreadcrumbJsonLd([
+    { name: 'Shop', path: '/shop' },
+    ...(category ? [{ name: category.name, path: `/shop/${category.slug}` }] : []),
+    { name: product.name, path: getProductUrl(product.slug) },
+  ]);
 
   return (
     <>
+      <JsonLd data={[getProductJsonLd(product, variations, currency), breadcrumb]} />
+
       <div className="lg:grid lg:grid-cols-2 lg:gap-12">
         {/* Product Gallery */}
         <ProductGallery images={product.images} productName={product.name} />
@@ -69,6 +97,16 @@ async function ProductDetail({ slug }: { slug: string }) {
         <ProductInfo product={product} variations={variations} />
       </div>
 
+      {/* Upsells */}
+      <Suspense fallback={null}>
+        <Upsells product={product} />
+      </Suspense>
+
+      {/* Reviews */}
+      <Suspense fallback={null}>
+        <ProductReviews product={product} />
+      </Suspense>
+
       {/* Related Products */}
       <Suspense fallback={null}>
         <RelatedProducts product={product} />
@@ -3,6 +3,12 @@ import { notFound } from 'next/navigation';
 import { wooCommerce } from '@/lib/woocommerce';
 import { ProductGrid } from '@/components/product/product-grid';
 import { ProductGridSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import { JsonLd } from '@/components/ui/json-ld';
+import { getBreadcrumbJsonLd } from '@/lib/structured-data';
+import { searchCatalog, withSearchResults } from '@/lib/search/catalog';
+import { trackShopSearch } from '@/lib/search/analytics';
+import type { ProductsQueryParams } from '@/types/woocommerce';
 import type { Metadata } from 'next';
 
 interface CategoryPageProps {
@@ -11,6 +17,7 @@ interface CategoryPageProps {
     page?: string;
     orderby?: string;
     order?: string;
+    search?: string;
   }>;
 }
 
@@ -30,61 +37,101 @@ export async function generateMetadata({ params }: CategoryPageProps): Promise<M
 
 async function CategoryProducts({
   categoryId,
+  categorySlug,
   searchParams,
 }: {
   categoryId: number;
+  categorySlug: string;
   searchParams: CategoryPageProps['searchParams'];
 }) {
   const params = await searchParams;
-  const page = parseInt(params.page || '1');
+  const page = Math.max(1, parseInt(params.page || '1') || 1);
   const perPage = 12;
 
-  const products = await wooCommerce.products.list({
+  const query: ProductsQueryParams = {
     category: String(categoryId),
-    page,
-    per_page: perPage,
     orderby: params.orderby as 'date' | 'price' | 'popularity' | undefined,
     order: params.order as 'asc' | 'desc' | undefined,
-  });
+  };
+
+  // Searches go through the search index, or WooCommerce's own search when it is unavailable
+  const searchResults = params.search ? await searchCatalog(params.search) : null;
+  const productQuery = !params.search
+    ? query
+    : searchResults
+      ? withSearchResults(query, searchResults)
+      : { ...query, search: params.search };
+
+  const { items: products, total, totalPages } = productQuery
+    ? await wooCommerce.products.listPaginated({ ...productQuery, page, per_page: perPage })
+    : { items: [], total: 0, totalPages: 0 };
 
   if (products.length === 0) {
     return (
       <div className="py-12 text-center">
-        <p className="text-gray-500">No products found in this category.</p>
+        <p className="text-gray-500">
+          {params.search ? `No products in this category match "${params.search}".` : 'No products found in this category.'}
+        </p>
       </div>
     );
   }
 
   return (
     <>
+      <p className="mb-4 text-sm text-gray-500">
+        Showing {(page - 1) * perPage + 1}&ndash;{(page - 1) * perPage + products.length} of {total} products
+      </p>
+
       <ProductGrid products={products} columns={4} />
 
-      {products.length === perPage && (
-        <div className="mt-12 flex justify-center">
-          <a
-            href={`?page=${page + 1}`}
-            className="border border-black px-8 py-3 text-sm font-medium hover:bg-black hover:text-white transition-colors"
-          >
-            Load More
-          </a>
-        </div>
-      )}
+      <Pagination
+        className="mt-12"
+        currentPage={page}
+        totalPages={totalPages}
+        basePath={`/shop/${categorySlug}`}
+        searchParams={params}
+      />
     </>
   );
 }
 
 export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
   const { category: categorySlug } = await params;
+  const { search, page } = await searchParams;
   const category = await wooCommerce.categories.getBySlug(categorySlug);
 
   if (!category) {
     notFound();
   }
 
-  const allCategories = await wooCommerce.categories.list({ per_page: 20 });
+  const [allCategories, searchResults] = await Promise.all([
+    wooCommerce.categories.list({ per_page: 20 }),
+    search ? searchCatalog(search) : null,
+  ]);
+
+  // Each search counts once, not again for every page of its results
+  if (search && searchResults && (page || '1') === '1') {
+    await trackShopSearch(search, searchResults.ids.length);
+  }
+
+  // While searching, categories link to their share of the results
+  const searchSuffix = search ? `?search=${encodeURIComponent(search)}` : '';
+  const categoryCounts = searchResults
+    ? new Map(searchResults.facets.categories.map((facet) => [facet.value, facet.count]))
+    : null;
+  const shownCategories = categoryCounts
+    ? allCategories.filter((cat) => categoryCounts.has(cat.slug) || cat.id === category.id)
+    : allCategories;
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 lg:px-8">
+      <JsonLd
+        data={getBreadcrumbJsonLd([
+          { name: 'Shop', path: '/shop' },
+          { name: category.name, path: `/shop/${category.slug}` },
+        ])}
+      />
+
       {/* Header */}
       <div className="mb-8">
         <nav className="mb-4 text-sm text-gray-500">
@@ -96,7 +143,9 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
         {category.description && (
           <p className="mt-2 text-gray-600" dangerouslySetInnerHTML={{ __html: category.description }} />
         )}
-        <p className="mt-2 text-sm text-gray-500">{category.count} products</p>
+        <p className="mt-2 text-sm text-gray-500">
+          {search ? <>Search results for &quot;{search}&quot;</> : `${category.count} products`}
+        </p>
       </div>
 
       <div className="lg:grid lg:grid-cols-4 lg:gap-8">
@@ -109,21 +158,21 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
               <ul className="mt-4 space-y-2">
                 <li>
                   <a
-                    href="/shop"
+                    href={`/shop${searchSuffix}`}
                     className="text-sm text-gray-600 hover:text-black"
                   >
                     All Products
                   </a>
                 </li>
-                {allCategories.map((cat) => (
+                {shownCategories.map((cat) => (
                   <li key={cat.id}>
                     <a
-                      href={`/shop/${cat.slug}`}
+                      href={`/shop/${cat.slug}${searchSuffix}`}
                       className={`text-sm hover:text-black ${
                         cat.id === category.id ? 'font-medium text-black' : 'text-gray-600'
                       }`}
                     >
-                      {cat.name} ({cat.count})
+                      {cat.name} ({categoryCounts ? categoryCounts.get(cat.slug) ?? 0 : cat.count})
                     </a>
                   </li>
                 ))}
@@ -157,7 +206,11 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
         {/* Products Grid */}
         <div className="lg:col-span-3">
           <Suspense fallback={<ProductGridSkeleton count={12} />}>
-            <CategoryProducts categoryId={category.id} searchParams={searchParams} />
+            <CategoryProducts
+              categoryId={category.id}
+              categorySlug={category.slug}
+              searchParams={searchParams}
+            />
           </Suspense>
         </div>
       </div>
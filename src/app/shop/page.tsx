@@ -2,6 +2,15 @@ import { Suspense } from 'react';
 import { wooCommerce } from '@/lib/woocommerce';
 import { ProductGrid } from '@/components/product/product-grid';
 import { ProductGridSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import { ProductFilters } from '@/components/shop/product-filters';
+import { ActiveFilters } from '@/components/shop/active-filters';
+import { FilterButton, FilterSheet } from '@/components/shop/filter-sheet';
+import { getFilterAttributes, getFilteredQuery } from '@/lib/product-filters';
+import { searchCatalog, withSearchResults } from '@/lib/search/catalog';
+import { trackShopSearch } from '@/lib/search/analytics';
+import type { FilterAttribute } from '@/types/filters';
+import type { ProductsQueryParams } from '@/types/woocommerce';
 import type { Metadata } from 'next';
 
 export const metadata: Metadata = {
@@ -10,61 +19,112 @@ export const metadata: Metadata = {
 };
 
 interface ShopPageProps {
-  searchParams: Promise<{
-    page?: string;
-    orderby?: string;
-    order?: string;
-    featured?: string;
-    on_sale?: string;
-    search?: string;
-  }>;
+  // Besides page/orderby/order/featured/search, filters use on_sale, min_price,
+  // max_price, stock_status and filter_<attribute> params
+  searchParams: Promise<Record<string, string | undefined>>;
 }
 
-async function ProductList({ searchParams }: { searchParams: ShopPageProps['searchParams'] }) {
+async function ProductList({
+  searchParams,
+  filterAttributes,
+}: {
+  searchParams: ShopPageProps['searchParams'];
+  filterAttributes: FilterAttribute[];
+}) {
   const params = await searchParams;
-  const page = parseInt(params.page || '1');
+  const page = Math.max(1, parseInt(params.page || '1') || 1);
   const perPage = 12;
 
-  const products = await wooCommerce.products.list({
-    page,
-    per_page: perPage,
+  const filterQuery = await getFilteredQuery(params, filterAttributes);
+  if (!filterQuery) {
+    return (
+      <div className="py-12 text-center">
+        <p className="text-gray-500">No products match these filters.</p>
+      </div>
+    );
+  }
+
+  const query: ProductsQueryParams = {
+    ...filterQuery,
     orderby: params.orderby as 'date' | 'price' | 'popularity' | undefined,
     order: params.order as 'asc' | 'desc' | undefined,
     featured: params.featured === 'true' ? true : undefined,
-    on_sale: params.on_sale === 'true' ? true : undefined,
-    search: params.search,
-  });
+  };
+
+  // Searches go through the search index, or WooCommerce's own search when it is unavailable
+  const searchResults = params.search ? await searchCatalog(params.search) : null;
+  const productQuery = !params.search
+    ? query
+    : searchResults
+      ? withSearchResults(query, searchResults)
+      : { ...query, search: params.search };
+
+  const { items: products, total, totalPages } = productQuery
+    ? await wooCommerce.products.listPaginated({ ...productQuery, page, per_page: perPage })
+    : { items: [], total: 0, totalPages: 0 };
 
   if (products.length === 0) {
     return (
       <div className="py-12 text-center">
         <p className="text-gray-500">No products found.</p>
+        {searchResults?.didYouMean && (
+          <p className="mt-2 text-sm text-gray-500">
+            Did you mean{' '}
+            <a
+              href={`/shop?search=${encodeURIComponent(searchResults.didYouMean)}`}
+              className="font-medium text-black underline underline-offset-2"
+            >
+              {searchResults.didYouMean}
+            </a>
+            ?
+          </p>
+        )}
       </div>
     );
   }
 
   return (
     <>
+      <p className="mb-4 text-sm text-gray-500">
+        Showing {(page - 1) * perPage + 1}&ndash;{(page - 1) * perPage + products.length} of {total} products
+        {searchResults?.didYouMean && <> for &quot;{searchResults.didYouMean}&quot;</>}
+      </p>
+
       <ProductGrid products={products} columns={4} />
 
-      {/* Pagination placeholder */}
-      {products.length === perPage && (
-        <div className="mt-12 flex justify-center">
-          <a
-            href={`/shop?page=${page + 1}`}
-            className="border border-black px-8 py-3 text-sm font-medium hover:bg-black hover:text-white transition-colors"
-          >
-            Load More
-          </a>
-        </div>
-      )}
+      <Pagination
+        className="mt-12"
+        currentPage={page}
+        totalPages={totalPages}
+        basePath="/shop"
+        searchParams={params}
+      />
     </>
   );
 }
 
 export default async function ShopPage({ searchParams }: ShopPageProps) {
   const params = await searchParams;
-  const categories = await wooCommerce.categories.list({ per_page: 20 });
+  const [categories, filterAttributes, priceRange, searchResults] = await Promise.all([
+    wooCommerce.categories.list({ per_page: 20 }),
+    getFilterAttributes(),
+    wooCommerce.products.getPriceRange(),
+    params.search ? searchCatalog(params.search) : null,
+  ]);
+
+  // Each search counts once, not again for every page of its results
+  if (params.search && searchResults && (params.page || '1') === '1') {
+    await trackShopSearch(params.search, searchResults.ids.length);
+  }
+
+  // While searching, categories link to their share of the results
+  const searchSuffix = params.search ? `?search=${encodeURIComponent(params.search)}` : '';
+  const categoryCounts = searchResults
+    ? new Map(searchResults.facets.categories.map((facet) => [facet.value, facet.count]))
+    : null;
+  const shownCategories = categoryCounts
+    ? categories.filter((category) => categoryCounts.has(category.slug))
+    : categories;
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 lg:px-8">
@@ -88,19 +148,19 @@ export default async function ShopPage({ searchParams }: ShopPageProps) {
               <ul className="mt-4 space-y-2">
                 <li>
                   <a
-                    href="/shop"
+                    href={`/shop${searchSuffix}`}
                     className="text-sm text-gray-600 hover:text-black"
                   >
                     All Products
                   </a>
                 </li>
-                {categories.map((category) => (
+                {shownCategories.map((category) => (
                   <li key={category.id}>
                     <a
-                      href={`/shop/${category.slug}`}
+                      href={`/shop/${category.slug}${searchSuffix}`}
                       className="text-sm text-gray-600 hover:text-black"
                     >
-                      {category.name} ({category.count})
+                      {category.name} ({categoryCounts?.get(category.slug) ?? category.count})
                     </a>
                   </li>
                 ))}
@@ -147,27 +207,7 @@ export default async function ShopPage({ searchParams }: ShopPageProps) {
             </div>
 
             {/* Filters */}
-            <div>
-              <h3 className="text-sm font-medium uppercase tracking-wider">Filter</h3>
-              <ul className="mt-4 space-y-2">
-                <li>
-                  <a
-                    href="/shop?on_sale=true"
-                    className="text-sm text-gray-600 hover:text-black"
-                  >
-                    On Sale
-                  </a>
-                </li>
-                <li>
-                  <a
-                    href="/shop?featured=true"
-                    className="text-sm text-gray-600 hover:text-black"
-                  >
-                    Featured
-                  </a>
-                </li>
-              </ul>
-            </div>
+            <ProductFilters attributes={filterAttributes} priceRange={priceRange} />
           </div>
         </aside>
 
@@ -175,15 +215,7 @@ export default async function ShopPage({ searchParams }: ShopPageProps) {
         <div className="lg:col-span-3">
           {/* Mobile Filters */}
           <div className="mb-6 flex items-center justify-between lg:hidden">
-            <button
-              type="button"
-              className="flex items-center gap-2 text-sm"
-            >
-              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
-              </svg>
-              Filters
-            </button>
+            <FilterButton />
             <select
               className="border-none bg-transparent text-sm focus:ring-0"
               defaultValue=""
@@ -195,8 +227,14 @@ export default async function ShopPage({ searchParams }: ShopPageProps) {
             </select>
           </div>
 
+          <FilterSheet>
+            <ProductFilters attributes={filterAttributes} priceRange={priceRange} />
+          </FilterSheet>
+
+          <ActiveFilters attributes={filterAttributes} />
+
           <Suspense fallback={<ProductGridSkeleton count={12} />}>
-            <ProductList searchParams={searchParams} />
+            <ProductList searchParams={searchParams} filterAttributes={filterAttributes} />
           </Suspense>
         </div>
       </div>
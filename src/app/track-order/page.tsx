@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatPrice } from '@/lib/utils';
+import { orderStatusColors, orderStatusLabels } from '@/lib/order-status';
+import type { TrackedOrder } from '@/types/order';
+
+const trackOrderSchema = z.object({
+  orderNumber: z.string().min(1, 'Order number is required'),
+  email: z.string().email('Please enter a valid email'),
+});
+
+type TrackOrderFormData = z.infer<typeof trackOrderSchema>;
+
+export default function TrackOrderPage() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TrackOrderFormData>({
+    resolver: zodResolver(trackOrderSchema),
+  });
+
+  const onSubmit = async (data: TrackOrderFormData) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/orders/track', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to look up order');
+      }
+
+      setOrder(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (order) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-16 lg:px-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-light">Order #{order.number}</h1>
+            <p className="mt-2 text-gray-500">
+              Placed on{' '}
+              {new Date(order.dateCreated).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </p>
+          </div>
+          <span
+            className={`rounded-full px-3 py-1 text-sm font-medium ${
+              orderStatusColors[order.status] || 'bg-gray-100 text-gray-800'
+            }`}
+          >
+            {orderStatusLabels[order.status] || order.status}
+          </span>
+        </div>
+
+        {/* Order Items */}
+        <div className="mt-8 border border-gray-200">
+          <div className="border-b bg-gray-50 px-6 py-4">
+            <h2 className="font-medium">Order Items</h2>
+          </div>
+          <div className="divide-y">
+            {order.items.map((item, index) => (
+              <div key={index} className="flex gap-4 p-6">
+                <div className="relative h-20 w-16 flex-shrink-0 overflow-hidden bg-gray-100">
+                  {item.image && (
+                    <Image src={item.image} alt={item.name} fill className="object-cover" sizes="64px" />
+                  )}
+                </div>
+                <div className="flex flex-1 justify-between">
+                  <div>
+                    <h3 className="font-medium">{item.name}</h3>
+                    <p className="mt-1 text-sm text-gray-500">Qty: {item.quantity}</p>
+                  </div>
+                  <p className="font-medium">{formatPrice(item.total)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between border-t px-6 py-4 font-medium">
+            <span>Total</span>
+            <span>{formatPrice(order.total)}</span>
+          </div>
+        </div>
+
+        {/* Shipping */}
+        <div className="mt-8 border border-gray-200 p-6">
+          <h2 className="font-medium">Shipping</h2>
+          {order.shippingMethod && <p className="mt-2 text-sm text-gray-600">{order.shippingMethod}</p>}
+          <address className="mt-4 not-italic text-sm text-gray-600">
+            {order.shippingAddress.name}
+            {order.shippingAddress.lines.map((line) => (
+              <span key={line}>
+                <br />
+                {line}
+              </span>
+            ))}
+          </address>
+        </div>
+
+        <div className="mt-8 flex gap-4">
+          <Button variant="outline" onClick={() => setOrder(null)}>
+            Track Another Order
+          </Button>
+          <Link href="/shop">
+            <Button>Continue Shopping</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-md px-4 py-16 lg:px-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-light">Track Your Order</h1>
+        <p className="mt-2 text-gray-500">
+          Enter your order number and the email address used at checkout.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="mt-8 space-y-6">
+        <Input
+          placeholder="Order number"
+          {...register('orderNumber')}
+          error={errors.orderNumber?.message}
+        />
+
+        <Input
+          type="email"
+          placeholder="Billing email address"
+          {...register('email')}
+          error={errors.email?.message}
+        />
+
+        {error && (
+          <div className="rounded bg-red-50 p-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          size="lg"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Looking up...' : 'Track Order'}
+        </Button>
+      </form>
+
+      <p className="mt-8 text-center text-sm text-gray-500">
+        Have an account?{' '}
+        <Link href="/account/orders" className="font-medium text-black hover:underline">
+          View your orders
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAuthStore, type User } from '@/stores/auth-store';
+
+interface SessionSyncProps {
+  user: User | null;
+}
+
+/**
+ * Keep the client auth store in line with the server session
+ * Clears a cached user whose session cookie has expired or been revoked.
+ */
+export function SessionSync({ user }: SessionSyncProps) {
+  useEffect(() => {
+    const { isAuthenticated, setUser, clearUser } = useAuthStore.getState();
+
+    if (user) {
+      setUser(user);
+    } else if (isAuthenticated) {
+      clearUser();
+    }
+  }, [user]);
+
+  return null;
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface SocialProvider {
+  id: string;
+  name: string;
+}
+
+interface SocialLoginButtonsProps {
+  redirect?: string;
+  className?: string;
+}
+
+// Messages for the ?error= codes the OAuth callback redirects with
+export const socialLoginErrors: Record<string, string> = {
+  access_denied: 'Sign-in was cancelled.',
+  invalid_state: 'Your sign-in session expired. Please try again.',
+  email_missing: 'We need your email address to sign you in. Please allow access to it and try again.',
+  email_not_verified: 'Please verify your email address with the provider first.',
+  oauth_unavailable: 'This sign-in option is not available right now.',
+  oauth_failed: 'We couldn\'t sign you in. Please try again.',
+};
+
+/**
+ * "Continue with ..." buttons for the configured OAuth providers
+ * Renders nothing when no provider is configured.
+ */
+export function SocialLoginButtons({ redirect, className }: SocialLoginButtonsProps) {
+  const [providers, setProviders] = useState<SocialProvider[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/oauth')
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setProviders)
+      .catch(() => setProviders([]));
+  }, []);
+
+  if (providers.length === 0) return null;
+
+  const query = redirect ? `?redirect=${encodeURIComponent(redirect)}` : '';
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {providers.map((provider) => (
+          // Full page navigation: the route redirects off-site to the provider
+          <a
+            key={provider.id}
+            href={`/api/auth/oauth/${provider.id}${query}`}
+            className="flex h-12 w-full items-center justify-center border border-gray-300 text-sm font-medium transition-colors hover:border-black"
+          >
+            Continue with {provider.name}
+          </a>
+        ))}
+      </div>
+
+      <div className="my-6 flex items-center gap-4 text-xs uppercase tracking-wider text-gray-400">
+        <span className="h-px flex-1 bg-gray-200" />
+        or
+        <span className="h-px flex-1 bg-gray-200" />
+      </div>
+    </div>
+  );
+}
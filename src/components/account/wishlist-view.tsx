@@ -0,0 +1,131 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { useWishlistStore, useWishlistItems } from '@/stores/wishlist-store';
+import { formatPrice, getProductUrl, getStockStatusLabel } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+
+interface WishlistViewProps {
+  signedIn: boolean;
+}
+
+/**
+ * The wishlist, with the signed-out copy pointing guests at sign-in
+ */
+export function WishlistView({ signedIn }: WishlistViewProps) {
+  const items = useWishlistItems();
+  const { removeItem, isSyncing, error } = useWishlistStore();
+
+  return (
+    <div className="mx-auto max-w-4xl px-4 py-12 lg:px-8 lg:py-16">
+      {/* Breadcrumb */}
+      {signedIn && (
+        <nav className="mb-8">
+          <ol className="flex items-center gap-2 text-sm text-gray-500">
+            <li>
+              <Link href="/account" className="hover:text-black">
+                Account
+              </Link>
+            </li>
+            <li>/</li>
+            <li className="text-black">Wishlist</li>
+          </ol>
+        </nav>
+      )}
+
+      <h1 className="text-3xl font-light">Wishlist</h1>
+      <p className="mt-2 text-gray-500">
+        {signedIn ? (
+          'Products you\'ve saved for later.'
+        ) : (
+          <>
+            Saved on this device.{' '}
+            <Link href="/account/login?redirect=/account/wishlist" className="font-medium text-black hover:underline">
+              Sign in
+            </Link>{' '}
+            to keep your wishlist on every device.
+          </>
+        )}
+      </p>
+
+      {error && (
+        <div className="mt-8 rounded bg-red-50 p-4 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="mt-8 text-center py-12 border border-gray-200">
+          <svg
+            className="mx-auto h-12 w-12 text-gray-300"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth="1"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z"
+            />
+          </svg>
+          <h2 className="mt-4 text-lg font-medium">
+            {isSyncing ? 'Loading your wishlist...' : 'Your wishlist is empty'}
+          </h2>
+          <p className="mt-1 text-gray-500">Tap the heart on any product to save it here.</p>
+          <Link href="/shop">
+            <Button className="mt-6">Browse Products</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="mt-8 divide-y border border-gray-200">
+          {items.map((item) => (
+            <div key={item.productId} className="flex gap-4 p-6">
+              <Link
+                href={getProductUrl(item.slug)}
+                className="relative h-24 w-20 flex-shrink-0 overflow-hidden bg-gray-100"
+              >
+                {item.image && (
+                  <Image src={item.image} alt={item.name} fill className="object-cover" sizes="80px" />
+                )}
+              </Link>
+              <div className="flex flex-1 flex-col justify-between">
+                <div className="flex justify-between gap-4">
+                  <div>
+                    <Link href={getProductUrl(item.slug)} className="font-medium hover:underline">
+                      {item.name}
+                    </Link>
+                    <p className="mt-1 text-sm text-gray-500">{getStockStatusLabel(item.stockStatus)}</p>
+                  </div>
+                  <div className="text-right">
+                    {item.onSale ? (
+                      <>
+                        <p className="font-medium text-red-600">{formatPrice(item.price)}</p>
+                        <p className="text-sm text-gray-400 line-through">{formatPrice(item.regularPrice)}</p>
+                      </>
+                    ) : (
+                      <p className="font-medium">{formatPrice(item.price)}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-4 flex gap-4 text-sm">
+                  <Link href={getProductUrl(item.slug)} className="font-medium hover:underline">
+                    View Product
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => removeItem(item.productId)}
+                    className="text-gray-500 hover:text-black"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
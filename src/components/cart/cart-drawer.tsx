@@ -1,17 +1,32 @@
 'use client';
 
+import { useEffect } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useCartStore, useCartItems, useCartIsOpen, useCartTotal } from '@/stores/cart-store';
+import {
+  useCartStore,
+  useCartItems,
+  useCartIsOpen,
+  useCartSubtotal,
+  useCartTaxes,
+} from '@/stores/cart-store';
 import { formatPrice } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { TaxBreakdown, IncludedTaxNote } from '@/components/cart/tax-breakdown';
+import { CrossSells } from '@/components/cart/cross-sells';
 
 export function CartDrawer() {
   const items = useCartItems();
   const isOpen = useCartIsOpen();
-  const total = useCartTotal();
-  const { closeCart, removeItem, updateQuantity } = useCartStore();
+  const subtotal = useCartSubtotal();
+  const taxes = useCartTaxes();
+  const { closeCart, removeItem, updateQuantity, fetchTaxes } = useCartStore();
+
+  // Estimate tax for the store address while the drawer is open
+  useEffect(() => {
+    if (isOpen && items.length > 0) fetchTaxes();
+  }, [isOpen, items, fetchTaxes]);
 
   return (
     <AnimatePresence>
@@ -166,6 +181,8 @@ export function CartDrawer() {
                   ))}
                 </ul>
               )}
+
+              {items.length > 0 && <CrossSells onNavigate={closeCart} className="mt-6 border-t pt-6" />}
             </div>
 
             {/* Footer */}
@@ -173,10 +190,16 @@ export function CartDrawer() {
               <div className="border-t px-4 py-4">
                 <div className="flex justify-between text-base font-medium">
                   <p>Subtotal</p>
-                  <p>{formatPrice(total)}</p>
+                  <p>{formatPrice(taxes?.subtotal ?? subtotal)}</p>
                 </div>
+                {taxes && (
+                  <div className="mt-2 space-y-1">
+                    <TaxBreakdown taxes={taxes} estimated />
+                    <IncludedTaxNote taxes={taxes} estimated />
+                  </div>
+                )}
                 <p className="mt-1 text-sm text-gray-500">
-                  Shipping and taxes calculated at checkout.
+                  {taxes ? 'Shipping calculated at checkout.' : 'Shipping and taxes calculated at checkout.'}
                 </p>
                 <div className="mt-4 space-y-2">
                   <Link href="/checkout" onClick={closeCart}>
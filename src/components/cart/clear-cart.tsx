@@ -0,0 +1,15 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCartStore } from '@/stores/cart-store';
+
+/**
+ * Empty the cart once an off-site payment has completed
+ */
+export function ClearCart() {
+  useEffect(() => {
+    useCartStore.getState().clearCart();
+  }, []);
+
+  return null;
+}
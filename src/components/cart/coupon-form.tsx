@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { useCartStore, useCartCoupons } from '@/stores/cart-store';
+import { formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface CouponFormProps {
+  className?: string;
+}
+
+/**
+ * Coupon entry plus the list of applied codes
+ * Not a <form>, so it can sit inside the checkout form.
+ */
+export function CouponForm({ className }: CouponFormProps) {
+  const coupons = useCartCoupons();
+  const { applyCoupon, removeCoupon } = useCartStore();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      await applyCoupon(code.trim());
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply coupon');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex gap-2">
+        <Input
+          name="coupon_code"
+          placeholder="Coupon code"
+          aria-label="Coupon code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={handleApply} isLoading={isApplying}>
+          Apply
+        </Button>
+      </div>
+      {error && <p className="mt-1.5 text-sm text-red-500">{error}</p>}
+
+      {coupons.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {coupons.map((coupon) => (
+            <li key={coupon.code} className="flex items-center justify-between text-sm">
+              <span className="uppercase text-gray-600">{coupon.code}</span>
+              <span className="flex items-center gap-3">
+                <span className="text-green-700">-{formatPrice(coupon.discount)}</span>
+                <button
+                  type="button"
+                  onClick={() => removeCoupon(coupon.code)}
+                  className="text-xs text-gray-400 underline hover:text-black"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useCartStore, useCartItems } from '@/stores/cart-store';
+import { useUIStore } from '@/stores/ui-store';
+import { QUICK_VIEW_MODAL } from '@/components/product/quick-view';
+import { formatPrice, getProductUrl, cn } from '@/lib/utils';
+import type { WCProduct } from '@/types/woocommerce';
+
+interface CrossSellsProps {
+  layout?: 'list' | 'grid'; // List for the cart drawer, grid for the cart page
+  onNavigate?: () => void; // e.g. close the drawer when a product link is followed
+  className?: string;
+}
+
+/**
+ * "Complete the look": cross-sells of everything in the bag
+ * Simple products are added in one click; variable ones open the quick view.
+ */
+export function CrossSells({ layout = 'list', onNavigate, className }: CrossSellsProps) {
+  const items = useCartItems();
+  const { addItem, closeCart } = useCartStore();
+  const openModal = useUIStore((state) => state.openModal);
+  const [products, setProducts] = useState<WCProduct[]>([]);
+  const [addingId, setAddingId] = useState<number | null>(null);
+
+  // Refetch only when the set of products in the bag changes, not quantities
+  const cartKey = items
+    .map((item) => item.productId)
+    .sort((a, b) => a - b)
+    .join(',');
+
+  useEffect(() => {
+    if (!cartKey) return;
+
+    let cancelled = false;
+    fetch('/api/cart/cross-sells')
+      .then((response) => (response.ok ? response.json() : []))
+      .then((result) => {
+        if (!cancelled) setProducts(result);
+      })
+      .catch(() => {
+        if (!cancelled) setProducts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartKey]);
+
+  if (!cartKey || products.length === 0) return null;
+
+  const handleAdd = async (product: WCProduct) => {
+    if (product.type !== 'simple') {
+      // The drawer would otherwise sit on top of the dialog
+      closeCart();
+      openModal(QUICK_VIEW_MODAL, { productId: product.id });
+      return;
+    }
+
+    setAddingId(product.id);
+    try {
+      await addItem({ productId: product.id, quantity: 1 });
+    } catch {
+      // The cart store keeps the error for the drawer to show
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  return (
+    <section className={className}>
+      <h3 className="text-sm font-medium uppercase tracking-wider">Complete the Look</h3>
+
+      <ul className={cn('mt-4', layout === 'grid' ? 'grid grid-cols-2 gap-6 md:grid-cols-4' : 'space-y-4')}>
+        {products.map((product) => (
+          <li key={product.id} className={cn(layout === 'list' && 'flex gap-3')}>
+            <Link
+              href={getProductUrl(product.slug)}
+              onClick={onNavigate}
+              className={cn(
+                'relative block flex-shrink-0 overflow-hidden bg-gray-100',
+                layout === 'grid' ? 'aspect-[3/4]' : 'h-20 w-16'
+              )}
+            >
+              {product.images[0] && (
+                <Image
+                  src={product.images[0].src}
+                  alt={product.images[0].alt || product.name}
+                  fill
+                  className="object-cover"
+                  sizes={layout === 'grid' ? '(min-width: 768px) 25vw, 50vw' : '64px'}
+                />
+              )}
+            </Link>
+
+            <div className={cn('flex flex-1 flex-col', layout === 'grid' && 'mt-3')}>
+              <Link
+                href={getProductUrl(product.slug)}
+                onClick={onNavigate}
+                className="text-sm font-medium line-clamp-1 hover:underline"
+              >
+                {product.name}
+              </Link>
+              <p className="mt-1 text-sm text-gray-500">{formatPrice(product.price)}</p>
+              <button
+                type="button"
+                onClick={() => handleAdd(product)}
+                disabled={addingId === product.id}
+                className="mt-2 self-start text-sm font-medium underline underline-offset-4 hover:text-gray-600 disabled:opacity-50"
+              >
+                {product.type === 'simple'
+                  ? addingId === product.id
+                    ? 'Adding...'
+                    : 'Add to Bag'
+                  : 'Choose Options'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { formatPrice } from '@/lib/utils';
+import type { TaxSummary } from '@/types/tax';
+
+interface TaxBreakdownProps {
+  taxes: TaxSummary;
+  estimated?: boolean; // Calculated for the store address, not the shopper's
+}
+
+/**
+ * One row per tax rate, for stores that display prices excluding tax
+ */
+export function TaxBreakdown({ taxes, estimated }: TaxBreakdownProps) {
+  if (taxes.displayIncl) return null;
+
+  if (taxes.lines.length === 0) {
+    return (
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">Tax</span>
+        <span>{formatPrice(0)}</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {taxes.lines.map((line) => (
+        <div key={line.rateId} className="flex justify-between text-sm">
+          <span className="text-gray-600">
+            {line.label}
+            {estimated && ' (estimated)'}
+          </span>
+          <span>{formatPrice(line.amount)}</span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * "Includes ... tax" note, for stores that display prices including tax
+ */
+export function IncludedTaxNote({ taxes, estimated }: TaxBreakdownProps) {
+  if (!taxes.displayIncl || taxes.taxTotal <= 0) return null;
+
+  return (
+    <p className="mt-1 text-right text-xs text-gray-500">
+      Includes {formatPrice(taxes.taxTotal)}
+      {estimated && ' estimated'} tax
+      {taxes.lines.length > 1 &&
+        ` (${taxes.lines.map((line) => `${line.label} ${formatPrice(line.amount)}`).join(', ')})`}
+    </p>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+export interface PaymentMethodOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+interface PaymentMethodsProps {
+  methods: PaymentMethodOption[];
+  selected: string;
+  onChange: (method: string) => void;
+}
+
+export function PaymentMethods({ methods, selected, onChange }: PaymentMethodsProps) {
+  return (
+    <div className="space-y-3">
+      {methods.map((method) => (
+        <label
+          key={method.id}
+          className={cn(
+            'flex cursor-pointer items-start gap-3 border p-4 transition-colors',
+            selected === method.id ? 'border-black' : 'border-gray-300 hover:border-gray-400'
+          )}
+        >
+          <input
+            type="radio"
+            name="paymentMethod"
+            value={method.id}
+            checked={selected === method.id}
+            onChange={() => onChange(method.id)}
+            className="mt-0.5 h-4 w-4 border-gray-300 text-black focus:ring-black"
+          />
+          <span>
+            <span className="block text-sm font-medium">{method.title}</span>
+            {method.description && (
+              <span className="mt-1 block text-xs text-gray-500">{method.description}</span>
+            )}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+interface PayPalButtonProps {
+  isLoading?: boolean;
+  className?: string;
+}
+
+/**
+ * PayPal-branded submit button for the checkout form
+ * Submitting creates the order and redirects the shopper to PayPal.
+ */
+export function PayPalButton({ isLoading, className }: PayPalButtonProps) {
+  return (
+    <button
+      type="submit"
+      disabled={isLoading}
+      className={cn(
+        'flex h-12 w-full items-center justify-center gap-1 rounded bg-[#ffc439] text-base font-bold transition-colors hover:bg-[#f2ba36] disabled:pointer-events-none disabled:opacity-50',
+        className
+      )}
+      aria-label="Pay with PayPal"
+    >
+      {isLoading ? (
+        <span className="text-sm font-medium text-black">Redirecting to PayPal...</span>
+      ) : (
+        <>
+          <span className="italic text-[#003087]">Pay</span>
+          <span className="italic text-[#009cde]">Pal</span>
+        </>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { cn, formatPrice } from '@/lib/utils';
+import type { ShippingRate } from '@/types/shipping';
+
+interface ShippingMethodsProps {
+  rates: ShippingRate[];
+  selected: string;
+  onChange: (rateId: string) => void;
+}
+
+export function ShippingMethods({ rates, selected, onChange }: ShippingMethodsProps) {
+  return (
+    <div className="space-y-3">
+      {rates.map((rate) => (
+        <label
+          key={rate.id}
+          className={cn(
+            'flex cursor-pointer items-center gap-3 border p-4 transition-colors',
+            selected === rate.id ? 'border-black' : 'border-gray-300 hover:border-gray-400'
+          )}
+        >
+          <input
+            type="radio"
+            name="shippingMethod"
+            value={rate.id}
+            checked={selected === rate.id}
+            onChange={() => onChange(rate.id)}
+            className="h-4 w-4 border-gray-300 text-black focus:ring-black"
+          />
+          <span className="flex-1 text-sm font-medium">{rate.title}</span>
+          <span className="text-sm">{rate.cost > 0 ? formatPrice(rate.cost) : 'Free'}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
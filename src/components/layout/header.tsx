@@ -7,6 +7,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useCartStore, useCartItemCount } from '@/stores/cart-store';
 import { useUIStore } from '@/stores/ui-store';
 import { useIsAuthenticated, useUser } from '@/stores/auth-store';
+import { useWishlistCount } from '@/stores/wishlist-store';
 import { cn } from '@/lib/utils';
 import { Search } from './search';
 
@@ -29,6 +30,7 @@ export function Header() {
   const [mounted, setMounted] = useState(false);
   const { openCart } = useCartStore();
   const itemCount = useCartItemCount();
+  const wishlistCount = useWishlistCount();
   const { isMobileMenuOpen, toggleMobileMenu, closeMobileMenu } = useUIStore();
   const isAuthenticated = useIsAuthenticated();
   const user = useUser();
@@ -82,6 +84,18 @@ export function Header() {
               </svg>
             </button>
 
+            {/* Wishlist Link */}
+            <Link href="/account/wishlist" className="relative" aria-label="Wishlist">
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z" />
+              </svg>
+              {wishlistCount > 0 && (
+                <span className="absolute -right-2 -top-2 flex h-4 w-4 items-center justify-center rounded-full bg-black text-[10px] text-white">
+                  {wishlistCount}
+                </span>
+              )}
+            </Link>
+
             {/* Divider */}
             <span className="hidden sm:block h-5 w-px bg-gray-300" />
 
@@ -197,6 +211,9 @@ export function Header() {
                       <Link href="/account/addresses" className="block py-3 text-gray-700 border-b border-gray-100" onClick={closeMobileMenu}>
                         Addresses
                       </Link>
+                      <Link href="/account/wishlist" className="block py-3 text-gray-700 border-b border-gray-100" onClick={closeMobileMenu}>
+                        Wishlist
+                      </Link>
                     </>
                   ) : (
                     <>
@@ -253,6 +270,13 @@ export function Header() {
                 >
                   Addresses
                 </Link>
+                <Link
+                  href="/account/wishlist"
+                  className="block px-4 py-2 text-sm hover:bg-gray-50"
+                  onClick={() => setIsAccountMenuOpen(false)}
+                >
+                  Wishlist
+                </Link>
               </>
             ) : (
               <>
@@ -5,32 +5,32 @@ import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatPrice } from '@/lib/utils';
-
-interface SearchProduct {
-  id: number;
-  name: string;
-  slug: string;
-  price: string;
-  regular_price: string;
-  sale_price: string;
-  on_sale: boolean;
-  image: string | null;
-  stock_status: string;
-}
+import { formatPrice, cn } from '@/lib/utils';
+import { trackSearchClick } from '@/lib/search/tracking';
+import { useSearchStore, useRecentSearches } from '@/stores/search-store';
+import type { SearchResponse, SearchTrending } from '@/types/search';
 
 interface SearchProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Something the arrow keys can move to: a query to run in place, or a page to open
+type SearchOption =
+  | { key: string; query: string }
+  | { key: string; href: string; productId?: number };
+
 export function Search({ isOpen, onClose }: SearchProps) {
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchProduct[]>([]);
+  const [response, setResponse] = useState<SearchResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [trending, setTrending] = useState<SearchTrending | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
+  const recentSearches = useRecentSearches();
+  const { addRecentSearch, removeRecentSearch, clearRecentSearches } = useSearchStore();
 
   // Focus input when search opens
   useEffect(() => {
@@ -39,11 +39,21 @@ export function Search({ isOpen, onClose }: SearchProps) {
     }
   }, [isOpen]);
 
+  // Load trending searches and popular categories the first time search opens
+  useEffect(() => {
+    if (!isOpen || trending) return;
+
+    fetch('/api/products/search/trending')
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setTrending)
+      .catch(() => {});
+  }, [isOpen, trending]);
+
   // Reset state when closed
   useEffect(() => {
     if (!isOpen) {
       setQuery('');
-      setResults([]);
+      setResponse(null);
       setHasSearched(false);
     }
   }, [isOpen]);
@@ -51,7 +61,7 @@ export function Search({ isOpen, onClose }: SearchProps) {
   // Debounced search with useEffect
   useEffect(() => {
     if (query.trim().length < 2) {
-      setResults([]);
+      setResponse(null);
       setHasSearched(false);
       setIsLoading(false);
       return;
@@ -60,15 +70,16 @@ export function Search({ isOpen, onClose }: SearchProps) {
     setIsLoading(true);
     const timeoutId = setTimeout(async () => {
       try {
-        const response = await fetch(
+        const res = await fetch(
           `/api/products/search?q=${encodeURIComponent(query)}`
         );
-        const data = await response.json();
-        setResults(data.products || []);
+        const data: SearchResponse = await res.json();
+        setResponse(data);
+        setActiveIndex(-1);
         setHasSearched(true);
       } catch (error) {
         console.error('Search error:', error);
-        setResults([]);
+        setResponse(null);
       } finally {
         setIsLoading(false);
       }
@@ -77,22 +88,88 @@ export function Search({ isOpen, onClose }: SearchProps) {
     return () => clearTimeout(timeoutId);
   }, [query]);
 
+  const results = response?.products || [];
+  const suggestions = response?.suggestions || [];
+  const categories = response?.facets.categories.slice(0, 4) || [];
+  const isTyping = query.trim().length >= 2;
+  const trendingQueries = trending?.queries || [];
+  const popularCategories = trending?.categories || [];
+  const searchHref = `/shop?search=${encodeURIComponent(query.trim())}`;
+
+  // Everything the arrow keys move through, in the order it is shown
+  const options: SearchOption[] = !isTyping
+    ? [
+        ...recentSearches.map((recent) => ({ key: `recent:${recent}`, query: recent })),
+        ...trendingQueries.map((trend) => ({ key: `trending:${trend}`, query: trend })),
+        ...popularCategories.map((category) => ({ key: `popular:${category.slug}`, href: `/shop/${category.slug}` })),
+      ]
+    : results.length > 0
+      ? [
+          ...suggestions.map((suggestion) => ({ key: `suggestion:${suggestion}`, query: suggestion })),
+          ...categories.map((category) => ({
+            key: `category:${category.value}`,
+            href: `/shop/${category.value}?search=${encodeURIComponent(query.trim())}`,
+          })),
+          ...results.map((product) => ({
+            key: `product:${product.id}`,
+            href: `/product/${product.slug}`,
+            productId: product.id,
+          })),
+          { key: 'all', href: searchHref },
+        ]
+      : response?.didYouMean
+        ? [{ key: 'did-you-mean', query: response.didYouMean }]
+        : [];
+
+  const activeOption = options[activeIndex];
+
+  // Props tying a rendered option to its place in the keyboard order
+  const optionProps = (key: string) => {
+    const index = options.findIndex((option) => option.key === key);
+    return {
+      id: `search-option-${index}`,
+      role: 'option',
+      'aria-selected': index === activeIndex,
+      onMouseEnter: () => setActiveIndex(index),
+    };
+  };
+
+  // Keep the highlighted option in view
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      document.getElementById(`search-option-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [activeIndex]);
+
   // Handle input change
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setQuery(e.target.value);
+    setActiveIndex(-1);
   };
 
   // Handle form submit - go to shop page with search query
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim()) {
-      router.push(`/shop?search=${encodeURIComponent(query.trim())}`);
+      addRecentSearch(query);
+      router.push(searchHref);
       onClose();
     }
   };
 
+  // Run a suggested, recent or corrected query in place
+  const handleSuggestionClick = (suggestion: string) => {
+    setQuery(suggestion);
+    setActiveIndex(-1);
+    inputRef.current?.focus();
+  };
+
   // Handle clicking a result
-  const handleResultClick = () => {
+  const handleResultClick = (productId?: number) => {
+    if (query.trim()) {
+      addRecentSearch(query);
+      if (productId) trackSearchClick(query.trim(), productId, response?.total);
+    }
     onClose();
   };
 
@@ -100,9 +177,25 @@ export function Search({ isOpen, onClose }: SearchProps) {
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       onClose();
+    } else if (e.key === 'ArrowDown' && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % options.length);
+    } else if (e.key === 'ArrowUp' && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? options.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && activeOption) {
+      e.preventDefault();
+      if ('query' in activeOption) {
+        handleSuggestionClick(activeOption.query);
+      } else {
+        handleResultClick(activeOption.productId);
+        router.push(activeOption.href);
+      }
     }
   };
 
+  const optionClass = (key: string) => cn(activeOption?.key === key && 'bg-gray-100');
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -124,6 +217,12 @@ export function Search({ isOpen, onClose }: SearchProps) {
                 placeholder="Search products..."
                 className="w-full border-b border-gray-300 bg-transparent py-2 pr-10 text-sm focus:border-black focus:outline-none"
                 autoComplete="off"
+                role="combobox"
+                aria-label="Search products"
+                aria-autocomplete="list"
+                aria-expanded={options.length > 0}
+                aria-controls="search-options"
+                aria-activedescendant={activeOption ? `search-option-${activeIndex}` : undefined}
               />
 
               {/* Search icon or loading spinner */}
@@ -166,10 +265,111 @@ export function Search({ isOpen, onClose }: SearchProps) {
               </div>
             </form>
 
+            {/* Recent, trending and popular before anything is typed */}
+            {!isTyping && options.length > 0 && (
+              <div id="search-options" role="listbox" className="mt-4 grid max-h-96 gap-6 overflow-y-auto sm:grid-cols-3">
+                {recentSearches.length > 0 && (
+                  <div role="group" aria-labelledby="search-recent-heading">
+                    <div className="mb-2 flex items-center justify-between">
+                      <p id="search-recent-heading" className="text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Recent Searches
+                      </p>
+                      <button
+                        type="button"
+                        onClick={clearRecentSearches}
+                        className="text-xs text-gray-400 hover:text-black"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                    <ul className="space-y-1">
+                      {recentSearches.map((recent) => (
+                        <li
+                          key={recent}
+                          {...optionProps(`recent:${recent}`)}
+                          className={cn('group flex items-center justify-between rounded px-2 py-1', optionClass(`recent:${recent}`))}
+                        >
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            onClick={() => handleSuggestionClick(recent)}
+                            className="flex-1 truncate text-left text-sm text-gray-700 hover:text-black"
+                          >
+                            {recent}
+                          </button>
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            onClick={() => removeRecentSearch(recent)}
+                            className="ml-2 text-gray-400 opacity-0 hover:text-black group-hover:opacity-100"
+                            aria-label={`Remove ${recent} from recent searches`}
+                          >
+                            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {trendingQueries.length > 0 && (
+                  <div role="group" aria-labelledby="search-trending-heading">
+                    <p id="search-trending-heading" className="mb-2 text-xs font-medium uppercase tracking-wider text-gray-500">
+                      Trending
+                    </p>
+                    <ul className="space-y-1">
+                      {trendingQueries.map((trend) => (
+                        <li key={trend} {...optionProps(`trending:${trend}`)} className={cn('rounded px-2 py-1', optionClass(`trending:${trend}`))}>
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            onClick={() => handleSuggestionClick(trend)}
+                            className="w-full truncate text-left text-sm text-gray-700 hover:text-black"
+                          >
+                            {trend}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {popularCategories.length > 0 && (
+                  <div role="group" aria-labelledby="search-categories-heading">
+                    <p id="search-categories-heading" className="mb-2 text-xs font-medium uppercase tracking-wider text-gray-500">
+                      Popular Categories
+                    </p>
+                    <ul className="space-y-1">
+                      {popularCategories.map((category) => (
+                        <li
+                          key={category.slug}
+                          {...optionProps(`popular:${category.slug}`)}
+                          className={cn('rounded px-2 py-1', optionClass(`popular:${category.slug}`))}
+                        >
+                          <Link
+                            href={`/shop/${category.slug}`}
+                            tabIndex={-1}
+                            onClick={() => handleResultClick()}
+                            className="block text-sm text-gray-700 hover:text-black"
+                          >
+                            {category.name}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Search Results Dropdown */}
             <AnimatePresence>
-              {(results.length > 0 || (hasSearched && query.length >= 2)) && (
+              {isTyping && (results.length > 0 || hasSearched) && (
                 <motion.div
+                  id="search-options"
+                  role="listbox"
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -10 }}
@@ -178,16 +378,56 @@ export function Search({ isOpen, onClose }: SearchProps) {
                 >
                   {results.length > 0 ? (
                     <>
+                      {(suggestions.length > 0 || categories.length > 0) && (
+                        <div className="mb-4 flex flex-wrap gap-2">
+                          {suggestions.map((suggestion) => (
+                            <button
+                              key={suggestion}
+                              type="button"
+                              tabIndex={-1}
+                              {...optionProps(`suggestion:${suggestion}`)}
+                              onClick={() => handleSuggestionClick(suggestion)}
+                              className={cn(
+                                'rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700 hover:bg-gray-200',
+                                activeOption?.key === `suggestion:${suggestion}` && 'bg-gray-200 ring-1 ring-black'
+                              )}
+                            >
+                              {suggestion}
+                            </button>
+                          ))}
+                          {categories.map((category) => (
+                            <Link
+                              key={category.value}
+                              href={`/shop/${category.value}?search=${encodeURIComponent(query.trim())}`}
+                              tabIndex={-1}
+                              {...optionProps(`category:${category.value}`)}
+                              onClick={() => handleResultClick()}
+                              className={cn(
+                                'rounded-full border border-gray-200 px-3 py-1 text-xs text-gray-700 hover:border-black',
+                                activeOption?.key === `category:${category.value}` && 'border-black'
+                              )}
+                            >
+                              {category.label} ({category.count})
+                            </Link>
+                          ))}
+                        </div>
+                      )}
                       <p className="text-xs text-gray-500 mb-3">
-                        {results.length} product{results.length !== 1 ? 's' : ''} found
+                        {response?.total ?? results.length} product{(response?.total ?? results.length) !== 1 ? 's' : ''} found
+                        {response?.didYouMean && <> for &quot;{response.didYouMean}&quot;</>}
                       </p>
                       <div className="space-y-2">
                         {results.map((product) => (
                           <Link
                             key={product.id}
                             href={`/product/${product.slug}`}
-                            onClick={handleResultClick}
-                            className="flex items-center gap-4 p-2 rounded-lg hover:bg-gray-50 transition-colors"
+                            tabIndex={-1}
+                            {...optionProps(`product:${product.id}`)}
+                            onClick={() => handleResultClick(product.id)}
+                            className={cn(
+                              'flex items-center gap-4 p-2 rounded-lg hover:bg-gray-50 transition-colors',
+                              optionClass(`product:${product.id}`)
+                            )}
                           >
                             {/* Product Image */}
                             <div className="relative h-16 w-16 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
@@ -267,8 +507,13 @@ export function Search({ isOpen, onClose }: SearchProps) {
                       {/* View All Results Link */}
                       <button
                         type="button"
+                        tabIndex={-1}
+                        {...optionProps('all')}
                         onClick={handleSubmit}
-                        className="mt-4 w-full py-2 text-center text-sm font-medium text-black hover:underline"
+                        className={cn(
+                          'mt-4 w-full py-2 text-center text-sm font-medium text-black hover:underline',
+                          activeOption?.key === 'all' && 'underline'
+                        )}
                       >
                         View all results for &quot;{query}&quot;
                       </button>
@@ -291,9 +536,28 @@ export function Search({ isOpen, onClose }: SearchProps) {
                       <p className="mt-2 text-sm text-gray-500">
                         No products found for &quot;{query}&quot;
                       </p>
-                      <p className="mt-1 text-xs text-gray-400">
-                        Try a different search term
-                      </p>
+                      {response?.didYouMean ? (
+                        <p className="mt-1 text-xs text-gray-400">
+                          Did you mean{' '}
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            {...optionProps('did-you-mean')}
+                            onClick={() => handleSuggestionClick(response.didYouMean!)}
+                            className={cn(
+                              'font-medium text-black underline underline-offset-2',
+                              activeOption?.key === 'did-you-mean' && 'bg-gray-100'
+                            )}
+                          >
+                            {response.didYouMean}
+                          </button>
+                          ?
+                        </p>
+                      ) : (
+                        <p className="mt-1 text-xs text-gray-400">
+                          Try a different search term
+                        </p>
+                      )}
                     </div>
                   )}
                 </motion.div>
@@ -5,6 +5,10 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import type { WCProduct } from '@/types/woocommerce';
 import { formatPrice, calculateDiscount, getProductUrl } from '@/lib/utils';
+import { StarRating } from '@/components/ui/star-rating';
+import { useUIStore } from '@/stores/ui-store';
+import { WishlistButton } from './wishlist-button';
+import { QUICK_VIEW_MODAL } from './quick-view';
 
 interface ProductCardProps {
   product: WCProduct;
@@ -12,6 +16,7 @@ interface ProductCardProps {
 }
 
 export function ProductCard({ product, priority = false }: ProductCardProps) {
+  const openModal = useUIStore((state) => state.openModal);
   const mainImage = product.images[0];
   const hoverImage = product.images[1];
   const hasDiscount = product.on_sale && product.regular_price && product.sale_price;
@@ -81,6 +86,8 @@ export function ProductCard({ product, priority = false }: ProductCardProps) {
             )}
           </div>
 
+          <WishlistButton product={product} className="absolute right-2 top-2 z-10" />
+
           {/* Out of Stock Overlay */}
           {product.stock_status === 'outofstock' && (
             <div className="absolute inset-0 flex items-center justify-center bg-white/80">
@@ -88,18 +95,17 @@ export function ProductCard({ product, priority = false }: ProductCardProps) {
             </div>
           )}
 
-          {/* Quick Add Button - Hidden on mobile */}
-          <div className="absolute bottom-0 left-0 right-0 translate-y-full opacity-0 transition-all duration-300 group-hover:translate-y-0 group-hover:opacity-100 hidden md:block">
+          {/* Quick View Button - Hidden on mobile */}
+          <div className="absolute bottom-0 left-0 right-0 translate-y-full opacity-0 transition-all duration-300 group-hover:translate-y-0 group-hover:opacity-100 focus-within:translate-y-0 focus-within:opacity-100 hidden md:block">
             <button
               type="button"
               className="w-full bg-black py-3 text-sm font-medium text-white hover:bg-gray-800"
               onClick={(e) => {
                 e.preventDefault();
-                // Navigate to product page for variant selection
-                window.location.href = getProductUrl(product.slug);
+                openModal(QUICK_VIEW_MODAL, { productId: product.id });
               }}
             >
-              {product.type === 'variable' ? 'Select Options' : 'Quick Add'}
+              {product.type === 'variable' ? 'Select Options' : 'Quick View'}
             </button>
           </div>
         </div>
@@ -117,6 +123,14 @@ export function ProductCard({ product, priority = false }: ProductCardProps) {
             </p>
           )}
 
+          {/* Rating */}
+          {product.rating_count > 0 && (
+            <div className="flex items-center gap-1">
+              <StarRating rating={parseFloat(product.average_rating)} />
+              <span className="text-xs text-gray-500">({product.rating_count})</span>
+            </div>
+          )}
+
           {/* Price */}
           <div className="flex items-center gap-2">
             {product.on_sale ? (
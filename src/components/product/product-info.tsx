@@ -5,8 +5,10 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import type { WCProduct, WCProductVariation } from '@/types/woocommerce';
 import { useCartStore } from '@/stores/cart-store';
+import { useWishlistStore, useIsInWishlist } from '@/stores/wishlist-store';
 import { formatPrice, getStockStatusLabel, getStockStatusColor, stripHtml } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { StarRating } from '@/components/ui/star-rating';
 import { cn } from '@/lib/utils';
 
 interface ProductInfoProps {
@@ -16,9 +18,12 @@ interface ProductInfoProps {
 
 export function ProductInfo({ product, variations }: ProductInfoProps) {
   const { addItem } = useCartStore();
+  const toggleWishlist = useWishlistStore((state) => state.toggleItem);
+  const isInWishlist = useIsInWishlist(product.id);
   const [selectedAttributes, setSelectedAttributes] = useState<Record<string, string>>({});
   const [quantity, setQuantity] = useState(1);
   const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
 
   const isVariable = product.type === 'variable';
 
@@ -57,24 +62,21 @@ export function ProductInfo({ product, variations }: ProductInfoProps) {
     if (!canAddToCart) return;
 
     setIsAdding(true);
+    setAddError(null);
 
-    // Simulate a small delay for better UX
-    await new Promise((resolve) => setTimeout(resolve, 300));
-
-    addItem({
-      productId: product.id,
-      variationId: selectedVariation?.id,
-      name: product.name,
-      slug: product.slug,
-      price: parseFloat(currentPrice),
-      regularPrice: currentRegularPrice ? parseFloat(currentRegularPrice) : undefined,
-      quantity,
-      image: selectedVariation?.image?.src || product.images[0]?.src || '',
-      attributes: isVariable ? selectedAttributes : undefined,
-      maxQuantity: stockQuantity || undefined,
-    });
-
-    setIsAdding(false);
+    // Price and stock are re-checked by the server cart
+    try {
+      await addItem({
+        productId: product.id,
+        variationId: selectedVariation?.id,
+        quantity,
+        attributes: isVariable ? selectedAttributes : undefined,
+      });
+    } catch (err) {
+      setAddError(err instanceof Error ? err.message : 'Failed to add to bag');
+    } finally {
+      setIsAdding(false);
+    }
   };
 
   return (
@@ -95,6 +97,14 @@ export function ProductInfo({ product, variations }: ProductInfoProps) {
       {/* Product Name */}
       <h1 className="text-2xl font-medium lg:text-3xl">{product.name}</h1>
 
+      {/* Rating */}
+      {product.rating_count > 0 && (
+        <a href="#reviews" className="mt-2 flex items-center gap-2 text-sm text-gray-500 hover:text-black">
+          <StarRating rating={parseFloat(product.average_rating)} />
+          {product.rating_count} review{product.rating_count === 1 ? '' : 's'}
+        </a>
+      )}
+
       {/* Price */}
       <div className="mt-4 flex items-center gap-3">
         {isOnSale && currentSalePrice ? (
@@ -248,11 +258,15 @@ export function ProductInfo({ product, variations }: ProductInfoProps) {
             : 'Add to Bag'}
         </Button>
 
+        {addError && (
+          <p className="text-sm text-red-600">{addError}</p>
+        )}
+
         {/* Wishlist Button */}
-        <Button variant="outline" className="w-full" size="lg">
+        <Button variant="outline" className="w-full" size="lg" onClick={() => toggleWishlist(product)}>
           <svg
             className="mr-2 h-5 w-5"
-            fill="none"
+            fill={isInWishlist ? 'currentColor' : 'none'}
             viewBox="0 0 24 24"
             strokeWidth="1.5"
             stroke="currentColor"
@@ -263,7 +277,7 @@ export function ProductInfo({ product, variations }: ProductInfoProps) {
               d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z"
             />
           </svg>
-          Add to Wishlist
+          {isInWishlist ? 'Saved to Wishlist' : 'Add to Wishlist'}
         </Button>
       </div>
 
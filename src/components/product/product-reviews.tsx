@@ -0,0 +1,76 @@
+import { getReviewsPage, getReviewSettings } from '@/lib/reviews';
+import { StarRating } from '@/components/ui/star-rating';
+import { ReviewList } from './review-list';
+import { ReviewForm } from './review-form';
+import type { WCProduct } from '@/types/woocommerce';
+
+interface ProductReviewsProps {
+  product: WCProduct;
+}
+
+/**
+ * Rating summary, reviews and the review form for the product page
+ */
+export async function ProductReviews({ product }: ProductReviewsProps) {
+  const [reviewSettings, firstPage] = await Promise.all([
+    getReviewSettings(),
+    getReviewsPage(product.id),
+  ]);
+
+  if (!reviewSettings.enabled || (!product.reviews_allowed && firstPage.summary.count === 0)) {
+    return null;
+  }
+
+  const { summary } = firstPage;
+
+  return (
+    <section id="reviews" className="mt-16 border-t pt-16">
+      <h2 className="mb-8 text-2xl font-light">Customer Reviews</h2>
+
+      <div className="lg:grid lg:grid-cols-3 lg:gap-12">
+        <div className="space-y-8">
+          {/* Rating Summary */}
+          {summary.count > 0 && (
+            <div>
+              <div className="flex items-center gap-3">
+                <span className="text-4xl font-light">{summary.average.toFixed(1)}</span>
+                <div>
+                  <StarRating rating={summary.average} size="md" />
+                  <p className="mt-1 text-sm text-gray-500">
+                    Based on {summary.count} review{summary.count === 1 ? '' : 's'}
+                  </p>
+                </div>
+              </div>
+
+              <dl className="mt-6 space-y-2">
+                {([5, 4, 3, 2, 1] as const).map((stars) => {
+                  const count = summary.histogram[stars];
+                  return (
+                    <div key={stars} className="flex items-center gap-3 text-sm">
+                      <dt className="w-12 text-gray-500">{stars} star</dt>
+                      <dd className="flex flex-1 items-center gap-3">
+                        <span className="h-2 flex-1 bg-gray-100">
+                          <span
+                            className="block h-full bg-black"
+                            style={{ width: `${(count / summary.count) * 100}%` }}
+                          />
+                        </span>
+                        <span className="w-8 text-right text-gray-500">{count}</span>
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            </div>
+          )}
+
+          {product.reviews_allowed && <ReviewForm productId={product.id} productSlug={product.slug} />}
+        </div>
+
+        <div className="mt-12 lg:col-span-2 lg:mt-0">
+          <ReviewList productId={product.id} initialPage={firstPage} />
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { usePathname } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore, useActiveModal, useModalData } from '@/stores/ui-store';
+import { useCartIsOpen } from '@/stores/cart-store';
+import { ProductGallery } from './product-gallery';
+import { ProductInfo } from './product-info';
+import type { WCProduct, WCProductVariation } from '@/types/woocommerce';
+
+export const QUICK_VIEW_MODAL = 'quick-view';
+
+// Query parameter that opens the quick view on page load, e.g. /shop?quickview=42
+export const QUICK_VIEW_PARAM = 'quickview';
+
+interface QuickViewData {
+  product: WCProduct;
+  variations: WCProductVariation[];
+}
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keep Tab focus inside the dialog while it is open, and hand focus back to
+ * whatever opened it afterwards
+ */
+function useFocusTrap(ref: RefObject<HTMLElement | null>, active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+
+    const opener = document.activeElement as HTMLElement | null;
+    ref.current?.focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab' || !ref.current) return;
+
+      const focusable = Array.from(ref.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === ref.current)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      opener?.focus();
+    };
+  }, [ref, active]);
+}
+
+/**
+ * Rewrite the quick view parameter without adding a history entry
+ */
+function setQuickViewParam(productId: number | null) {
+  const url = new URL(window.location.href);
+  if (productId) {
+    url.searchParams.set(QUICK_VIEW_PARAM, String(productId));
+  } else {
+    url.searchParams.delete(QUICK_VIEW_PARAM);
+  }
+  window.history.replaceState(window.history.state, '', url);
+}
+
+/**
+ * Product gallery, options and add to bag in a dialog, opened with
+ * openModal(QUICK_VIEW_MODAL, { productId }) or the ?quickview= parameter
+ */
+export function QuickView() {
+  const activeModal = useActiveModal();
+  const modalData = useModalData();
+  const { openModal, closeModal } = useUIStore();
+  const isCartOpen = useCartIsOpen();
+  const pathname = usePathname();
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const productId = activeModal === QUICK_VIEW_MODAL ? Number(modalData?.productId) || null : null;
+  const [data, setData] = useState<QuickViewData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusTrap(dialogRef, Boolean(productId));
+
+  // Open a shared link's quick view, once the page has loaded
+  useEffect(() => {
+    const linked = parseInt(new URLSearchParams(window.location.search).get(QUICK_VIEW_PARAM) || '', 10);
+    if (!isNaN(linked)) openModal(QUICK_VIEW_MODAL, { productId: linked });
+  }, [openModal]);
+
+  // Keep the URL shareable while the dialog is open
+  useEffect(() => {
+    if (productId) {
+      setQuickViewParam(productId);
+      return () => setQuickViewParam(null);
+    }
+  }, [productId]);
+
+  // Following a link out of the dialog closes it
+  const openedOn = useRef(pathname);
+  useEffect(() => {
+    if (pathname !== openedOn.current) {
+      openedOn.current = pathname;
+      closeModal();
+    }
+  }, [pathname, closeModal]);
+
+  useEffect(() => {
+    if (!productId) return;
+
+    let cancelled = false;
+    fetch(`/api/products/${productId}`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.message || 'Failed to load product');
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load product');
+      });
+
+    return () => {
+      cancelled = true;
+      setData(null);
+      setError(null);
+    };
+  }, [productId]);
+
+  // Adding to the bag opens the cart drawer, which takes over from the dialog
+  useEffect(() => {
+    if (productId && isCartOpen) closeModal();
+  }, [productId, isCartOpen, closeModal]);
+
+  useEffect(() => {
+    if (!productId) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeModal();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [productId, closeModal]);
+
+  const product = data?.product.id === productId ? data.product : null;
+
+  return (
+    <AnimatePresence>
+      {productId && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={closeModal}
+            className="fixed inset-0 z-50 bg-black/20"
+          />
+
+          {/* Dialog */}
+          <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              ref={dialogRef}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              transition={{ duration: 0.2 }}
+              role="dialog"
+              aria-modal="true"
+              aria-label={product ? product.name : 'Quick view'}
+              tabIndex={-1}
+              className="pointer-events-auto relative max-h-full w-full max-w-4xl overflow-y-auto bg-white p-6 shadow-xl focus:outline-none"
+            >
+              <button
+                type="button"
+                onClick={closeModal}
+                className="absolute right-4 top-4 z-10 p-2 hover:bg-gray-100"
+                aria-label="Close quick view"
+              >
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+
+              {error ? (
+                <p className="py-12 text-center text-sm text-red-600">{error}</p>
+              ) : !product ? (
+                <div className="grid animate-pulse gap-8 md:grid-cols-2">
+                  <div className="aspect-[3/4] bg-gray-200" />
+                  <div className="space-y-4">
+                    <div className="h-8 w-3/4 bg-gray-200" />
+                    <div className="h-6 w-1/4 bg-gray-200" />
+                    <div className="h-32 bg-gray-200" />
+                  </div>
+                </div>
+              ) : (
+                <div key={product.id} className="grid gap-8 md:grid-cols-2">
+                  <ProductGallery images={product.images} productName={product.name} />
+                  <ProductInfo product={product} variations={data?.variations || []} />
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
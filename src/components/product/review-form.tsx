@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ReviewPermissions } from '@/types/review';
+
+interface ReviewFormProps {
+  productId: number;
+  productSlug: string;
+}
+
+const reviewSchema = z.object({
+  rating: z.number().int().min(1, 'Please choose a rating').max(5),
+  review: z
+    .string()
+    .trim()
+    .min(10, 'Please write at least 10 characters')
+    .max(5000, 'Reviews can be up to 5000 characters'),
+});
+
+type ReviewFormData = z.infer<typeof reviewSchema>;
+
+const blockedMessages: Record<NonNullable<ReviewPermissions['reason']>, string> = {
+  sign_in_required: 'Sign in to write a review.',
+  verified_owner_required: 'Only customers who have bought this product can review it.',
+  already_reviewed: 'Thanks, you have already reviewed this product.',
+};
+
+/**
+ * Review form for signed-in customers who are allowed to review the product
+ */
+export function ReviewForm({ productId, productSlug }: ReviewFormProps) {
+  const [permissions, setPermissions] = useState<ReviewPermissions | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<{ approved: boolean } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: { rating: 0, review: '' },
+  });
+  const rating = watch('rating');
+
+  useEffect(() => {
+    // Signed-out visitors get a 401 from the session guard
+    fetch(`/api/products/${productId}/reviews/eligibility`)
+      .then(async (response) => {
+        if (response.status === 401) {
+          return { enabled: true, canReview: false, reason: 'sign_in_required', verifiedOwner: false } as const;
+        }
+        return response.ok ? response.json() : null;
+      })
+      .then(setPermissions)
+      .catch(() => setPermissions(null));
+  }, [productId]);
+
+  const onSubmit = async (data: ReviewFormData) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/products/${productId}/reviews`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to submit review');
+      }
+
+      setSubmitted({ approved: result.status === 'approved' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!permissions?.enabled) return null;
+
+  if (submitted) {
+    return (
+      <div className="bg-gray-50 p-6 text-sm">
+        <p className="font-medium">Thank you for your review!</p>
+        <p className="mt-1 text-gray-500">
+          {submitted.approved
+            ? 'It will appear on this page shortly.'
+            : 'It will appear once it has been approved.'}
+        </p>
+      </div>
+    );
+  }
+
+  if (!permissions.canReview) {
+    return (
+      <div className="bg-gray-50 p-6 text-sm text-gray-600">
+        {permissions.reason === 'sign_in_required' ? (
+          <>
+            <Link
+              href={`/account/login?redirect=/product/${productSlug}`}
+              className="font-medium text-black hover:underline"
+            >
+              Sign in
+            </Link>{' '}
+            to write a review.
+          </>
+        ) : (
+          permissions.reason && blockedMessages[permissions.reason]
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <h3 className="font-medium">Write a review</h3>
+
+      <div>
+        <div className="flex gap-1" role="radiogroup" aria-label="Rating">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <button
+              key={star}
+              type="button"
+              role="radio"
+              aria-checked={rating === star}
+              aria-label={`${star} star${star > 1 ? 's' : ''}`}
+              onClick={() => setValue('rating', star, { shouldValidate: true })}
+            >
+              <svg
+                className={cn('h-6 w-6', star <= rating ? 'text-black' : 'text-gray-300')}
+                viewBox="0 0 24 24"
+                fill="currentColor"
+              >
+                <path d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z" />
+              </svg>
+            </button>
+          ))}
+        </div>
+        {errors.rating && <p className="mt-1.5 text-sm text-red-500">{errors.rating.message}</p>}
+      </div>
+
+      <div>
+        <textarea
+          {...register('review')}
+          rows={4}
+          className="w-full border border-gray-300 px-4 py-3 text-sm focus:border-black focus:outline-none"
+          placeholder="What did you like or dislike?"
+        />
+        {errors.review && <p className="mt-1.5 text-sm text-red-500">{errors.review.message}</p>}
+      </div>
+
+      {permissions.verifiedOwner && (
+        <p className="text-xs text-gray-500">Your review will show a verified buyer badge.</p>
+      )}
+
+      {error && (
+        <div className="rounded bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Submitting...' : 'Submit Review'}
+      </Button>
+    </form>
+  );
+}
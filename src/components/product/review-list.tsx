@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { StarRating } from '@/components/ui/star-rating';
+import { formatDate } from '@/lib/utils';
+import type { ReviewSort, ReviewsPage } from '@/types/review';
+
+interface ReviewListProps {
+  productId: number;
+  initialPage: ReviewsPage;
+}
+
+const sortOptions: Array<{ value: ReviewSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+];
+
+/**
+ * Sortable, paginated list of a product's reviews
+ * The first page is rendered on the server; later pages come from the reviews route.
+ */
+export function ReviewList({ productId, initialPage }: ReviewListProps) {
+  const [current, setCurrent] = useState(initialPage);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = async (page: number, sort: ReviewSort) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/products/${productId}/reviews?page=${page}&sort=${sort}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load reviews');
+      }
+
+      setCurrent(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (current.summary.count === 0 && current.reviews.length === 0) {
+    return <p className="text-sm text-gray-500">No reviews yet. Be the first to share your thoughts.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between border-b pb-4">
+        <p className="text-sm text-gray-500">
+          Page {current.page} of {current.totalPages}
+        </p>
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-gray-500">Sort by</span>
+          <select
+            value={current.sort}
+            onChange={(e) => loadPage(1, e.target.value as ReviewSort)}
+            className="border border-gray-300 px-3 py-2 text-sm focus:border-black focus:outline-none"
+            disabled={isLoading}
+          >
+            {sortOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      <ul className={`divide-y transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+        {current.reviews.map((review) => (
+          <li key={review.id} className="py-6">
+            <div className="flex flex-wrap items-center gap-3">
+              {review.rating > 0 && <StarRating rating={review.rating} />}
+              <span className="text-sm font-medium">{review.reviewer}</span>
+              {review.verified && (
+                <span className="bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
+                  Verified buyer
+                </span>
+              )}
+              <span className="text-sm text-gray-400">{formatDate(review.date)}</span>
+            </div>
+            <p className="mt-3 whitespace-pre-line text-sm text-gray-700">{review.review}</p>
+          </li>
+        ))}
+      </ul>
+
+      {current.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 border-t pt-6">
+          <button
+            type="button"
+            onClick={() => loadPage(current.page - 1, current.sort)}
+            disabled={isLoading || current.page <= 1}
+            className="flex h-10 items-center border border-gray-300 px-4 text-sm hover:border-black disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => loadPage(current.page + 1, current.sort)}
+            disabled={isLoading || current.page >= current.totalPages}
+            className="flex h-10 items-center border border-gray-300 px-4 text-sm hover:border-black disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
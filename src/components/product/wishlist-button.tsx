@@ -0,0 +1,49 @@
+'use client';
+
+import type { WCProduct } from '@/types/woocommerce';
+import { useWishlistStore, useIsInWishlist } from '@/stores/wishlist-store';
+import { cn } from '@/lib/utils';
+
+interface WishlistButtonProps {
+  product: WCProduct;
+  className?: string;
+}
+
+/**
+ * Heart icon that saves or removes a product from the wishlist
+ */
+export function WishlistButton({ product, className }: WishlistButtonProps) {
+  const toggleItem = useWishlistStore((state) => state.toggleItem);
+  const saved = useIsInWishlist(product.id);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // The button sits inside the product card link
+        e.preventDefault();
+        e.stopPropagation();
+        toggleItem(product);
+      }}
+      className={cn(
+        'flex h-9 w-9 items-center justify-center rounded-full bg-white/90 transition-colors hover:bg-white',
+        className
+      )}
+      aria-label={saved ? 'Remove from wishlist' : 'Add to wishlist'}
+      aria-pressed={saved}
+    >
+      <svg
+        className={cn('h-5 w-5', saved ? 'fill-black' : 'fill-none')}
+        viewBox="0 0 24 24"
+        strokeWidth="1.5"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z"
+        />
+      </svg>
+    </button>
+  );
+}
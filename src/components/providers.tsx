@@ -1,6 +1,9 @@
 'use client';
 
 import { ReactNode, useEffect, useState } from 'react';
+import { useCartStore } from '@/stores/cart-store';
+import { useUser } from '@/stores/auth-store';
+import { useWishlistStore } from '@/stores/wishlist-store';
 
 interface ProvidersProps {
   children: ReactNode;
@@ -9,11 +12,29 @@ interface ProvidersProps {
 export function Providers({ children }: ProvidersProps) {
   // Prevent hydration mismatch for Zustand stores that use localStorage
   const [isHydrated, setIsHydrated] = useState(false);
+  const user = useUser();
 
   useEffect(() => {
     setIsHydrated(true);
   }, []);
 
+  // Refresh the cached cart from the server-side cart session
+  useEffect(() => {
+    useCartStore.getState().fetchCart();
+  }, []);
+
+  // Follow the signed-in account's wishlist; drop it again on sign-out
+  const userId = user?.id;
+  useEffect(() => {
+    const { accountId, syncAccount, reset } = useWishlistStore.getState();
+
+    if (userId) {
+      syncAccount(userId);
+    } else if (accountId !== null) {
+      reset();
+    }
+  }, [userId]);
+
   if (!isHydrated) {
     // Return children without client-side store data to prevent hydration mismatch
     return <>{children}</>;
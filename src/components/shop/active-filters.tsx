@@ -0,0 +1,86 @@
+'use client';
+
+import { formatPrice } from '@/lib/utils';
+import { useFilterParams } from './use-filter-params';
+import type { FilterAttribute } from '@/types/filters';
+
+interface ActiveFiltersProps {
+  attributes: FilterAttribute[];
+}
+
+interface Chip {
+  key: string;
+  label: string;
+  changes: Record<string, string | null>; // Params to set when the chip is removed
+}
+
+export function ActiveFilters({ attributes }: ActiveFiltersProps) {
+  const { searchParams, setParams } = useFilterParams();
+  const chips: Chip[] = [];
+
+  attributes.forEach((attribute) => {
+    const selected = (searchParams.get(attribute.param) || '').split(',').filter(Boolean);
+    selected.forEach((slug) => {
+      const term = attribute.terms.find((t) => t.slug === slug);
+      const remaining = selected.filter((s) => s !== slug).join(',');
+      chips.push({
+        key: `${attribute.param}-${slug}`,
+        label: `${attribute.name}: ${term?.name || slug}`,
+        changes: { [attribute.param]: remaining || null },
+      });
+    });
+  });
+
+  const minPrice = searchParams.get('min_price');
+  const maxPrice = searchParams.get('max_price');
+  if (minPrice || maxPrice) {
+    chips.push({
+      key: 'price',
+      label: minPrice && maxPrice
+        ? `${formatPrice(Number(minPrice))} – ${formatPrice(Number(maxPrice))}`
+        : minPrice
+        ? `From ${formatPrice(Number(minPrice))}`
+        : `Up to ${formatPrice(Number(maxPrice))}`,
+      changes: { min_price: null, max_price: null },
+    });
+  }
+
+  if (searchParams.get('stock_status') === 'instock') {
+    chips.push({ key: 'stock', label: 'In stock', changes: { stock_status: null } });
+  }
+
+  if (searchParams.get('on_sale') === 'true') {
+    chips.push({ key: 'sale', label: 'On sale', changes: { on_sale: null } });
+  }
+
+  if (chips.length === 0) return null;
+
+  const clearAll = () =>
+    setParams(chips.reduce((changes, chip) => ({ ...changes, ...chip.changes }), {}));
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      {chips.map((chip) => (
+        <button
+          key={chip.key}
+          type="button"
+          onClick={() => setParams(chip.changes)}
+          className="flex items-center gap-2 border border-gray-300 px-3 py-1.5 text-sm hover:border-black"
+          aria-label={`Remove filter ${chip.label}`}
+        >
+          {chip.label}
+          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={clearAll}
+        className="text-sm text-gray-500 underline hover:text-black"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+}
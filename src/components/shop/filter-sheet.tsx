@@ -0,0 +1,77 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { useUIStore, useIsFilterOpen } from '@/stores/ui-store';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Button that opens the mobile filter sheet
+ */
+export function FilterButton() {
+  const openFilter = useUIStore((state) => state.openFilter);
+
+  return (
+    <button type="button" onClick={openFilter} className="flex items-center gap-2 text-sm">
+      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
+      </svg>
+      Filters
+    </button>
+  );
+}
+
+/**
+ * Slide-in filter panel for small screens
+ */
+export function FilterSheet({ children }: { children: React.ReactNode }) {
+  const isOpen = useIsFilterOpen();
+  const closeFilter = useUIStore((state) => state.closeFilter);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={closeFilter}
+            className="fixed inset-0 z-50 bg-black/20 lg:hidden"
+          />
+
+          {/* Sheet */}
+          <motion.div
+            initial={{ x: '-100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '-100%' }}
+            transition={{ type: 'tween', duration: 0.3 }}
+            className="fixed inset-y-0 left-0 z-50 flex w-full max-w-sm flex-col bg-white shadow-xl lg:hidden"
+          >
+            <div className="flex items-center justify-between border-b px-4 py-4">
+              <h2 className="text-lg font-medium">Filters</h2>
+              <button
+                type="button"
+                onClick={closeFilter}
+                className="p-2 hover:bg-gray-100"
+                aria-label="Close filters"
+              >
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 py-6">{children}</div>
+
+            <div className="border-t px-4 py-4">
+              <Button className="w-full" onClick={closeFilter}>
+                Show Results
+              </Button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn, formatPrice } from '@/lib/utils';
+import { useFilterParams } from './use-filter-params';
+import type { FilterAttribute, PriceRange } from '@/types/filters';
+
+interface ProductFiltersProps {
+  attributes: FilterAttribute[];
+  priceRange: PriceRange;
+}
+
+interface PriceRangeSliderProps {
+  priceRange: PriceRange;
+  selectedMin: number;
+  selectedMax: number;
+}
+
+/**
+ * Dual-thumb price slider
+ * Keyed on the URL values by its parent, so it resets when they change elsewhere.
+ */
+function PriceRangeSlider({ priceRange, selectedMin, selectedMax }: PriceRangeSliderProps) {
+  const { setParams } = useFilterParams();
+  const [range, setRange] = useState({ min: selectedMin, max: selectedMax });
+
+  // Commit once the shopper stops dragging
+  useEffect(() => {
+    if (range.min === selectedMin && range.max === selectedMax) return;
+
+    const timeout = setTimeout(() => {
+      setParams({
+        min_price: range.min > priceRange.min ? String(range.min) : null,
+        max_price: range.max < priceRange.max ? String(range.max) : null,
+      });
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [range, selectedMin, selectedMax, priceRange, setParams]);
+
+  if (priceRange.max <= priceRange.min) return null;
+
+  const thumbClass =
+    'pointer-events-none absolute inset-x-0 top-0 h-1 w-full appearance-none bg-transparent ' +
+    '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 ' +
+    '[&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-black ' +
+    '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 ' +
+    '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:bg-black';
+
+  const span = priceRange.max - priceRange.min;
+
+  return (
+    <div>
+      <div className="relative mt-6 h-1 bg-gray-200">
+        <div
+          className="absolute h-1 bg-black"
+          style={{
+            left: `${((range.min - priceRange.min) / span) * 100}%`,
+            right: `${((priceRange.max - range.max) / span) * 100}%`,
+          }}
+        />
+        <input
+          type="range"
+          min={priceRange.min}
+          max={priceRange.max}
+          value={range.min}
+          onChange={(e) => setRange((r) => ({ ...r, min: Math.min(Number(e.target.value), r.max) }))}
+          aria-label="Minimum price"
+          className={thumbClass}
+        />
+        <input
+          type="range"
+          min={priceRange.min}
+          max={priceRange.max}
+          value={range.max}
+          onChange={(e) => setRange((r) => ({ ...r, max: Math.max(Number(e.target.value), r.min) }))}
+          aria-label="Maximum price"
+          className={thumbClass}
+        />
+      </div>
+      <div className="mt-4 flex justify-between text-sm text-gray-600">
+        <span>{formatPrice(range.min)}</span>
+        <span>{formatPrice(range.max)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function ProductFilters({ attributes, priceRange }: ProductFiltersProps) {
+  const { searchParams, setParams } = useFilterParams();
+  const selectedMin = Number(searchParams.get('min_price') || priceRange.min);
+  const selectedMax = Number(searchParams.get('max_price') || priceRange.max);
+
+  const toggleTerm = (attribute: FilterAttribute, slug: string) => {
+    const current = (searchParams.get(attribute.param) || '').split(',').filter(Boolean);
+    const next = current.includes(slug) ? current.filter((s) => s !== slug) : [...current, slug];
+    setParams({ [attribute.param]: next.join(',') || null });
+  };
+
+  return (
+    <div className="space-y-8">
+      {attributes.map((attribute) => {
+        const selected = (searchParams.get(attribute.param) || '').split(',');
+
+        return (
+          <div key={attribute.id}>
+            <h3 className="text-sm font-medium uppercase tracking-wider">{attribute.name}</h3>
+            <div className="mt-4 flex flex-wrap gap-2">
+              {attribute.terms.map((term) => {
+                const isSelected = selected.includes(term.slug);
+
+                return attribute.isColor ? (
+                  <button
+                    key={term.id}
+                    type="button"
+                    onClick={() => toggleTerm(attribute, term.slug)}
+                    title={term.name}
+                    aria-label={term.name}
+                    aria-pressed={isSelected}
+                    className={cn(
+                      'h-8 w-8 rounded-full border',
+                      isSelected ? 'ring-2 ring-black ring-offset-2' : 'border-gray-300 hover:border-black'
+                    )}
+                    style={{ backgroundColor: term.color }}
+                  />
+                ) : (
+                  <button
+                    key={term.id}
+                    type="button"
+                    onClick={() => toggleTerm(attribute, term.slug)}
+                    aria-pressed={isSelected}
+                    className={cn(
+                      'min-w-10 border px-3 py-2 text-sm transition-colors',
+                      isSelected ? 'border-black bg-black text-white' : 'border-gray-300 hover:border-black'
+                    )}
+                  >
+                    {term.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Price */}
+      <div>
+        <h3 className="text-sm font-medium uppercase tracking-wider">Price</h3>
+        <PriceRangeSlider
+          key={`${selectedMin}-${selectedMax}`}
+          priceRange={priceRange}
+          selectedMin={selectedMin}
+          selectedMax={selectedMax}
+        />
+      </div>
+
+      {/* Availability */}
+      <div>
+        <h3 className="text-sm font-medium uppercase tracking-wider">Availability</h3>
+        <div className="mt-4 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={searchParams.get('stock_status') === 'instock'}
+              onChange={(e) => setParams({ stock_status: e.target.checked ? 'instock' : null })}
+              className="h-4 w-4 border-gray-300 text-black focus:ring-black"
+            />
+            In stock only
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={searchParams.get('on_sale') === 'true'}
+              onChange={(e) => setParams({ on_sale: e.target.checked ? 'true' : null })}
+              className="h-4 w-4 border-gray-300 text-black focus:ring-black"
+            />
+            On sale
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
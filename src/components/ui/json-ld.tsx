@@ -0,0 +1,18 @@
+import type { JsonLdObject } from '@/lib/structured-data';
+
+interface JsonLdProps {
+  data: JsonLdObject | JsonLdObject[];
+}
+
+/**
+ * Render schema.org structured data in a JSON-LD script tag
+ * "<" is escaped so text from WooCommerce can't close the script early.
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
@@ -0,0 +1,109 @@
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+
+interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  basePath: string;
+  searchParams?: Record<string, string | undefined>; // Kept on every page link (sort, filters)
+  className?: string;
+}
+
+/**
+ * Page numbers to show: first, last and a window around the current page,
+ * with null marking a gap
+ */
+function getPageNumbers(current: number, total: number): Array<number | null> {
+  const pages: Array<number | null> = [];
+
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+
+  return pages;
+}
+
+export function Pagination({
+  currentPage,
+  totalPages,
+  basePath,
+  searchParams = {},
+  className,
+}: PaginationProps) {
+  if (totalPages <= 1) return null;
+
+  const getHref = (page: number) => {
+    const params = new URLSearchParams();
+    Object.entries(searchParams).forEach(([key, value]) => {
+      if (value && key !== 'page') params.set(key, value);
+    });
+    // Page 1 is the canonical URL
+    if (page > 1) params.set('page', String(page));
+
+    const query = params.toString();
+    return query ? `${basePath}?${query}` : basePath;
+  };
+
+  const hasPrev = currentPage > 1;
+  const hasNext = currentPage < totalPages;
+
+  const linkClass = 'flex h-10 min-w-10 items-center justify-center border px-3 text-sm transition-colors';
+
+  return (
+    <nav aria-label="Pagination" className={cn('flex items-center justify-center gap-2', className)}>
+      {/* Hoisted into <head> for crawlers */}
+      {hasPrev && <link rel="prev" href={getHref(currentPage - 1)} />}
+      {hasNext && <link rel="next" href={getHref(currentPage + 1)} />}
+
+      {hasPrev ? (
+        <Link
+          href={getHref(currentPage - 1)}
+          rel="prev"
+          className={cn(linkClass, 'border-gray-300 hover:border-black')}
+        >
+          Previous
+        </Link>
+      ) : (
+        <span className={cn(linkClass, 'cursor-not-allowed border-gray-200 text-gray-300')}>Previous</span>
+      )}
+
+      {getPageNumbers(currentPage, totalPages).map((page, index) =>
+        page === null ? (
+          <span key={`gap-${index}`} className="px-1 text-sm text-gray-400">
+            &hellip;
+          </span>
+        ) : (
+          <Link
+            key={page}
+            href={getHref(page)}
+            aria-current={page === currentPage ? 'page' : undefined}
+            className={cn(
+              linkClass,
+              page === currentPage
+                ? 'border-black bg-black text-white'
+                : 'border-gray-300 hover:border-black'
+            )}
+          >
+            {page}
+          </Link>
+        )
+      )}
+
+      {hasNext ? (
+        <Link
+          href={getHref(currentPage + 1)}
+          rel="next"
+          className={cn(linkClass, 'border-gray-300 hover:border-black')}
+        >
+          Next
+        </Link>
+      ) : (
+        <span className={cn(linkClass, 'cursor-not-allowed border-gray-200 text-gray-300')}>Next</span>
+      )}
+    </nav>
+  );
+}
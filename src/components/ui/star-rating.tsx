@@ -0,0 +1,43 @@
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  rating: number; // 0-5, fractions shown as partly filled stars
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const STAR_PATH =
+  'M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z';
+
+function Stars({ className }: { className: string }) {
+  return (
+    <span className="flex">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <svg key={star} className={className} viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d={STAR_PATH} />
+        </svg>
+      ))}
+    </span>
+  );
+}
+
+/**
+ * Five stars filled to the rating
+ */
+export function StarRating({ rating, size = 'sm', className }: StarRatingProps) {
+  const starClass = size === 'sm' ? 'h-3.5 w-3.5' : 'h-5 w-5';
+  const percent = Math.min(Math.max(rating / 5, 0), 1) * 100;
+
+  return (
+    <span
+      className={cn('relative inline-flex', className)}
+      role="img"
+      aria-label={`Rated ${rating.toFixed(1)} out of 5`}
+    >
+      <Stars className={cn(starClass, 'text-gray-200')} />
+      <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${percent}%` }}>
+        <Stars className={cn(starClass, 'flex-shrink-0 text-black')} />
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,160 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { customers } from '@/lib/woocommerce';
+import { AuthError } from '@/lib/auth';
+import { sendEmail } from '@/lib/email';
+import type { WCCustomer } from '@/types/woocommerce';
+
+export type AccountKeyPurpose = 'password_reset' | 'email_verification';
+
+// Keys are stored hashed in customer meta as "<expires ms>:<sha256>"
+const KEY_META: Record<AccountKeyPurpose, string> = {
+  password_reset: '_headless_password_reset_key',
+  email_verification: '_headless_email_verification_key',
+};
+
+const KEY_LIFETIME: Record<AccountKeyPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 72 * 60 * 60 * 1000,
+};
+
+/**
+ * Whether new accounts must confirm their email before signing in
+ */
+export function isEmailVerificationRequired(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a key and the customer meta entry that records it
+ */
+export function createAccountKey(purpose: AccountKeyPurpose): { key: string; meta: { key: string; value: string } } {
+  const key = randomBytes(24).toString('hex');
+  const expiresAt = Date.now() + KEY_LIFETIME[purpose];
+
+  return { key, meta: { key: KEY_META[purpose], value: `${expiresAt}:${hashKey(key)}` } };
+}
+
+function matchesKey(hash: string, key: string): boolean {
+  const expected = Buffer.from(hash);
+  const given = Buffer.from(hashKey(key));
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function getStoredKey(customer: WCCustomer, purpose: AccountKeyPurpose) {
+  const value = customer.meta_data?.find((meta) => meta.key === KEY_META[purpose])?.value;
+  if (!value) return null;
+
+  const [expiresAt, hash] = value.split(':');
+  return { expiresAt: Number(expiresAt), hash };
+}
+
+/**
+ * Check whether a customer still has to confirm their email address
+ */
+export function hasPendingVerification(customer: WCCustomer): boolean {
+  return getStoredKey(customer, 'email_verification') !== null;
+}
+
+/**
+ * Check a key from an emailed link against the customer's stored key
+ */
+function assertValidKey(customer: WCCustomer | null, purpose: AccountKeyPurpose, key: string): WCCustomer {
+  const stored = customer ? getStoredKey(customer, purpose) : null;
+
+  if (!customer || !stored?.hash || !key || !matchesKey(stored.hash, key)) {
+    throw new AuthError('This link is invalid or has already been used.', 'invalid_key', 400);
+  }
+
+  if (stored.expiresAt < Date.now()) {
+    throw new AuthError('This link has expired. Please request a new one.', 'expired_key', 400);
+  }
+
+  return customer;
+}
+
+async function clearAccountKeys(customer: WCCustomer, purposes: AccountKeyPurpose[]): Promise<void> {
+  await customers.update(customer.id, {
+    meta_data: purposes.map((purpose) => ({ key: KEY_META[purpose], value: '' })),
+  });
+}
+
+/**
+ * Email a storefront password reset link
+ * Unknown emails are ignored silently so accounts can't be enumerated.
+ */
+export async function sendPasswordReset(email: string, siteUrl: string): Promise<void> {
+  const customer = await customers.getByEmail(email);
+  if (!customer) return;
+
+  const { key, meta } = createAccountKey('password_reset');
+  await customers.update(customer.id, { meta_data: [meta] });
+
+  const link = `${siteUrl}/account/reset-password?key=${key}&login=${encodeURIComponent(customer.email)}`;
+
+  await sendEmail({
+    to: customer.email,
+    subject: 'Reset your password',
+    text: `Someone requested a password reset for your account.\n\nTo choose a new password, visit:\n${link}\n\nThis link expires in one hour. If you didn't ask for this, you can ignore this email.`,
+  });
+}
+
+/**
+ * Check a password reset link without using it up
+ */
+export async function checkPasswordResetKey(login: string, key: string): Promise<void> {
+  assertValidKey(await customers.getByEmail(login), 'password_reset', key);
+}
+
+/**
+ * Set a new password using a reset link
+ * Completing a reset also proves the email address, so any pending verification is cleared.
+ */
+export async function resetPassword(login: string, key: string, password: string): Promise<void> {
+  const customer = assertValidKey(await customers.getByEmail(login), 'password_reset', key);
+
+  await customers.update(customer.id, { password });
+  await clearAccountKeys(customer, ['password_reset', 'email_verification']);
+}
+
+/**
+ * Email a link confirming the customer's address
+ * Pass the key when it was already stored (e.g. when the customer was just created).
+ */
+export async function sendEmailVerification(customer: WCCustomer, siteUrl: string, key?: string): Promise<void> {
+  let verificationKey = key;
+
+  if (!verificationKey) {
+    const created = createAccountKey('email_verification');
+    await customers.update(customer.id, { meta_data: [created.meta] });
+    verificationKey = created.key;
+  }
+
+  const link = `${siteUrl}/account/verify-email?key=${verificationKey}&login=${encodeURIComponent(customer.email)}`;
+
+  await sendEmail({
+    to: customer.email,
+    subject: 'Confirm your email address',
+    text: `Welcome! Please confirm your email address to start using your account:\n${link}\n\nThis link expires in 72 hours.`,
+  });
+}
+
+/**
+ * Mark a customer's email as confirmed by other means (e.g. a social login)
+ */
+export async function markEmailVerified(customer: WCCustomer): Promise<void> {
+  if (hasPendingVerification(customer)) {
+    await clearAccountKeys(customer, ['email_verification']);
+  }
+}
+
+/**
+ * Confirm an email address using a verification link
+ */
+export async function verifyEmail(login: string, key: string): Promise<void> {
+  const customer = assertValidKey(await customers.getByEmail(login), 'email_verification', key);
+  await clearAccountKeys(customer, ['email_verification']);
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { customers } from '@/lib/woocommerce';
+import { getCurrentUser, AuthError, type AuthUser } from '@/lib/auth';
+import { getSessionToken } from '@/lib/session';
+import type { WCCustomer } from '@/types/woocommerce';
+
+export type AccountErrorCode = 'authentication_required' | 'invalid_session' | 'customer_not_found';
+
+export interface AccountErrorResponse {
+  message: string;
+  code: AccountErrorCode;
+}
+
+export interface AccountContext<Customer extends WCCustomer | null = WCCustomer> {
+  token: string;
+  user: AuthUser;
+  customer: Customer;
+}
+
+type AccountHandler<Customer extends WCCustomer | null, Context> = (
+  request: Request,
+  account: AccountContext<Customer>,
+  context: Context
+) => Promise<Response>;
+
+// Resolved accounts are reused briefly so each request doesn't repeat the upstream lookups
+const ACCOUNT_CACHE_TTL = 60 * 1000;
+
+const accountCache = new Map<string, { account: AccountContext<WCCustomer | null>; expiresAt: number }>();
+
+function accountError(message: string, code: AccountErrorCode, status: number) {
+  return NextResponse.json<AccountErrorResponse>({ message, code }, { status });
+}
+
+/**
+ * Resolve the WordPress user and WooCommerce customer for a session token
+ */
+async function resolveAccount(token: string): Promise<AccountContext<WCCustomer | null>> {
+  const cached = accountCache.get(token);
+  if (cached && cached.expiresAt > Date.now()) return cached.account;
+
+  const user = await getCurrentUser(token);
+  const customer = await customers.getByEmail(user.email);
+  const account = { token, user, customer };
+
+  accountCache.forEach((entry, key) => {
+    if (entry.expiresAt <= Date.now()) accountCache.delete(key);
+  });
+  accountCache.set(token, { account, expiresAt: Date.now() + ACCOUNT_CACHE_TTL });
+
+  return account;
+}
+
+/**
+ * Drop the cached account for a token, e.g. after the customer was updated
+ */
+export function forgetAccount(token: string): void {
+  accountCache.delete(token);
+}
+
+/**
+ * The signed-in account, or null for guests and expired sessions
+ * For routes that serve guests too but apply per-customer rules when signed in.
+ */
+export async function getSignedInAccount(): Promise<AccountContext<WCCustomer | null> | null> {
+  const token = await getSessionToken();
+  if (!token) return null;
+
+  try {
+    return await resolveAccount(token);
+  } catch (error) {
+    if (error instanceof AuthError && error.status < 500) return null;
+    throw error;
+  }
+}
+
+/**
+ * Wrap an account route handler with session and customer resolution
+ * Responds 401 without a valid session, and 404 when a customer is required
+ * but the user has no WooCommerce customer record.
+ */
+export function withCustomer<Context = unknown>(
+  handler: AccountHandler<WCCustomer, Context>,
+  options?: { requireCustomer?: true }
+): (request: Request, context: Context) => Promise<Response>;
+export function withCustomer<Context = unknown>(
+  handler: AccountHandler<WCCustomer | null, Context>,
+  options: { requireCustomer: false }
+): (request: Request, context: Context) => Promise<Response>;
+export function withCustomer<Context = unknown>(
+  handler: AccountHandler<WCCustomer, Context>,
+  options: { requireCustomer?: boolean } = {}
+) {
+  const { requireCustomer = true } = options;
+
+  return async (request: Request, context: Context): Promise<Response> => {
+    const token = await getSessionToken();
+    if (!token) {
+      return accountError('Authentication required', 'authentication_required', 401);
+    }
+
+    let account: AccountContext<WCCustomer | null>;
+    try {
+      account = await resolveAccount(token);
+    } catch (error) {
+      if (error instanceof AuthError && error.status < 500) {
+        return accountError('Invalid or expired session', 'invalid_session', 401);
+      }
+
+      console.error('Error resolving account:', error);
+      const message = error instanceof Error ? error.message : 'Failed to load account';
+      return NextResponse.json({ message }, { status: 500 });
+    }
+
+    if (requireCustomer && !account.customer) {
+      return accountError('Customer not found', 'customer_not_found', 404);
+    }
+
+    // Only null when the handler opted out of requiring a customer
+    return handler(request, account as AccountContext, context);
+  };
+}
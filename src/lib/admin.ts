@@ -0,0 +1,31 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+/**
+ * Check a request's bearer token against ADMIN_API_TOKEN
+ */
+function isAdminRequest(request: Request): boolean {
+  const secret = process.env.ADMIN_API_TOKEN;
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Wrap an admin route handler, responding 401 unless the request carries
+ * `Authorization: Bearer <ADMIN_API_TOKEN>`
+ * Without ADMIN_API_TOKEN set, admin routes are closed to everyone.
+ */
+export function withAdmin<Context = unknown>(
+  handler: (request: Request, context: Context) => Promise<Response>
+) {
+  return async (request: Request, context: Context): Promise<Response> => {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ message: 'Admin access required', code: 'admin_required' }, { status: 401 });
+    }
+    return handler(request, context);
+  };
+}
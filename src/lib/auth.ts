@@ -5,20 +5,30 @@ const WP_URL = process.env.NEXT_PUBLIC_WORDPRESS_URL;
 class AuthError extends Error {
   code: string;
   status: number;
+  retryAfter?: number; // Seconds until a throttled request may be retried
 
-  constructor(message: string, code: string, status: number = 401) {
+  constructor(message: string, code: string, status: number = 401, retryAfter?: number) {
     super(message);
     this.name = 'AuthError';
     this.code = code;
     this.status = status;
+    this.retryAfter = retryAfter;
   }
 }
 
+export interface AuthUser {
+  id: number;
+  email: string;
+  displayName: string;
+  firstName: string;
+  lastName: string;
+}
+
 /**
- * Login with username/email and password
- * Returns JWT token and user info
+ * Exchange a username/email and password for a JWT token
+ * Server-side only; the browser signs in through login().
  */
-export async function login(
+export async function requestToken(
   username: string,
   password: string
 ): Promise<JWTAuthResponse> {
@@ -70,16 +80,40 @@ export async function validateToken(token: string): Promise<boolean> {
   }
 }
 
+/**
+ * Exchange a still-valid JWT token for a fresh one
+ * Requires a JWT plugin that exposes the token/refresh endpoint (see JWT_REFRESH_ENABLED).
+ */
+export async function refreshToken(token: string): Promise<JWTAuthResponse> {
+  if (!WP_URL) {
+    throw new AuthError('WordPress URL is not configured', 'config_error', 500);
+  }
+
+  const response = await fetch(`${WP_URL}/wp-json/jwt-auth/v1/token/refresh`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    const errorData = data as JWTErrorResponse;
+    throw new AuthError(
+      errorData.message || 'Failed to refresh token',
+      errorData.code || 'refresh_error',
+      response.status
+    );
+  }
+
+  return data as JWTAuthResponse;
+}
+
 /**
  * Get user info from WordPress using JWT token
  */
-export async function getCurrentUser(token: string): Promise<{
-  id: number;
-  email: string;
-  displayName: string;
-  firstName: string;
-  lastName: string;
-}> {
+export async function getCurrentUser(token: string): Promise<AuthUser> {
   if (!WP_URL) {
     throw new AuthError('WordPress URL is not configured', 'config_error', 500);
   }
@@ -105,6 +139,40 @@ export async function getCurrentUser(token: string): Promise<{
   };
 }
 
+/**
+ * Login with username/email and password
+ * The server keeps the token in an HttpOnly session cookie and returns the user.
+ */
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new AuthError(
+      data.message || 'Login failed',
+      data.code || 'auth_error',
+      response.status,
+      data.retryAfter
+    );
+  }
+
+  return data.user;
+}
+
+/**
+ * End the cookie session and revoke its token
+ */
+export async function endSession(): Promise<void> {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+}
+
 /**
  * Register a new user
  * Note: This requires the WooCommerce REST API
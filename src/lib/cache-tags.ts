@@ -0,0 +1,18 @@
+// Cache tags on WooCommerce and WPGraphQL fetches, so /api/revalidate can
+// refresh exactly what a change affects instead of waiting out revalidate windows
+
+export const cacheTags = {
+  /** Every product listing (shop, categories, related products, price range) */
+  products: 'products',
+  /** One product and its variations, by ID */
+  product: (id: number) => `product-${id}`,
+  /** A product slug's lookup of its ID (the product page) */
+  productSlug: (slug: string) => `product-slug-${slug}`,
+  productReviews: (id: number) => `product-reviews-${id}`,
+  categories: 'categories',
+  attributes: 'attributes',
+  menus: 'menus',
+  pages: 'pages',
+  page: (slug: string) => `page-${slug}`,
+  siteSettings: 'site-settings',
+};
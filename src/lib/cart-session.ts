@@ -0,0 +1,38 @@
+import { cookies } from 'next/headers';
+
+const CART_TOKEN_COOKIE = 'cart_token';
+
+// Store API cart sessions expire after 48 hours
+const CART_TOKEN_MAX_AGE = 60 * 60 * 48;
+
+/**
+ * Read the Store API cart token from the HttpOnly cart cookie
+ */
+export async function getCartToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(CART_TOKEN_COOKIE)?.value || null;
+}
+
+/**
+ * Persist the Store API cart token in an HttpOnly cookie
+ */
+export async function setCartToken(token: string | null): Promise<void> {
+  if (!token) return;
+
+  const cookieStore = await cookies();
+  cookieStore.set(CART_TOKEN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CART_TOKEN_MAX_AGE,
+  });
+}
+
+/**
+ * Forget the cart session (e.g. after an order has been placed)
+ */
+export async function clearCartToken(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(CART_TOKEN_COOKIE);
+}
@@ -0,0 +1,194 @@
+import { coupons } from '@/lib/woocommerce';
+import { getLinesSubtotal, type PricedLine } from '@/lib/pricing';
+import type { WCCoupon } from '@/types/woocommerce';
+
+export type CouponErrorCode =
+  | 'not_found'
+  | 'expired'
+  | 'usage_limit_reached'
+  | 'user_usage_limit_reached'
+  | 'minimum_spend'
+  | 'maximum_spend'
+  | 'email_restricted'
+  | 'not_applicable'
+  | 'sale_items'
+  | 'individual_use'
+  | 'already_applied';
+
+class CouponError extends Error {
+  code: CouponErrorCode;
+  status: number;
+
+  constructor(message: string, code: CouponErrorCode, status: number = 400) {
+    super(message);
+    this.name = 'CouponError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface CouponContext {
+  lines: PricedLine[];
+  email?: string;
+  customerId?: number;
+  applied?: WCCoupon[]; // Coupons already on the cart or order
+}
+
+/**
+ * Look up a coupon by code
+ */
+export async function findCoupon(code: string): Promise<WCCoupon> {
+  const coupon = await coupons.getByCode(code.trim());
+  if (!coupon) {
+    throw new CouponError(`Coupon "${code}" does not exist.`, 'not_found', 404);
+  }
+  return coupon;
+}
+
+/**
+ * Check whether a line's product passes the coupon's product and category rules
+ */
+function isLineEligible(coupon: WCCoupon, line: PricedLine): boolean {
+  if (coupon.exclude_sale_items && line.onSale) return false;
+  if (line.productIds.some((id) => coupon.excluded_product_ids.includes(id))) return false;
+  if (line.categoryIds.some((id) => coupon.excluded_product_categories.includes(id))) return false;
+
+  const productMatch =
+    coupon.product_ids.length === 0 || line.productIds.some((id) => coupon.product_ids.includes(id));
+  const categoryMatch =
+    coupon.product_categories.length === 0 ||
+    line.categoryIds.some((id) => coupon.product_categories.includes(id));
+
+  return productMatch && categoryMatch;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Calculate the discount a coupon gives for a set of lines
+ * Percent and fixed product coupons apply per eligible unit (capped by
+ * limit_usage_to_x_items); fixed cart coupons are capped at the eligible subtotal.
+ */
+export function calculateDiscount(coupon: WCCoupon, lines: PricedLine[]): number {
+  const amount = parseFloat(coupon.amount) || 0;
+  const eligible = lines.filter((line) => isLineEligible(coupon, line));
+
+  if (coupon.discount_type === 'fixed_cart') {
+    return roundAmount(Math.min(amount, getLinesSubtotal(eligible)));
+  }
+
+  // Most expensive units first, as WooCommerce does when limiting items
+  let remainingUnits = coupon.limit_usage_to_x_items || Infinity;
+  const sorted = [...eligible].sort((a, b) => b.price - a.price);
+
+  const discount = sorted.reduce((total, line) => {
+    const units = Math.min(line.quantity, remainingUnits);
+    remainingUnits -= units;
+
+    const perUnit =
+      coupon.discount_type === 'percent' ? (line.price * amount) / 100 : Math.min(amount, line.price);
+
+    return total + perUnit * units;
+  }, 0);
+
+  return roundAmount(discount);
+}
+
+/**
+ * Calculate the combined discount of the coupons on a cart or order
+ */
+export function calculateTotalDiscount(coupons: WCCoupon[], lines: PricedLine[]): number {
+  return roundAmount(coupons.reduce((total, coupon) => total + calculateDiscount(coupon, lines), 0));
+}
+
+/**
+ * Match an email against a restriction, which may contain * wildcards
+ */
+function matchesEmail(pattern: string, email: string): boolean {
+  const regex = new RegExp(
+    `^${pattern.toLowerCase().split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`
+  );
+  return regex.test(email.toLowerCase());
+}
+
+/**
+ * Validate a coupon against its rules
+ * Throws a CouponError describing the first rule that fails; amounts come
+ * from calculateDiscount.
+ */
+export function validateCoupon(coupon: WCCoupon, context: CouponContext): void {
+  const applied = context.applied || [];
+  const code = coupon.code.toUpperCase();
+
+  if (applied.some((c) => c.code.toLowerCase() === coupon.code.toLowerCase())) {
+    throw new CouponError(`Coupon "${code}" has already been applied.`, 'already_applied');
+  }
+
+  if (coupon.individual_use && applied.length > 0) {
+    throw new CouponError(`Coupon "${code}" cannot be used with other coupons.`, 'individual_use');
+  }
+
+  if (applied.some((c) => c.individual_use)) {
+    throw new CouponError(
+      `Coupon "${applied.find((c) => c.individual_use)!.code.toUpperCase()}" cannot be used with other coupons.`,
+      'individual_use'
+    );
+  }
+
+  if (coupon.date_expires_gmt && new Date(`${coupon.date_expires_gmt}Z`).getTime() < Date.now()) {
+    throw new CouponError(`Coupon "${code}" has expired.`, 'expired');
+  }
+
+  if (coupon.usage_limit && coupon.usage_count >= coupon.usage_limit) {
+    throw new CouponError(`Coupon "${code}" has reached its usage limit.`, 'usage_limit_reached');
+  }
+
+  if (coupon.usage_limit_per_user) {
+    const identities = [context.email?.toLowerCase(), context.customerId ? String(context.customerId) : undefined];
+    const uses = coupon.used_by.filter((user) => identities.includes(user.toLowerCase())).length;
+    if (uses >= coupon.usage_limit_per_user) {
+      throw new CouponError(
+        `You have already used coupon "${code}" the maximum number of times.`,
+        'user_usage_limit_reached'
+      );
+    }
+  }
+
+  // Email restrictions can only be checked once the billing email is known
+  if (coupon.email_restrictions.length > 0 && context.email) {
+    if (!coupon.email_restrictions.some((pattern) => matchesEmail(pattern, context.email!))) {
+      throw new CouponError(`Coupon "${code}" is not valid for your email address.`, 'email_restricted');
+    }
+  }
+
+  const subtotal = getLinesSubtotal(context.lines);
+  const minimum = parseFloat(coupon.minimum_amount) || 0;
+  const maximum = parseFloat(coupon.maximum_amount) || 0;
+
+  if (minimum > 0 && subtotal < minimum) {
+    throw new CouponError(
+      `The minimum spend for coupon "${code}" is ${minimum.toFixed(2)}.`,
+      'minimum_spend'
+    );
+  }
+
+  if (maximum > 0 && subtotal > maximum) {
+    throw new CouponError(
+      `The maximum spend for coupon "${code}" is ${maximum.toFixed(2)}.`,
+      'maximum_spend'
+    );
+  }
+
+  // Cart-wide coupons that exclude sale items can't be used alongside them
+  if (coupon.discount_type === 'fixed_cart' && coupon.exclude_sale_items && context.lines.some((line) => line.onSale)) {
+    throw new CouponError(`Coupon "${code}" is not valid for sale items.`, 'sale_items');
+  }
+
+  if (!context.lines.some((line) => isLineEligible(coupon, line))) {
+    throw new CouponError(`Coupon "${code}" does not apply to the items in your bag.`, 'not_applicable');
+  }
+}
+
+export { CouponError };
@@ -0,0 +1,40 @@
+import { products } from '@/lib/woocommerce';
+import type { WCProduct } from '@/types/woocommerce';
+
+/**
+ * Resolve a cart line's product, using the parent for variations
+ */
+async function getCartProduct(id: number): Promise<WCProduct | null> {
+  try {
+    const product = await products.get(id);
+    return product.parent_id ? await products.get(product.parent_id) : product;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cross-sells for everything in the cart, de-duplicated and in cart order
+ * Products already in the cart and ones that can't be bought are left out.
+ */
+export async function getCrossSells(cartProductIds: number[], limit: number = 4): Promise<WCProduct[]> {
+  const cartProducts = (await Promise.all(cartProductIds.map(getCartProduct))).filter(
+    (product): product is WCProduct => product !== null
+  );
+
+  const inCart = new Set([...cartProductIds, ...cartProducts.map((product) => product.id)]);
+  const ids = Array.from(new Set(cartProducts.flatMap((product) => product.cross_sell_ids || []))).filter(
+    (id) => !inCart.has(id)
+  );
+
+  if (ids.length === 0) return [];
+
+  // Fetch a few spare in case some are out of stock
+  const candidates = await products.list({ include: ids.slice(0, limit * 2), per_page: limit * 2, status: 'publish' });
+  const byId = new Map(candidates.map((product) => [product.id, product]));
+
+  return ids
+    .map((id) => byId.get(id))
+    .filter((product): product is WCProduct => Boolean(product?.purchasable && product.stock_status !== 'outofstock'))
+    .slice(0, limit);
+}
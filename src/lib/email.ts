@@ -0,0 +1,42 @@
+const EMAIL_API_BASE = process.env.EMAIL_API_BASE || 'https://api.resend.com';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Send a transactional email through the configured email API
+ * Without EMAIL_API_KEY the message is logged instead during development; in production
+ * that would leak live account links into the server logs, so it fails instead.
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const apiKey = process.env.EMAIL_API_KEY;
+
+  if (!apiKey) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`EMAIL_API_KEY is not set, so "${message.subject}" could not be sent`);
+    }
+    console.info(`Email to ${message.to} (EMAIL_API_KEY not set): ${message.subject}\n${message.text}`);
+    return;
+  }
+
+  const response = await fetch(`${EMAIL_API_BASE}/emails`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to send email: ${response.status} ${await response.text()}`);
+  }
+}
@@ -1,3 +1,5 @@
+import { cacheTags } from '@/lib/cache-tags';
+
 const GRAPHQL_URL = process.env.NEXT_PUBLIC_GRAPHQL_URL;
 
 interface GraphQLResponse<T> {
@@ -147,7 +149,7 @@ export async function getMenus(): Promise<Menu[]> {
     }
     `,
     undefined,
-    { revalidate: 300 }
+    { revalidate: 300, tags: [cacheTags.menus] }
   );
 
   return data.menus.nodes;
@@ -178,7 +180,7 @@ export async function getMenuBySlug(slug: string): Promise<Menu | null> {
     }
     `,
     { slug },
-    { revalidate: 300 }
+    { revalidate: 300, tags: [cacheTags.menus] }
   );
 
   return data.menu;
@@ -247,7 +249,7 @@ export async function getPages(): Promise<Page[]> {
     }
     `,
     undefined,
-    { revalidate: 300 }
+    { revalidate: 300, tags: [cacheTags.pages] }
   );
 
   return data.pages.nodes;
@@ -282,7 +284,7 @@ export async function getPageBySlug(slug: string): Promise<Page | null> {
     }
     `,
     { slug },
-    { revalidate: 60 }
+    { revalidate: 60, tags: [cacheTags.page(slug)] }
   );
 
   return data.page;
@@ -313,7 +315,7 @@ export async function getSiteSettings(): Promise<{
     }
     `,
     undefined,
-    { revalidate: 3600 }
+    { revalidate: 3600, tags: [cacheTags.siteSettings] }
   );
 
   return data.generalSettings;
@@ -0,0 +1,37 @@
+import { createHmac } from 'crypto';
+import { AuthError } from '@/lib/auth';
+
+const WP_URL = process.env.NEXT_PUBLIC_WORDPRESS_URL;
+
+// Same lifetime the JWT plugin gives tokens it issues
+const TOKEN_LIFETIME = 7 * 24 * 60 * 60;
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Issue a JWT the WordPress JWT plugin accepts, for a user who signed in without a password
+ * Signed with JWT_SECRET, which must match JWT_AUTH_SECRET_KEY in wp-config.php.
+ */
+export function signWordPressToken(userId: number): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || !WP_URL) {
+    throw new AuthError('JWT signing is not configured', 'config_error', 500);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'HS256' }));
+  const payload = base64url(
+    JSON.stringify({
+      iss: WP_URL,
+      iat: now,
+      nbf: now,
+      exp: now + TOKEN_LIFETIME,
+      data: { user: { id: String(userId) } },
+    })
+  );
+
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
@@ -0,0 +1,161 @@
+import { requestToken, getCurrentUser, AuthError, type AuthUser } from '@/lib/auth';
+import { getRateLimitStore } from '@/lib/rate-limit';
+import { customers } from '@/lib/woocommerce';
+import { hasPendingVerification, isEmailVerificationRequired, sendEmailVerification } from '@/lib/account-keys';
+
+export type LoginErrorCode =
+  | 'missing_credentials'
+  | 'invalid_credentials'
+  | 'too_many_attempts'
+  | 'email_not_verified'
+  | 'auth_unavailable'
+  | 'config_error';
+
+// Failed attempts allowed within the window before a lockout
+const IP_LIMIT = 20;
+const ACCOUNT_LIMIT = 5;
+const ATTEMPT_WINDOW = 15 * 60;
+
+// Each lockout within a day doubles the previous one, up to an hour
+const BASE_LOCKOUT = 60;
+const MAX_LOCKOUT = 60 * 60;
+const LOCKOUT_MEMORY = 24 * 60 * 60;
+
+type LimitScope = { key: string; limit: number };
+
+function getScopes(ip: string, username: string): LimitScope[] {
+  return [
+    { key: `login:ip:${ip}`, limit: IP_LIMIT },
+    { key: `login:account:${username.trim().toLowerCase()}`, limit: ACCOUNT_LIMIT },
+  ];
+}
+
+function formatWait(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  return minutes <= 1 ? 'a minute' : `${minutes} minutes`;
+}
+
+/**
+ * Throw if the IP or account is locked out
+ */
+async function assertNotLocked(scopes: LimitScope[]): Promise<void> {
+  const store = getRateLimitStore();
+
+  for (const scope of scopes) {
+    const lockedUntil = parseInt((await store.get(`${scope.key}:locked`)) || '', 10);
+    const retryAfter = Math.ceil((lockedUntil - Date.now()) / 1000);
+
+    if (retryAfter > 0) {
+      throw new AuthError(
+        `Too many failed sign-in attempts. Please try again in ${formatWait(retryAfter)}.`,
+        'too_many_attempts',
+        429,
+        retryAfter
+      );
+    }
+  }
+}
+
+/**
+ * Count a failed attempt, locking the IP or account once it passes its limit
+ */
+async function recordFailure(scopes: LimitScope[]): Promise<void> {
+  const store = getRateLimitStore();
+
+  for (const scope of scopes) {
+    const failures = await store.increment(`${scope.key}:failures`, ATTEMPT_WINDOW);
+    if (failures < scope.limit) continue;
+
+    const lockouts = await store.increment(`${scope.key}:lockouts`, LOCKOUT_MEMORY);
+    const duration = Math.min(BASE_LOCKOUT * 2 ** (lockouts - 1), MAX_LOCKOUT);
+
+    await store.set(`${scope.key}:locked`, String(Date.now() + duration * 1000), duration);
+    await store.delete(`${scope.key}:failures`);
+  }
+}
+
+/**
+ * Clear an account's failures after a successful sign-in
+ * The IP keeps its count so one valid account can't unlock guessing at others.
+ */
+async function recordSuccess(scopes: LimitScope[]): Promise<void> {
+  const store = getRateLimitStore();
+  const account = scopes[scopes.length - 1];
+
+  await store.delete(`${account.key}:failures`);
+  await store.delete(`${account.key}:lockouts`);
+}
+
+/**
+ * Map JWT plugin errors onto the codes the login page understands
+ * Unknown user and wrong password read the same, so accounts can't be enumerated.
+ */
+function normalizeLoginError(error: unknown): AuthError {
+  if (error instanceof AuthError) {
+    if (error.code === 'config_error') return error;
+    if (error.status >= 500) {
+      return new AuthError('Sign-in is temporarily unavailable. Please try again shortly.', 'auth_unavailable', 503);
+    }
+    return new AuthError('Incorrect email/username or password.', 'invalid_credentials', 401);
+  }
+
+  return new AuthError('Sign-in is temporarily unavailable. Please try again shortly.', 'auth_unavailable', 503);
+}
+
+/**
+ * Refuse accounts that haven't confirmed their email yet, sending them a fresh link
+ * Only the account owner gets here, since the password was already checked.
+ */
+async function assertEmailVerified(user: AuthUser, siteUrl: string): Promise<void> {
+  if (!isEmailVerificationRequired()) return;
+
+  const customer = await customers.getByEmail(user.email);
+  if (!customer || !hasPendingVerification(customer)) return;
+
+  await sendEmailVerification(customer, siteUrl);
+  throw new AuthError(
+    'Please confirm your email address first. We\'ve sent you a new link.',
+    'email_not_verified',
+    403
+  );
+}
+
+/**
+ * Sign in with a username/email and password, applying per-IP and per-account limits
+ */
+export async function authenticate(
+  username: string,
+  password: string,
+  options: { ip: string; siteUrl: string }
+): Promise<{ token: string; user: AuthUser }> {
+  if (!username?.trim() || !password) {
+    throw new AuthError('Email/username and password are required.', 'missing_credentials', 400);
+  }
+
+  const scopes = getScopes(options.ip, username);
+  await assertNotLocked(scopes);
+
+  let token: string;
+  try {
+    ({ token } = await requestToken(username.trim(), password));
+  } catch (error) {
+    const normalized = normalizeLoginError(error);
+    if (normalized.code === 'invalid_credentials') {
+      await recordFailure(scopes);
+    }
+    throw normalized;
+  }
+
+  await recordSuccess(scopes);
+
+  let user: AuthUser;
+  try {
+    user = await getCurrentUser(token);
+  } catch (error) {
+    throw normalizeLoginError(error);
+  }
+
+  await assertEmailVerified(user, options.siteUrl);
+
+  return { token, user };
+}
@@ -0,0 +1,97 @@
+import { createSign } from 'crypto';
+import type { OAuthProvider } from './provider';
+import { getEndpoint, readIdToken, requestTokens } from './provider';
+
+const CLIENT_ID = process.env.APPLE_CLIENT_ID; // Services ID
+const TEAM_ID = process.env.APPLE_TEAM_ID;
+const KEY_ID = process.env.APPLE_KEY_ID;
+const PRIVATE_KEY = process.env.APPLE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+/**
+ * Apple's client secret is a short-lived ES256 JWT signed with the team's key
+ */
+function createClientSecret(): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'ES256', kid: KEY_ID })).toString('base64url');
+  const payload = Buffer.from(
+    JSON.stringify({
+      iss: TEAM_ID,
+      iat: now,
+      exp: now + 5 * 60,
+      aud: 'https://appleid.apple.com',
+      sub: CLIENT_ID,
+    })
+  ).toString('base64url');
+
+  const signature = createSign('SHA256')
+    .update(`${header}.${payload}`)
+    .sign({ key: PRIVATE_KEY!, dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Sign in with Apple
+ * Apple posts the code back (form_post) and only sends the user's name on
+ * their first sign-in, in the `user` field.
+ */
+export const appleProvider: OAuthProvider = {
+  id: 'apple',
+  name: 'Apple',
+  responseMode: 'form_post',
+
+  isEnabled: () => Boolean(CLIENT_ID && TEAM_ID && KEY_ID && PRIVATE_KEY),
+
+  getAuthorizationUrl: ({ redirectUri, state, nonce, codeChallenge }) => {
+    const params = new URLSearchParams({
+      client_id: CLIENT_ID!,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      response_mode: 'form_post',
+      scope: 'name email',
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return `${getEndpoint('apple', 'authorize', 'https://appleid.apple.com/auth/authorize')}?${params}`;
+  },
+
+  exchangeCode: async (code, { redirectUri, nonce, codeVerifier }, callbackParams) => {
+    const tokens = await requestTokens<{ id_token: string }>(
+      getEndpoint('apple', 'token', 'https://appleid.apple.com/auth/token'),
+      {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: CLIENT_ID!,
+        client_secret: process.env.OAUTH_MOCK_URL ? 'mock' : createClientSecret(),
+        code_verifier: codeVerifier,
+      }
+    );
+
+    const claims = readIdToken(tokens.id_token, {
+      issuer: 'https://appleid.apple.com',
+      audience: CLIENT_ID!,
+      nonce,
+    });
+
+    let name: { firstName?: string; lastName?: string } = {};
+    try {
+      name = JSON.parse(callbackParams.get('user') || '{}').name || {};
+    } catch {
+      // Name is optional
+    }
+
+    return {
+      providerUserId: String(claims.sub),
+      email: String(claims.email || ''),
+      // Apple sends this as a boolean or the string "true"
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: name.firstName || '',
+      lastName: name.lastName || '',
+    };
+  },
+};
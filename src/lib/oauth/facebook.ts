@@ -0,0 +1,74 @@
+import type { OAuthProvider } from './provider';
+import { OAuthError, getEndpoint, requestTokens } from './provider';
+
+const CLIENT_ID = process.env.FACEBOOK_CLIENT_ID;
+const CLIENT_SECRET = process.env.FACEBOOK_CLIENT_SECRET;
+const GRAPH_VERSION = 'v19.0';
+
+interface FacebookUser {
+  id: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+/**
+ * Facebook Login (OAuth 2.0, profile from the Graph API)
+ */
+export const facebookProvider: OAuthProvider = {
+  id: 'facebook',
+  name: 'Facebook',
+  responseMode: 'query',
+
+  isEnabled: () => Boolean(CLIENT_ID && CLIENT_SECRET),
+
+  getAuthorizationUrl: ({ redirectUri, state, codeChallenge }) => {
+    const params = new URLSearchParams({
+      client_id: CLIENT_ID!,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: 'email public_profile',
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return `${getEndpoint('facebook', 'authorize', `https://www.facebook.com/${GRAPH_VERSION}/dialog/oauth`)}?${params}`;
+  },
+
+  exchangeCode: async (code, { redirectUri, codeVerifier }) => {
+    const tokens = await requestTokens<{ access_token: string }>(
+      getEndpoint('facebook', 'token', `https://graph.facebook.com/${GRAPH_VERSION}/oauth/access_token`),
+      {
+        code,
+        redirect_uri: redirectUri,
+        client_id: CLIENT_ID!,
+        client_secret: CLIENT_SECRET!,
+        code_verifier: codeVerifier,
+      }
+    );
+
+    const params = new URLSearchParams({
+      fields: 'id,email,first_name,last_name',
+      access_token: tokens.access_token,
+    });
+    const response = await fetch(
+      `${getEndpoint('facebook', 'userinfo', `https://graph.facebook.com/${GRAPH_VERSION}/me`)}?${params}`
+    );
+
+    if (!response.ok) {
+      throw new OAuthError('Failed to load Facebook profile', 'profile_failed', 502);
+    }
+
+    const user: FacebookUser = await response.json();
+
+    return {
+      providerUserId: user.id,
+      email: user.email || '',
+      // Facebook only returns confirmed email addresses
+      emailVerified: Boolean(user.email),
+      firstName: user.first_name || '',
+      lastName: user.last_name || '',
+    };
+  },
+};
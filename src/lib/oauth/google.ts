@@ -0,0 +1,60 @@
+import type { OAuthProvider } from './provider';
+import { getEndpoint, readIdToken, requestTokens } from './provider';
+
+const CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
+const CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
+
+/**
+ * Google (OpenID Connect with PKCE)
+ */
+export const googleProvider: OAuthProvider = {
+  id: 'google',
+  name: 'Google',
+  responseMode: 'query',
+
+  isEnabled: () => Boolean(CLIENT_ID && CLIENT_SECRET),
+
+  getAuthorizationUrl: ({ redirectUri, state, nonce, codeChallenge }) => {
+    const params = new URLSearchParams({
+      client_id: CLIENT_ID!,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: 'openid email profile',
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      prompt: 'select_account',
+    });
+
+    return `${getEndpoint('google', 'authorize', 'https://accounts.google.com/o/oauth2/v2/auth')}?${params}`;
+  },
+
+  exchangeCode: async (code, { redirectUri, nonce, codeVerifier }) => {
+    const tokens = await requestTokens<{ id_token: string }>(
+      getEndpoint('google', 'token', 'https://oauth2.googleapis.com/token'),
+      {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: CLIENT_ID!,
+        client_secret: CLIENT_SECRET!,
+        code_verifier: codeVerifier,
+      }
+    );
+
+    const claims = readIdToken(tokens.id_token, {
+      issuer: 'https://accounts.google.com',
+      audience: CLIENT_ID!,
+      nonce,
+    });
+
+    return {
+      providerUserId: String(claims.sub),
+      email: String(claims.email || ''),
+      emailVerified: claims.email_verified === true,
+      firstName: String(claims.given_name || ''),
+      lastName: String(claims.family_name || ''),
+    };
+  },
+};
@@ -0,0 +1,161 @@
+import { createHash, randomBytes } from 'crypto';
+import { customers } from '@/lib/woocommerce';
+import { getCurrentUser, type AuthUser } from '@/lib/auth';
+import { signWordPressToken } from '@/lib/jwt';
+import { markEmailVerified } from '@/lib/account-keys';
+import type { WCCustomer } from '@/types/woocommerce';
+import type { OAuthProfile, OAuthProvider } from './provider';
+import { OAuthError } from './provider';
+import { googleProvider } from './google';
+import { appleProvider } from './apple';
+import { facebookProvider } from './facebook';
+
+export type { OAuthProvider, OAuthProfile } from './provider';
+export { OAuthError } from './provider';
+
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+/**
+ * What is remembered between sending the user to the provider and their return
+ */
+export interface OAuthState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirect: string;
+}
+
+// Providers keyed by id, in the order their buttons are shown
+const providers = new Map<string, OAuthProvider>();
+
+/**
+ * Register a sign-in provider
+ */
+export function registerProvider(provider: OAuthProvider): void {
+  providers.set(provider.id, provider);
+}
+
+registerProvider(googleProvider);
+registerProvider(appleProvider);
+registerProvider(facebookProvider);
+
+/**
+ * Get an enabled provider by id
+ */
+export function getProvider(id: string): OAuthProvider | null {
+  const provider = providers.get(id);
+  return provider?.isEnabled() ? provider : null;
+}
+
+/**
+ * List the providers that are configured on this server
+ */
+export function getEnabledProviders(): OAuthProvider[] {
+  return Array.from(providers.values()).filter((provider) => provider.isEnabled());
+}
+
+export function getRedirectUri(provider: OAuthProvider, siteUrl: string): string {
+  return `${siteUrl}/api/auth/oauth/${provider.id}/callback`;
+}
+
+/**
+ * Only allow same-site paths as the post-login destination
+ */
+function safeRedirect(redirect: string | null): string {
+  return redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/account';
+}
+
+/**
+ * Build the provider consent URL and the state to remember until the user returns
+ */
+export function createAuthorizationRequest(
+  provider: OAuthProvider,
+  siteUrl: string,
+  redirect: string | null
+): { url: string; state: OAuthState } {
+  const state: OAuthState = {
+    provider: provider.id,
+    state: randomBytes(16).toString('hex'),
+    nonce: randomBytes(16).toString('hex'),
+    codeVerifier: randomBytes(32).toString('base64url'),
+    redirect: safeRedirect(redirect),
+  };
+
+  const url = provider.getAuthorizationUrl({
+    redirectUri: getRedirectUri(provider, siteUrl),
+    state: state.state,
+    nonce: state.nonce,
+    codeChallenge: createHash('sha256').update(state.codeVerifier).digest('base64url'),
+  });
+
+  return { url, state };
+}
+
+/**
+ * Find the customer for a provider profile, creating one on first sign-in
+ * Existing accounts are only matched on an email the provider has verified.
+ */
+export async function findOrCreateCustomer(provider: OAuthProvider, profile: OAuthProfile): Promise<WCCustomer> {
+  if (!profile.email) {
+    throw new OAuthError(`${provider.name} did not share an email address.`, 'email_missing');
+  }
+
+  if (!profile.emailVerified) {
+    throw new OAuthError(`Please verify your email address with ${provider.name} first.`, 'email_not_verified');
+  }
+
+  const providerMeta = { key: `_oauth_${provider.id}_id`, value: profile.providerUserId };
+  const existing = await customers.getByEmail(profile.email);
+
+  if (existing) {
+    if (!existing.meta_data?.some((meta) => meta.key === providerMeta.key)) {
+      await customers.update(existing.id, { meta_data: [providerMeta] });
+    }
+    await markEmailVerified(existing);
+    return existing;
+  }
+
+  // A random password; the customer can set one later through a password reset
+  return customers.create({
+    email: profile.email,
+    password: randomBytes(24).toString('base64url'),
+    first_name: profile.firstName,
+    last_name: profile.lastName,
+    meta_data: [providerMeta],
+  });
+}
+
+/**
+ * Finish a provider sign-in: check state, exchange the code and issue a session token
+ */
+export async function completeSignIn(
+  provider: OAuthProvider,
+  stored: OAuthState | null,
+  callbackParams: URLSearchParams,
+  siteUrl: string
+): Promise<{ token: string; user: AuthUser; redirect: string }> {
+  const code = callbackParams.get('code');
+
+  if (callbackParams.get('error')) {
+    throw new OAuthError(`${provider.name} sign-in was cancelled.`, 'access_denied');
+  }
+
+  if (!code || !stored || stored.provider !== provider.id || stored.state !== callbackParams.get('state')) {
+    throw new OAuthError('Your sign-in session expired. Please try again.', 'invalid_state');
+  }
+
+  const profile = await provider.exchangeCode(
+    code,
+    { redirectUri: getRedirectUri(provider, siteUrl), nonce: stored.nonce, codeVerifier: stored.codeVerifier },
+    callbackParams
+  );
+
+  const customer = await findOrCreateCustomer(provider, profile);
+  const token = signWordPressToken(customer.id);
+
+  // Confirms WordPress accepts the token (i.e. JWT_SECRET matches)
+  const user = await getCurrentUser(token);
+
+  return { token, user, redirect: stored.redirect };
+}
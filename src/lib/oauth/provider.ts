@@ -0,0 +1,132 @@
+export interface OAuthProfile {
+  providerUserId: string;
+  email: string;
+  emailVerified: boolean; // Only verified emails are matched to existing customers
+  firstName: string;
+  lastName: string;
+}
+
+export interface AuthorizationParams {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface ExchangeParams {
+  redirectUri: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * An OAuth 2.0 / OpenID Connect sign-in provider
+ * Providers only talk to their identity service; customers and sessions are
+ * handled by the caller from the profile they return.
+ */
+export interface OAuthProvider {
+  id: string;
+  name: string;
+
+  /**
+   * How the provider sends the code back; form_post arrives as a cross-site POST
+   */
+  responseMode: 'query' | 'form_post';
+
+  /**
+   * Whether the provider has the configuration it needs
+   */
+  isEnabled(): boolean;
+
+  /**
+   * URL of the provider's consent screen
+   */
+  getAuthorizationUrl(params: AuthorizationParams): string;
+
+  /**
+   * Exchange an authorization code for the signed-in user's profile
+   */
+  exchangeCode(code: string, params: ExchangeParams, callbackParams: URLSearchParams): Promise<OAuthProfile>;
+}
+
+class OAuthError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status: number = 400) {
+    super(message);
+    this.name = 'OAuthError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Resolve a provider endpoint, pointing it at OAUTH_MOCK_URL when set
+ * e.g. OAUTH_MOCK_URL=http://localhost:9090 sends Google's token request to
+ * http://localhost:9090/google/token.
+ */
+export function getEndpoint(providerId: string, name: string, url: string): string {
+  const mockBase = process.env.OAUTH_MOCK_URL;
+  return mockBase ? `${mockBase.replace(/\/$/, '')}/${providerId}/${name}` : url;
+}
+
+/**
+ * POST a form to a token endpoint and return the JSON response
+ */
+export async function requestTokens<T>(url: string, body: Record<string, string>): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams(body),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new OAuthError(
+      data.error_description || data.error?.message || 'Failed to exchange authorization code',
+      'token_exchange_failed',
+      502
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * Read and check the claims of an ID token from the token endpoint
+ * The token came straight from the provider over TLS, so (as OIDC allows)
+ * its signature isn't checked; issuer, audience, expiry and nonce are.
+ */
+export function readIdToken(
+  idToken: string,
+  expected: { issuer: string; audience: string; nonce: string }
+): Record<string, unknown> {
+  let claims: Record<string, unknown>;
+  try {
+    claims = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString());
+  } catch {
+    throw new OAuthError('Invalid ID token', 'invalid_id_token', 502);
+  }
+
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const mocked = Boolean(process.env.OAUTH_MOCK_URL);
+
+  if (
+    (!mocked && claims.iss !== expected.issuer) ||
+    !audience.includes(expected.audience) ||
+    typeof claims.exp !== 'number' ||
+    claims.exp * 1000 < Date.now() ||
+    claims.nonce !== expected.nonce
+  ) {
+    throw new OAuthError('Invalid ID token', 'invalid_id_token', 502);
+  }
+
+  return claims;
+}
+
+export { OAuthError };
@@ -0,0 +1,75 @@
+import { timingSafeEqual } from 'crypto';
+import { wooCommerce } from '@/lib/woocommerce';
+import type { WCOrder } from '@/types/woocommerce';
+import type { TrackedOrder } from '@/types/order';
+
+/**
+ * Check an order key in constant time
+ * The key proves the caller placed the order; IDs alone are guessable.
+ */
+export function matchesOrderKey(order: WCOrder, key: string): boolean {
+  const expected = Buffer.from(order.order_key);
+  const given = Buffer.from(key);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * The parts of an order a guest may see once they've proven they placed it
+ * Leaves out billing details, payment information and the order key.
+ */
+export function toTrackedOrder(order: WCOrder): TrackedOrder {
+  const { shipping } = order;
+
+  return {
+    number: order.number,
+    status: order.status,
+    dateCreated: order.date_created,
+    items: order.line_items.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      total: parseFloat(item.total),
+      image: item.image?.src || null,
+    })),
+    shippingAddress: {
+      name: `${shipping.first_name} ${shipping.last_name}`.trim(),
+      lines: [
+        shipping.address_1,
+        shipping.address_2,
+        [shipping.city, shipping.state, shipping.postcode].filter(Boolean).join(', '),
+        shipping.country,
+      ].filter(Boolean),
+    },
+    shippingMethod: order.shipping_lines[0]?.method_title || null,
+    total: parseFloat(order.total),
+  };
+}
+
+/**
+ * Find an order by its number and billing email
+ * Returns null for any mismatch so callers can't tell which part was wrong.
+ */
+export async function findGuestOrder(orderNumber: string, email: string): Promise<TrackedOrder | null> {
+  const number = orderNumber.trim().replace(/^#/, '');
+  const orderId = parseInt(number, 10);
+
+  if (isNaN(orderId) || !email.trim()) {
+    return null;
+  }
+
+  let order: WCOrder;
+  try {
+    order = await wooCommerce.orders.get(orderId);
+  } catch {
+    return null;
+  }
+
+  if (
+    order.status === 'trash' ||
+    order.number !== number ||
+    (order.billing.email || '').trim().toLowerCase() !== email.trim().toLowerCase()
+  ) {
+    return null;
+  }
+
+  return toTrackedOrder(order);
+}
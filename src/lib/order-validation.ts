@@ -0,0 +1,154 @@
+import { products, WooCommerceError } from '@/lib/woocommerce';
+import type {
+  WCProduct,
+  WCProductVariation,
+  OrderLineItemInput,
+  LineItemError,
+  LineItemErrorCode,
+} from '@/types/woocommerce';
+
+interface LineItemValidationResult {
+  lineItems: OrderLineItemInput[];
+  errors: LineItemError[];
+}
+
+/**
+ * Load a product, resolving variations to their parent
+ * Cart lines from the Store API carry the variation ID as product_id.
+ */
+async function loadProduct(id: number): Promise<WCProduct | null> {
+  try {
+    const product = await products.get(id, { fresh: true });
+    if (product.type === 'variation' && product.parent_id) {
+      return products.get(product.parent_id, { fresh: true });
+    }
+    return product;
+  } catch (error) {
+    if (error instanceof WooCommerceError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+async function loadVariation(productId: number, variationId: number): Promise<WCProductVariation | null> {
+  try {
+    return await products.getVariation(productId, variationId, { fresh: true });
+  } catch (error) {
+    if (error instanceof WooCommerceError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Check a single line against live product data
+ * Returns the error code and, for stock problems, the quantity that would fit.
+ */
+function checkLineItem(
+  item: OrderLineItemInput,
+  product: WCProduct | null,
+  variation: WCProductVariation | null
+): { code: LineItemErrorCode; maxQuantity?: number } | null {
+  if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+    return { code: 'invalid_quantity' };
+  }
+
+  if (!product) return { code: 'product_not_found' };
+  if (product.status !== 'publish') return { code: 'not_published' };
+
+  if (product.type === 'variable') {
+    if (!item.variation_id) return { code: 'variation_required' };
+    if (!variation) return { code: 'invalid_variation' };
+    if (variation.status && variation.status !== 'publish') return { code: 'not_published' };
+  }
+
+  const purchasable = variation ? variation.purchasable ?? product.purchasable : product.purchasable;
+  if (!purchasable) return { code: 'not_purchasable' };
+
+  // Variations inherit stock settings from the parent when manage_stock is 'parent'
+  const variationStock = variation && variation.manage_stock !== 'parent' ? variation : null;
+  const stockSource = variationStock ?? product;
+  const manageStock = variationStock ? Boolean(variationStock.manage_stock) : product.manage_stock;
+  const backordersAllowed = stockSource.backorders_allowed ?? product.backorders_allowed;
+
+  if (stockSource.stock_status === 'outofstock') {
+    return { code: 'out_of_stock' };
+  }
+
+  if (
+    manageStock &&
+    !backordersAllowed &&
+    stockSource.stock_quantity !== null &&
+    item.quantity > stockSource.stock_quantity
+  ) {
+    return stockSource.stock_quantity > 0
+      ? { code: 'insufficient_stock', maxQuantity: stockSource.stock_quantity }
+      : { code: 'out_of_stock' };
+  }
+
+  if (product.sold_individually && item.quantity > 1) {
+    return { code: 'sold_individually', maxQuantity: 1 };
+  }
+
+  return null;
+}
+
+const errorMessages: Record<LineItemErrorCode, (name: string, max?: number) => string> = {
+  invalid_quantity: (name) => `Please choose a valid quantity for ${name}.`,
+  product_not_found: () => 'This product no longer exists.',
+  not_published: (name) => `${name} is no longer available.`,
+  not_purchasable: (name) => `${name} cannot be purchased.`,
+  variation_required: (name) => `Please choose options for ${name}.`,
+  invalid_variation: (name) => `The selected options for ${name} are no longer available.`,
+  out_of_stock: (name) => `${name} is out of stock.`,
+  insufficient_stock: (name, max) => `Only ${max} of ${name} left in stock.`,
+  sold_individually: (name) => `${name} can only be bought one at a time.`,
+};
+
+/**
+ * Validate order line items against live WooCommerce data
+ * Returns the line items with parent product IDs resolved, plus any per-line errors.
+ */
+export async function validateLineItems(
+  lineItems: OrderLineItemInput[]
+): Promise<LineItemValidationResult> {
+  // Share lookups between lines for the same product
+  const productCache = new Map<number, Promise<WCProduct | null>>();
+  const getProduct = (id: number) => {
+    if (!productCache.has(id)) productCache.set(id, loadProduct(id));
+    return productCache.get(id)!;
+  };
+
+  const results = await Promise.all(
+    lineItems.map(async (item, index) => {
+      const product = await getProduct(item.product_id);
+      const variation =
+        product && item.variation_id ? await loadVariation(product.id, item.variation_id) : null;
+
+      const failure = checkLineItem(item, product, variation);
+      // Only these fields are forwarded; WooCommerce would take client prices
+      // or meta from anything else on the line
+      const lineItem: OrderLineItemInput = {
+        product_id: product?.id ?? item.product_id,
+        variation_id: item.variation_id || undefined,
+        quantity: item.quantity,
+      };
+
+      if (!failure) return { lineItem, error: null };
+
+      const error: LineItemError = {
+        index,
+        product_id: item.product_id,
+        variation_id: item.variation_id || undefined,
+        code: failure.code,
+        message: errorMessages[failure.code](product?.name || 'This item', failure.maxQuantity),
+        max_quantity: failure.maxQuantity,
+      };
+
+      return { lineItem, error };
+    })
+  );
+
+  return {
+    lineItems: results.map((result) => result.lineItem),
+    errors: results.flatMap((result) => (result.error ? [result.error] : [])),
+  };
+}
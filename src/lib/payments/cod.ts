@@ -0,0 +1,22 @@
+import type { PaymentGateway } from './gateway';
+import { PaymentError } from './gateway';
+
+/**
+ * Cash on delivery: nothing is collected online
+ */
+export const codGateway: PaymentGateway = {
+  id: 'cod',
+  title: 'Cash on Delivery',
+  description: 'Pay with cash when your order is delivered.',
+
+  isEnabled: () => true,
+
+  createIntent: async () => ({ redirectUrl: null }),
+
+  confirm: async () => {
+    throw new PaymentError('Cash on delivery orders are paid on delivery', 'not_supported');
+  },
+
+  // Cash has to be handed back in person
+  refund: async () => ({ refundId: null, automatic: false }),
+};
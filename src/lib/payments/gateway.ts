@@ -0,0 +1,73 @@
+import type { WCOrder } from '@/types/woocommerce';
+
+export interface PaymentContext {
+  siteUrl: string;
+}
+
+export interface PaymentIntent {
+  // Off-site page the shopper must visit to pay, or null when nothing is due now
+  redirectUrl: string | null;
+}
+
+export interface PaymentResult {
+  orderId: number;
+  status: 'paid' | 'pending' | 'failed';
+  transactionId?: string;
+}
+
+export interface RefundResult {
+  refundId: string | null;
+  // False when the money has to be returned by hand (e.g. cash on delivery)
+  automatic: boolean;
+}
+
+/**
+ * A payment gateway adapter, keyed by its WooCommerce `payment_method` id
+ * Gateways only talk to their payment provider; WooCommerce order updates
+ * are applied by the caller from the results they return.
+ */
+export interface PaymentGateway {
+  id: string;
+  title: string;
+  description: string;
+
+  /**
+   * Whether the gateway has the configuration it needs
+   */
+  isEnabled(): boolean;
+
+  /**
+   * Start payment for a pending order
+   */
+  createIntent(order: WCOrder, context: PaymentContext): Promise<PaymentIntent>;
+
+  /**
+   * Confirm a payment when the shopper returns from the provider
+   */
+  confirm(order: WCOrder, params: URLSearchParams): Promise<PaymentResult>;
+
+  /**
+   * Refund a paid order (the full total when no amount is given)
+   */
+  refund(order: WCOrder, amount?: string): Promise<RefundResult>;
+
+  /**
+   * Verify and interpret a provider webhook
+   * Returns null for events that don't affect an order.
+   */
+  handleWebhook?(payload: string, headers: Headers): Promise<PaymentResult | null>;
+}
+
+class PaymentError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, code: string, status: number = 400) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export { PaymentError };
@@ -0,0 +1,90 @@
+import { wooCommerce } from '@/lib/woocommerce';
+import type { WCOrder } from '@/types/woocommerce';
+import { PaymentError, type PaymentGateway, type PaymentResult, type RefundResult } from './gateway';
+import { codGateway } from './cod';
+import { stripeGateway } from './stripe';
+import { paypalGateway } from './paypal';
+
+export type { PaymentGateway, PaymentContext, PaymentIntent, PaymentResult, RefundResult } from './gateway';
+export { PaymentError } from './gateway';
+
+// Gateways keyed by WooCommerce payment_method id, in checkout display order
+const gateways = new Map<string, PaymentGateway>();
+
+/**
+ * Register a payment gateway adapter
+ */
+export function registerGateway(gateway: PaymentGateway): void {
+  gateways.set(gateway.id, gateway);
+}
+
+registerGateway(codGateway);
+registerGateway(stripeGateway);
+registerGateway(paypalGateway);
+
+/**
+ * Get an enabled gateway by its payment_method id
+ */
+export function getGateway(id: string): PaymentGateway | null {
+  const gateway = gateways.get(id);
+  return gateway?.isEnabled() ? gateway : null;
+}
+
+/**
+ * List the gateways that are configured on this server
+ */
+export function getEnabledGateways(): PaymentGateway[] {
+  return Array.from(gateways.values()).filter((gateway) => gateway.isEnabled());
+}
+
+/**
+ * Record a confirmed or failed payment on its WooCommerce order
+ * Safe to call repeatedly (webhooks and return URLs can race).
+ */
+export async function applyPaymentResult(result: PaymentResult): Promise<WCOrder> {
+  const order = await wooCommerce.orders.get(result.orderId);
+
+  // Only orders still awaiting payment can change state
+  if (order.status !== 'pending' && order.status !== 'failed') {
+    return order;
+  }
+
+  if (result.status === 'paid') {
+    return wooCommerce.orders.update(order.id, {
+      status: 'processing',
+      set_paid: true,
+      transaction_id: result.transactionId,
+    });
+  }
+
+  if (result.status === 'failed') {
+    return wooCommerce.orders.update(order.id, { status: 'failed' });
+  }
+
+  return order;
+}
+
+/**
+ * Refund an order through its gateway and record the refund in WooCommerce
+ */
+export async function refundOrder(
+  order: WCOrder,
+  amount?: string,
+  reason?: string
+): Promise<RefundResult> {
+  const gateway = gateways.get(order.payment_method);
+  if (!gateway) {
+    throw new PaymentError(`No payment gateway registered for "${order.payment_method}"`, 'unknown_gateway', 409);
+  }
+
+  const result = await gateway.refund(order, amount);
+
+  await wooCommerce.orders.createRefund(order.id, {
+    amount: amount || order.total,
+    reason,
+    // The gateway has already moved the money
+    api_refund: false,
+  });
+
+  return result;
+}
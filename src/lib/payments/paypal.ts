@@ -0,0 +1,75 @@
+import type { PaymentGateway } from './gateway';
+import { PaymentError } from './gateway';
+import {
+  isPayPalConfigured,
+  createPayPalOrder,
+  capturePayPalOrder,
+  refundPayPalCapture,
+  getApprovalUrl,
+} from '@/lib/paypal';
+
+/**
+ * PayPal Orders v2 (redirect approval, captured on return)
+ */
+export const paypalGateway: PaymentGateway = {
+  id: 'paypal',
+  title: 'PayPal',
+  description: 'Pay with your PayPal account. You will be redirected to PayPal to approve the payment.',
+
+  isEnabled: isPayPalConfigured,
+
+  createIntent: async (order, { siteUrl }) => {
+    const returnParams = new URLSearchParams({
+      order_id: String(order.id),
+      key: order.order_key,
+    });
+
+    // PayPal appends ?token=<paypal order id>&PayerID=... to the return URL
+    const paypalOrder = await createPayPalOrder(order, {
+      returnUrl: `${siteUrl}/api/checkout/paypal/return?${returnParams}`,
+      cancelUrl: `${siteUrl}/checkout?payment=cancelled`,
+    });
+
+    const redirectUrl = getApprovalUrl(paypalOrder);
+    if (!redirectUrl) {
+      throw new PaymentError('PayPal did not return an approval link', 'no_approval_link', 502);
+    }
+
+    return { redirectUrl };
+  },
+
+  confirm: async (order, params) => {
+    const paypalOrderId = params.get('token');
+    if (!paypalOrderId) {
+      throw new PaymentError('Missing PayPal order', 'invalid_request');
+    }
+
+    const paypalOrder = await capturePayPalOrder(paypalOrderId);
+    const capture = paypalOrder.purchase_units?.[0]?.payments?.captures?.[0];
+
+    if (capture && capture.custom_id !== String(order.id)) {
+      throw new PaymentError('PayPal order does not match this order', 'order_mismatch');
+    }
+
+    const paid = paypalOrder.status === 'COMPLETED' && capture?.status === 'COMPLETED';
+
+    return {
+      orderId: order.id,
+      // Captures under review stay pending until PayPal settles them
+      status: paid ? 'paid' : capture?.status === 'PENDING' ? 'pending' : 'failed',
+      transactionId: capture?.id,
+    };
+  },
+
+  refund: async (order, amount) => {
+    if (!order.transaction_id) {
+      throw new PaymentError('Order has no PayPal capture to refund', 'no_transaction');
+    }
+
+    const refund = await refundPayPalCapture(
+      order.transaction_id,
+      amount ? { value: amount, currency_code: order.currency } : undefined
+    );
+    return { refundId: refund.id, automatic: true };
+  },
+};
@@ -0,0 +1,106 @@
+import type Stripe from 'stripe';
+import type { PaymentGateway, PaymentResult } from './gateway';
+import { PaymentError } from './gateway';
+import {
+  isStripeConfigured,
+  createCheckoutSession,
+  retrieveCheckoutSession,
+  refundPaymentIntent,
+  constructWebhookEvent,
+} from '@/lib/stripe';
+
+/**
+ * Map a Checkout Session to the payment state of its order
+ */
+function toPaymentResult(
+  session: Stripe.Checkout.Session,
+  status: PaymentResult['status']
+): PaymentResult | null {
+  const orderId = parseInt(session.metadata?.order_id || '', 10);
+  if (isNaN(orderId)) return null;
+
+  const paymentIntent =
+    typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+
+  return { orderId, status, transactionId: paymentIntent || undefined };
+}
+
+/**
+ * Stripe Checkout (hosted payment page)
+ */
+export const stripeGateway: PaymentGateway = {
+  id: 'stripe',
+  title: 'Credit Card (Stripe)',
+  description: 'You will be redirected to Stripe to complete your payment securely.',
+
+  isEnabled: isStripeConfigured,
+
+  createIntent: async (order, { siteUrl }) => {
+    const returnParams = new URLSearchParams({
+      order_id: String(order.id),
+      key: order.order_key,
+    });
+
+    // Stripe substitutes {CHECKOUT_SESSION_ID} itself, so it is appended unencoded
+    const session = await createCheckoutSession(order, {
+      successUrl: `${siteUrl}/api/checkout/stripe/return?${returnParams}&session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${siteUrl}/checkout?payment=cancelled`,
+    });
+
+    return { redirectUrl: session.url };
+  },
+
+  confirm: async (order, params) => {
+    const sessionId = params.get('session_id');
+    if (!sessionId) {
+      throw new PaymentError('Missing Stripe session', 'invalid_request');
+    }
+
+    const session = await retrieveCheckoutSession(sessionId);
+    if (session.metadata?.order_id !== String(order.id)) {
+      throw new PaymentError('Stripe session does not match this order', 'order_mismatch');
+    }
+
+    // Delayed payment methods stay pending until their webhook arrives
+    const status = session.payment_status === 'unpaid' ? 'pending' : 'paid';
+    return toPaymentResult(session, status) as PaymentResult;
+  },
+
+  refund: async (order, amount) => {
+    if (!order.transaction_id) {
+      throw new PaymentError('Order has no Stripe payment to refund', 'no_transaction');
+    }
+
+    const refund = await refundPaymentIntent(order.transaction_id, amount, order.currency);
+    return { refundId: refund.id, automatic: true };
+  },
+
+  handleWebhook: async (payload, headers) => {
+    let event: Stripe.Event;
+    try {
+      event = constructWebhookEvent(payload, headers.get('stripe-signature'));
+    } catch (error) {
+      throw new PaymentError(
+        error instanceof Error ? error.message : 'Invalid signature',
+        'invalid_signature'
+      );
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed methods (e.g. bank debits) complete before they are paid
+        return event.data.object.payment_status === 'paid'
+          ? toPaymentResult(event.data.object, 'paid')
+          : null;
+
+      case 'checkout.session.async_payment_succeeded':
+        return toPaymentResult(event.data.object, 'paid');
+
+      case 'checkout.session.async_payment_failed':
+        return toPaymentResult(event.data.object, 'failed');
+
+      default:
+        return null;
+    }
+  },
+};
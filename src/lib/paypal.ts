@@ -0,0 +1,199 @@
+import type { WCOrder } from '@/types/woocommerce';
+
+const PAYPAL_CLIENT_ID = process.env.PAYPAL_CLIENT_ID;
+const PAYPAL_CLIENT_SECRET = process.env.PAYPAL_CLIENT_SECRET;
+const PAYPAL_MODE = process.env.PAYPAL_MODE || 'sandbox';
+// Optional API base override, e.g. a local mock server
+const PAYPAL_API_BASE =
+  process.env.PAYPAL_API_BASE ||
+  (PAYPAL_MODE === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com');
+
+class PayPalError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'PayPalError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface PayPalOrder {
+  id: string;
+  status: 'CREATED' | 'SAVED' | 'APPROVED' | 'VOIDED' | 'COMPLETED' | 'PAYER_ACTION_REQUIRED';
+  links: Array<{ href: string; rel: string; method: string }>;
+  purchase_units?: Array<{
+    reference_id?: string;
+    custom_id?: string;
+    payments?: {
+      captures?: Array<{
+        id: string;
+        status: string;
+        custom_id?: string;
+        amount: { currency_code: string; value: string };
+      }>;
+    };
+  }>;
+}
+
+let accessToken: { value: string; expiresAt: number } | null = null;
+
+/**
+ * Check whether PayPal credentials are present
+ */
+export function isPayPalConfigured(): boolean {
+  return Boolean(PAYPAL_CLIENT_ID && PAYPAL_CLIENT_SECRET);
+}
+
+/**
+ * Get an OAuth access token (cached until shortly before it expires)
+ */
+async function getAccessToken(): Promise<string> {
+  if (!PAYPAL_CLIENT_ID || !PAYPAL_CLIENT_SECRET) {
+    throw new PayPalError('PayPal is not configured. Check your environment variables.', 500);
+  }
+
+  if (accessToken && accessToken.expiresAt > Date.now()) {
+    return accessToken.value;
+  }
+
+  const auth = Buffer.from(`${PAYPAL_CLIENT_ID}:${PAYPAL_CLIENT_SECRET}`).toString('base64');
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${auth}`,
+    },
+    body: 'grant_type=client_credentials',
+    cache: 'no-store',
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new PayPalError(
+      data.error_description || 'PayPal authentication failed',
+      response.status,
+      data.error
+    );
+  }
+
+  accessToken = {
+    value: data.access_token,
+    // Refresh a minute early to avoid using a token as it expires
+    expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+  };
+
+  return accessToken.value;
+}
+
+async function paypalAPI<T>(
+  endpoint: string,
+  options: { method?: string; body?: unknown; requestId?: string } = {}
+): Promise<T> {
+  const token = await getAccessToken();
+
+  const response = await fetch(`${PAYPAL_API_BASE}${endpoint}`, {
+    method: options.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+      // Makes create/capture safe to retry
+      ...(options.requestId ? { 'PayPal-Request-Id': options.requestId } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    cache: 'no-store',
+  });
+
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : null;
+
+  if (!response.ok) {
+    throw new PayPalError(
+      data?.details?.[0]?.description || data?.message || `PayPal API Error: ${response.status}`,
+      response.status,
+      data?.details?.[0]?.issue || data?.name
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * Create a PayPal order for a pending WooCommerce order
+ * The WooCommerce order ID is stored as custom_id so captures can be matched back.
+ */
+export async function createPayPalOrder(
+  order: WCOrder,
+  urls: { returnUrl: string; cancelUrl: string }
+): Promise<PayPalOrder> {
+  return paypalAPI<PayPalOrder>('/v2/checkout/orders', {
+    method: 'POST',
+    requestId: `wc-order-${order.id}-${order.date_modified}`,
+    body: {
+      intent: 'CAPTURE',
+      purchase_units: [
+        {
+          reference_id: String(order.id),
+          custom_id: String(order.id),
+          invoice_id: `${order.number}-${order.order_key}`,
+          description: `Order #${order.number}`,
+          amount: {
+            currency_code: order.currency,
+            value: order.total,
+          },
+        },
+      ],
+      payment_source: {
+        paypal: {
+          experience_context: {
+            user_action: 'PAY_NOW',
+            shipping_preference: 'NO_SHIPPING',
+            return_url: urls.returnUrl,
+            cancel_url: urls.cancelUrl,
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Capture an approved PayPal order
+ */
+export async function capturePayPalOrder(paypalOrderId: string): Promise<PayPalOrder> {
+  return paypalAPI<PayPalOrder>(`/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}/capture`, {
+    method: 'POST',
+    requestId: `capture-${paypalOrderId}`,
+    body: {},
+  });
+}
+
+/**
+ * Refund a captured payment, fully or partially
+ */
+export async function refundPayPalCapture(
+  captureId: string,
+  amount?: { value: string; currency_code: string }
+): Promise<{ id: string; status: string }> {
+  return paypalAPI<{ id: string; status: string }>(
+    `/v2/payments/captures/${encodeURIComponent(captureId)}/refund`,
+    {
+      method: 'POST',
+      body: amount ? { amount } : {},
+    }
+  );
+}
+
+/**
+ * Get the URL the shopper must visit to approve a PayPal order
+ */
+export function getApprovalUrl(paypalOrder: PayPalOrder): string | null {
+  const link = paypalOrder.links.find((l) => l.rel === 'payer-action' || l.rel === 'approve');
+  return link?.href || null;
+}
+
+export { PayPalError };
@@ -0,0 +1,66 @@
+import { products, WooCommerceError } from '@/lib/woocommerce';
+import type { WCProduct, OrderLineItemInput } from '@/types/woocommerce';
+
+/**
+ * A line priced from live product data, as used by coupon and tax rules
+ */
+export interface PricedLine {
+  productIds: number[]; // The line's own ID plus its parent for variations
+  categoryIds: number[];
+  price: number; // As entered in WooCommerce (tax-inclusive if the store says so)
+  quantity: number;
+  onSale: boolean;
+  taxStatus: string; // taxable, shipping or none
+  taxClass: string; // Empty for the standard class
+  needsShipping: boolean; // False for virtual products
+  shippingClassId: number; // 0 without a shipping class
+}
+
+async function loadProduct(id: number): Promise<WCProduct | null> {
+  try {
+    return await products.get(id);
+  } catch (error) {
+    if (error instanceof WooCommerceError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Price line items from live product data
+ * Accepts cart lines (variation ID as product_id) and order lines (parent as
+ * product_id plus variation_id) alike.
+ */
+export async function getPricedLines(lineItems: OrderLineItemInput[]): Promise<PricedLine[]> {
+  const lines = await Promise.all(
+    lineItems.map(async (item): Promise<PricedLine | null> => {
+      const priced = await loadProduct(item.variation_id || item.product_id);
+      if (!priced) return null;
+
+      // Variations carry no categories of their own and may inherit their tax class
+      const parent =
+        priced.type === 'variation' && priced.parent_id ? await loadProduct(priced.parent_id) : priced;
+      const source = parent ?? priced;
+
+      return {
+        productIds: Array.from(new Set([priced.id, source.id])),
+        categoryIds: source.categories.map((category) => category.id),
+        price: parseFloat(priced.price) || 0,
+        quantity: item.quantity,
+        onSale: priced.on_sale,
+        taxStatus: source.tax_status,
+        taxClass: priced.tax_class === 'parent' ? source.tax_class : priced.tax_class,
+        needsShipping: priced.shipping_required,
+        shippingClassId: priced.shipping_class_id || 0,
+      };
+    })
+  );
+
+  return lines.filter((line): line is PricedLine => line !== null);
+}
+
+/**
+ * Sum of price × quantity over a set of lines
+ */
+export function getLinesSubtotal(lines: PricedLine[]): number {
+  return lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+}
@@ -0,0 +1,94 @@
+import { attributes, products } from '@/lib/woocommerce';
+import type { ProductsQueryParams } from '@/types/woocommerce';
+import type { FilterAttribute } from '@/types/filters';
+
+type SearchParams = Record<string, string | undefined>;
+
+const COLOR_TAXONOMIES = ['pa_color', 'pa_colour'];
+
+/**
+ * Load the global attributes and their terms for the filter sidebar
+ * Colour terms use a hex code from the term description when set, otherwise
+ * their slug as a CSS colour name.
+ */
+export async function getFilterAttributes(): Promise<FilterAttribute[]> {
+  const list = await attributes.list();
+
+  const withTerms = await Promise.all(
+    list.map(async (attribute): Promise<FilterAttribute> => {
+      const isColor = COLOR_TAXONOMIES.includes(attribute.slug);
+      const terms = await attributes.listTerms(attribute.id);
+
+      return {
+        id: attribute.id,
+        name: attribute.name,
+        taxonomy: attribute.slug,
+        param: `filter_${attribute.slug.replace(/^pa_/, '')}`,
+        isColor,
+        terms: terms.map((term) => ({
+          id: term.id,
+          name: term.name,
+          slug: term.slug,
+          count: term.count,
+          color: isColor
+            ? /^#[0-9a-f]{3,8}$/i.test(term.description.trim())
+              ? term.description.trim()
+              : term.slug
+            : undefined,
+        })),
+      };
+    })
+  );
+
+  return withTerms.filter((attribute) => attribute.terms.length > 0);
+}
+
+/**
+ * Read the selected term slugs for an attribute from the URL
+ */
+export function getSelectedTerms(searchParams: SearchParams, attribute: FilterAttribute): string[] {
+  return (searchParams[attribute.param] || '').split(',').filter(Boolean);
+}
+
+/**
+ * Build the product query for the filters in the URL
+ * The REST API only filters by one attribute, so further attributes are
+ * resolved to product IDs and intersected through `include`. Returns null
+ * when the combination can't match anything.
+ */
+export async function getFilteredQuery(
+  searchParams: SearchParams,
+  filterAttributes: FilterAttribute[]
+): Promise<ProductsQueryParams | null> {
+  const query: ProductsQueryParams = {
+    min_price: searchParams.min_price,
+    max_price: searchParams.max_price,
+    stock_status: searchParams.stock_status === 'instock' ? 'instock' : undefined,
+    on_sale: searchParams.on_sale === 'true' ? true : undefined,
+  };
+
+  const selected = filterAttributes
+    .map((attribute) => {
+      const slugs = getSelectedTerms(searchParams, attribute);
+      const termIds = attribute.terms.filter((term) => slugs.includes(term.slug)).map((term) => term.id);
+      return { taxonomy: attribute.taxonomy, termIds };
+    })
+    .filter((attribute) => attribute.termIds.length > 0);
+
+  if (selected.length === 0) return query;
+
+  const [first, ...rest] = selected;
+  query.attribute = first.taxonomy;
+  query.attribute_term = first.termIds.join(',');
+
+  if (rest.length > 0) {
+    const idLists = await Promise.all(
+      rest.map((attribute) => products.listIdsByAttribute(attribute.taxonomy, attribute.termIds))
+    );
+    const include = idLists.reduce((ids, list) => ids.filter((id) => list.includes(id)));
+    if (include.length === 0) return null;
+    query.include = include;
+  }
+
+  return query;
+}
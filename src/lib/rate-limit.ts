@@ -0,0 +1,131 @@
+/**
+ * Counter storage used for rate limiting and session revocation
+ * The in-memory store works for a single server; pass a Redis client through
+ * createRedisStore to share limits and revoked sessions between instances.
+ */
+export interface RateLimitStore {
+  /** Increment a counter, starting a window of ttlSeconds when it is new */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The subset of Redis commands the Redis store needs (ioredis and node-redis style clients)
+ */
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Keep counters in process memory, dropping them once they expire
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const prune = () => {
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= Date.now()) entries.delete(key);
+    });
+  };
+
+  return {
+    async increment(key, ttlSeconds) {
+      const entry = read(key);
+      const count = (entry ? parseInt(entry.value, 10) || 0 : 0) + 1;
+
+      if (!entry) prune();
+      entries.set(key, {
+        value: String(count),
+        expiresAt: entry?.expiresAt ?? Date.now() + ttlSeconds * 1000,
+      });
+
+      return count;
+    },
+
+    async get(key) {
+      return read(key)?.value ?? null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      if (!entries.has(key)) prune();
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Keep counters in Redis (or anything speaking the same commands)
+ */
+export function createRedisStore(client: RedisLikeClient, prefix: string = 'rate-limit:'): RateLimitStore {
+  return {
+    async increment(key, ttlSeconds) {
+      const count = await client.incr(prefix + key);
+      if (count === 1) await client.expire(prefix + key, ttlSeconds);
+      return count;
+    },
+
+    get: (key) => client.get(prefix + key),
+
+    async set(key, value, ttlSeconds) {
+      await client.set(prefix + key, value, 'EX', ttlSeconds);
+    },
+
+    async delete(key) {
+      await client.del(prefix + key);
+    },
+  };
+}
+
+/**
+ * The client IP, as reported by the proxies in front of the app
+ * Set CLIENT_IP_HEADER to a header the platform sets itself (x-nf-client-connection-ip
+ * on Netlify); otherwise X-Forwarded-For is read from the right, skipping the hops added
+ * by the TRUSTED_PROXY_COUNT proxies (default 1), as anything further left is client-supplied.
+ */
+export function getClientIp(request: { headers: Pick<Headers, 'get'> }): string {
+  const header = process.env.CLIENT_IP_HEADER;
+  if (header) return request.headers.get(header)?.trim() || 'unknown';
+
+  const trustedProxies = parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10);
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  if (!(trustedProxies > 0) || hops.length === 0) return 'unknown';
+  return hops[Math.max(0, hops.length - trustedProxies)];
+}
+
+// Held on globalThis so the proxy and route handler bundles share one store per process
+const holder = globalThis as typeof globalThis & { rateLimitStore?: RateLimitStore };
+
+/**
+ * Swap the store used for rate limiting and revoked sessions (e.g. for a shared Redis instance)
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  holder.rateLimitStore = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  holder.rateLimitStore ??= createMemoryStore();
+  return holder.rateLimitStore;
+}
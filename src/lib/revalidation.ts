@@ -0,0 +1,115 @@
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { cacheTags } from '@/lib/cache-tags';
+import { getProductUrl } from '@/lib/utils';
+import type { WCOrder, WCProduct } from '@/types/woocommerce';
+
+/**
+ * A WordPress content change, as posted by the site (see the README for a sender)
+ */
+export interface ContentUpdate {
+  type: 'page' | 'menu' | 'settings';
+  slug?: string; // Pages only
+  previousSlug?: string; // When a page's slug changed
+}
+
+/**
+ * The cache tags and paths a change makes stale
+ */
+export interface Revalidation {
+  tags: string[];
+  paths: string[];
+}
+
+// WordPress actions behind "Action" webhooks (topic action.<name>) for category changes
+const CATEGORY_ACTIONS = ['created_product_cat', 'edited_product_cat', 'delete_product_cat'];
+
+/**
+ * What a product change makes stale
+ * Variations change their parent's page and the price range and stock listings show.
+ */
+function forProduct(product: WCProduct, topic: string): Revalidation {
+  if (product.parent_id) {
+    return { tags: [cacheTags.products, cacheTags.product(product.parent_id)], paths: [] };
+  }
+
+  const tags = [cacheTags.products, cacheTags.product(product.id)];
+  const paths: string[] = [];
+
+  if (product.slug) {
+    tags.push(cacheTags.productSlug(product.slug));
+    paths.push(getProductUrl(product.slug));
+  } else {
+    // Deletions only carry the ID, so every product page is refreshed
+    paths.push('/product/[slug]');
+  }
+
+  // Category product counts change when products come and go
+  if (topic !== 'product.updated') tags.push(cacheTags.categories);
+
+  return { tags, paths };
+}
+
+/**
+ * What an order makes stale: the stock of the products in it, on their
+ * pages and in listings
+ */
+function forOrder(order: WCOrder): Revalidation {
+  const ids = new Set((order.line_items || []).map((item) => item.product_id).filter(Boolean));
+  if (ids.size === 0) return { tags: [], paths: [] };
+
+  return { tags: [cacheTags.products, ...Array.from(ids, (id) => cacheTags.product(id))], paths: [] };
+}
+
+/**
+ * Map a WooCommerce webhook to what it makes stale, or null for topics that
+ * don't affect anything cached
+ */
+export function getWooCommerceRevalidation(topic: string, payload: unknown): Revalidation | null {
+  const [resource, event = ''] = topic.split('.');
+
+  if (resource === 'product') {
+    return forProduct(payload as WCProduct, topic);
+  }
+
+  if (resource === 'order' && (event === 'created' || event === 'updated')) {
+    return forOrder(payload as WCOrder);
+  }
+
+  if (resource === 'action' && CATEGORY_ACTIONS.includes(event)) {
+    return { tags: [cacheTags.categories], paths: [] };
+  }
+
+  return null;
+}
+
+/**
+ * Map a WordPress content update to what it makes stale
+ */
+export function getContentRevalidation(update: ContentUpdate): Revalidation | null {
+  switch (update.type) {
+    case 'page': {
+      if (!update.slug) return null;
+      const slugs = [update.slug, update.previousSlug].filter((slug): slug is string => Boolean(slug));
+      return {
+        // The page list feeds the footer links
+        tags: [cacheTags.pages, ...slugs.map(cacheTags.page)],
+        paths: slugs.map((slug) => `/${slug}`),
+      };
+    }
+    case 'menu':
+      return { tags: [cacheTags.menus], paths: [] };
+    case 'settings':
+      return { tags: [cacheTags.siteSettings], paths: [] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Expire the cached data and pages, so the next request fetches them fresh
+ */
+export function revalidate({ tags, paths }: Revalidation): void {
+  tags.forEach((tag) => revalidateTag(tag, { expire: 0 }));
+  // Route patterns such as /product/[slug] need the type to cover every page they match
+  paths.forEach((path) => (path.includes('[') ? revalidatePath(path, 'page') : revalidatePath(path)));
+}
@@ -0,0 +1,216 @@
+import { revalidateTag } from 'next/cache';
+import { reviews, orders, settings } from '@/lib/woocommerce';
+import { cacheTags } from '@/lib/cache-tags';
+import { stripHtml } from '@/lib/utils';
+import type { WCCustomer, WCProduct, WCProductReview, WCSettingOption } from '@/types/woocommerce';
+import type { ProductReview, ReviewPermissions, ReviewSort, ReviewSummary, ReviewsPage } from '@/types/review';
+
+export type ReviewErrorCode =
+  | 'reviews_disabled'
+  | 'verified_owner_required'
+  | 'already_reviewed'
+  | 'invalid_rating'
+  | 'invalid_review';
+
+class ReviewError extends Error {
+  code: ReviewErrorCode;
+  status: number;
+
+  constructor(message: string, code: ReviewErrorCode, status: number = 400) {
+    super(message);
+    this.name = 'ReviewError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const REVIEWS_PER_PAGE = 5;
+
+export const REVIEW_SORTS: ReviewSort[] = ['newest', 'oldest', 'highest', 'lowest'];
+
+// Orders that count as having bought the product
+const PURCHASED_STATUSES = ['processing', 'completed'];
+
+interface ReviewSettings {
+  enabled: boolean;
+  ratingsEnabled: boolean;
+  verifiedOwnersOnly: boolean;
+}
+
+function getOption(options: WCSettingOption[], id: string): string {
+  return options.find((option) => option.id === id)?.value ?? '';
+}
+
+/**
+ * Load the store's review settings (WooCommerce > Settings > Products)
+ */
+export async function getReviewSettings(): Promise<ReviewSettings> {
+  const options = await settings.list('products');
+
+  return {
+    enabled: getOption(options, 'woocommerce_enable_reviews') !== 'no',
+    ratingsEnabled: getOption(options, 'woocommerce_enable_review_rating') !== 'no',
+    verifiedOwnersOnly: getOption(options, 'woocommerce_review_rating_verification_required') === 'yes',
+  };
+}
+
+function toProductReview(review: WCProductReview): ProductReview {
+  return {
+    id: review.id,
+    reviewer: review.reviewer,
+    rating: review.rating,
+    review: stripHtml(review.review),
+    date: review.date_created,
+    verified: review.verified,
+  };
+}
+
+/**
+ * Count reviews per star rating; unrated reviews don't affect the average
+ */
+export function summarizeReviews(productReviews: ProductReview[]): ReviewSummary {
+  const histogram: ReviewSummary['histogram'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let total = 0;
+  let count = 0;
+
+  for (const { rating } of productReviews) {
+    if (rating >= 1 && rating <= 5) {
+      histogram[rating as keyof ReviewSummary['histogram']]++;
+      total += rating;
+      count++;
+    }
+  }
+
+  return { average: count ? Math.round((total / count) * 100) / 100 : 0, count, histogram };
+}
+
+function sortReviews(productReviews: ProductReview[], sort: ReviewSort): ProductReview[] {
+  const byDate = (a: ProductReview, b: ProductReview) => b.date.localeCompare(a.date);
+
+  return [...productReviews].sort((a, b) => {
+    switch (sort) {
+      case 'oldest':
+        return -byDate(a, b);
+      case 'highest':
+        return b.rating - a.rating || byDate(a, b);
+      case 'lowest':
+        return a.rating - b.rating || byDate(a, b);
+      default:
+        return byDate(a, b);
+    }
+  });
+}
+
+/**
+ * Get one sorted page of a product's approved reviews with the rating summary
+ */
+export async function getReviewsPage(
+  productId: number,
+  options: { page?: number; sort?: ReviewSort } = {}
+): Promise<ReviewsPage> {
+  const sort = options.sort && REVIEW_SORTS.includes(options.sort) ? options.sort : 'newest';
+  const all = (await reviews.listAllForProduct(productId)).map(toProductReview);
+  const totalPages = Math.max(1, Math.ceil(all.length / REVIEWS_PER_PAGE));
+  const page = Math.min(Math.max(1, options.page || 1), totalPages);
+
+  return {
+    reviews: sortReviews(all, sort).slice((page - 1) * REVIEWS_PER_PAGE, page * REVIEWS_PER_PAGE),
+    summary: summarizeReviews(all),
+    sort,
+    page,
+    totalPages,
+  };
+}
+
+/**
+ * Whether the customer has a paid order containing the product
+ */
+export async function hasPurchasedProduct(customer: WCCustomer, productId: number): Promise<boolean> {
+  const customerOrders = await orders.listByCustomer(customer.id, { per_page: 100 });
+
+  return customerOrders.some(
+    (order) =>
+      PURCHASED_STATUSES.includes(order.status) &&
+      order.line_items.some((item) => item.product_id === productId)
+  );
+}
+
+/**
+ * Work out whether a customer may review a product
+ */
+export async function getReviewPermissions(
+  product: WCProduct,
+  customer: WCCustomer | null
+): Promise<ReviewPermissions> {
+  const reviewSettings = await getReviewSettings();
+
+  if (!reviewSettings.enabled || !product.reviews_allowed) {
+    return { enabled: false, canReview: false, verifiedOwner: false };
+  }
+
+  if (!customer) {
+    return { enabled: true, canReview: false, reason: 'sign_in_required', verifiedOwner: false };
+  }
+
+  const [verifiedOwner, existing] = await Promise.all([
+    hasPurchasedProduct(customer, product.id),
+    reviews.listAllForProduct(product.id),
+  ]);
+
+  if (existing.some((review) => review.reviewer_email.toLowerCase() === customer.email.toLowerCase())) {
+    return { enabled: true, canReview: false, reason: 'already_reviewed', verifiedOwner };
+  }
+
+  if (reviewSettings.verifiedOwnersOnly && !verifiedOwner) {
+    return { enabled: true, canReview: false, reason: 'verified_owner_required', verifiedOwner };
+  }
+
+  return { enabled: true, canReview: true, verifiedOwner };
+}
+
+/**
+ * Post a customer's review of a product
+ * The review is attributed to the account email, which WooCommerce uses to
+ * mark reviews from verified owners.
+ */
+export async function submitReview(
+  product: WCProduct,
+  customer: WCCustomer,
+  input: { rating: number; review: string }
+): Promise<ProductReview & { status: WCProductReview['status'] }> {
+  const rating = Math.round(input.rating);
+  if (!(rating >= 1 && rating <= 5)) {
+    throw new ReviewError('Please choose a rating from 1 to 5 stars.', 'invalid_rating');
+  }
+
+  const text = typeof input.review === 'string' ? input.review.trim() : '';
+  if (text.length < 10 || text.length > 5000) {
+    throw new ReviewError('Reviews must be between 10 and 5000 characters.', 'invalid_review');
+  }
+
+  const permissions = await getReviewPermissions(product, customer);
+
+  if (!permissions.canReview) {
+    if (permissions.reason === 'already_reviewed') {
+      throw new ReviewError('You have already reviewed this product.', 'already_reviewed', 409);
+    }
+    if (permissions.reason === 'verified_owner_required') {
+      throw new ReviewError('Only customers who bought this product can review it.', 'verified_owner_required', 403);
+    }
+    throw new ReviewError('Reviews are closed for this product.', 'reviews_disabled', 403);
+  }
+
+  const created = await reviews.create({
+    product_id: product.id,
+    review: text,
+    reviewer: `${customer.first_name} ${customer.last_name}`.trim() || customer.username,
+    reviewer_email: customer.email,
+    rating,
+  });
+
+  revalidateTag(cacheTags.productReviews(product.id), { expire: 0 });
+
+  return { ...toProductReview(created), verified: created.verified || permissions.verifiedOwner, status: created.status };
+}
+
+export { ReviewError };
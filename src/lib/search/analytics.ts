@@ -0,0 +1,277 @@
+import { constants } from 'fs';
+import { access, appendFile, mkdir, readFile, rename, stat } from 'fs/promises';
+import path from 'path';
+import { headers } from 'next/headers';
+import { after } from 'next/server';
+import { getClientIp, getRateLimitStore } from '@/lib/rate-limit';
+import { getSearchIndex } from './catalog';
+import { normalize } from './text';
+import type { SearchEvent, SearchQueryStats, SearchReport, ZeroResultQuery } from '@/types/search';
+
+/**
+ * Storage for search events
+ * Events go to a JSON Lines file by default; pass a SQLite database through
+ * createSqliteSink to query larger volumes, or implement this for anything else.
+ */
+export interface SearchAnalyticsSink {
+  record(event: SearchEvent): Promise<void>;
+  /** Events recorded at or after the given timestamp, oldest first */
+  list(since: number): Promise<SearchEvent[]>;
+}
+
+/**
+ * The subset of a SQLite database the SQLite sink needs (better-sqlite3 and node:sqlite style)
+ */
+export interface SqliteLikeDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+async function readLines(filePath: string): Promise<string[]> {
+  try {
+    return (await readFile(filePath, 'utf8')).split('\n').filter(Boolean);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Append events to a JSON Lines file
+ * Once the file passes maxBytes it is rotated to <file>.1, replacing the previous
+ * one, so the log (and what reports read into memory) stays bounded. The file needs
+ * a writable disk shared by every request: when the directory can't be written
+ * (serverless hosting such as Netlify), that is reported once and events are dropped.
+ */
+export function createFileSink(filePath: string, maxBytes: number = 10 * 1024 * 1024): SearchAnalyticsSink {
+  const directory = path.dirname(filePath);
+  const rotatedPath = `${filePath}.1`;
+  let writable: Promise<boolean> | null = null;
+
+  const checkWritable = () =>
+    (writable ??= mkdir(directory, { recursive: true })
+      .then(() => access(directory, constants.W_OK))
+      .then(
+        () => true,
+        (error) => {
+          console.error(
+            `Search analytics are off: ${directory} is not writable (${(error as NodeJS.ErrnoException).code}). ` +
+              'Keep events in SQLite or an external store with setSearchAnalyticsSink.'
+          );
+          return false;
+        }
+      ));
+
+  return {
+    async record(event) {
+      if (!(await checkWritable())) return;
+
+      const size = await stat(filePath).then((stats) => stats.size, () => 0);
+      if (size >= maxBytes) await rename(filePath, rotatedPath);
+
+      await appendFile(filePath, `${JSON.stringify(event)}\n`);
+    },
+
+    async list(since) {
+      const lines = [...(await readLines(rotatedPath)), ...(await readLines(filePath))];
+
+      return lines
+        .map((line) => JSON.parse(line) as SearchEvent)
+        .filter((event) => event.at >= since);
+    },
+  };
+}
+
+/**
+ * Keep events in a SQLite table, created on first use
+ */
+export function createSqliteSink(db: SqliteLikeDatabase, table: string = 'search_events'): SearchAnalyticsSink {
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (type TEXT NOT NULL, query TEXT NOT NULL, results INTEGER, product_id INTEGER, at INTEGER NOT NULL);
+     CREATE INDEX IF NOT EXISTS ${table}_at ON ${table} (at)`
+  );
+
+  const insert = db.prepare(`INSERT INTO ${table} (type, query, results, product_id, at) VALUES (?, ?, ?, ?, ?)`);
+  const select = db.prepare(`SELECT type, query, results, product_id, at FROM ${table} WHERE at >= ? ORDER BY at`);
+
+  return {
+    async record(event) {
+      insert.run(event.type, event.query, event.results ?? null, event.productId ?? null, event.at);
+    },
+
+    async list(since) {
+      const rows = select.all(since) as Array<{
+        type: SearchEvent['type'];
+        query: string;
+        results: number | null;
+        product_id: number | null;
+        at: number;
+      }>;
+
+      return rows.map((row) => ({
+        type: row.type,
+        query: row.query,
+        results: row.results ?? undefined,
+        productId: row.product_id ?? undefined,
+        at: row.at,
+      }));
+    },
+  };
+}
+
+// Events recorded per client IP within the window; the rest are dropped quietly
+const CLIENT_EVENT_LIMIT = 60;
+const CLIENT_EVENT_WINDOW = 60;
+
+// Trending searches look back this far, and are recomputed this often
+const TRENDING_PERIOD = 7 * 24 * 60 * 60 * 1000;
+const TRENDING_TTL = 5 * 60 * 1000;
+
+let trending: { queries: string[]; expiresAt: number } | null = null;
+
+let sink: SearchAnalyticsSink = createFileSink(
+  process.env.SEARCH_ANALYTICS_FILE || path.join(process.cwd(), '.data', 'search-events.jsonl')
+);
+
+/**
+ * Swap where search events are kept (e.g. for a SQLite database)
+ */
+export function setSearchAnalyticsSink(next: SearchAnalyticsSink): void {
+  sink = next;
+  trending = null;
+}
+
+export function getSearchAnalyticsSink(): SearchAnalyticsSink {
+  return sink;
+}
+
+/**
+ * Normalize a query so different spellings of the same search count together
+ */
+export function normalizeQuery(query: string): string {
+  return normalize(query).replace(/\s+/g, ' ').trim().slice(0, 100);
+}
+
+/**
+ * Record a search event without letting a storage failure break the request
+ */
+export async function recordSearchEvent(event: Omit<SearchEvent, 'at'>): Promise<void> {
+  const query = normalizeQuery(event.query);
+  if (!query) return;
+
+  try {
+    await sink.record({ ...event, query, at: Date.now() });
+  } catch (error) {
+    console.error('Error recording search event:', error);
+  }
+}
+
+/**
+ * Record an event sent by a shopper, within the per-IP limit so one client
+ * can't flood the log
+ */
+export async function recordClientSearchEvent(ip: string, event: Omit<SearchEvent, 'at'>): Promise<void> {
+  const count = await getRateLimitStore().increment(`search-events:ip:${ip}`, CLIENT_EVENT_WINDOW);
+  if (count <= CLIENT_EVENT_LIMIT) await recordSearchEvent(event);
+}
+
+/**
+ * Record a search run on the shop pages, once the page has been sent
+ * Only searches shoppers commit to are recorded, not each pause while typing in the overlay.
+ */
+export async function trackShopSearch(query: string, results: number): Promise<void> {
+  const ip = getClientIp({ headers: await headers() });
+  after(() => recordClientSearchEvent(ip, { type: 'search', query, results }));
+}
+
+/**
+ * Summarize searches since a timestamp: the most searched queries, those
+ * that found nothing, and how often searching led to a click or an add to cart
+ */
+export async function getSearchReport(since: number, limit: number = 20): Promise<SearchReport> {
+  const events = await sink.list(since);
+
+  const stats = new Map<string, SearchQueryStats & { totalResults: number }>();
+  const zeroResults = new Map<string, ZeroResultQuery>();
+  const totals = { searches: 0, zeroResultSearches: 0, clicks: 0, addsToCart: 0, conversionRate: 0 };
+
+  for (const event of events) {
+    const entry = stats.get(event.query) ?? {
+      query: event.query,
+      searches: 0,
+      averageResults: 0,
+      totalResults: 0,
+      clicks: 0,
+      addsToCart: 0,
+      clickRate: 0,
+      conversionRate: 0,
+    };
+    stats.set(event.query, entry);
+
+    if (event.type === 'search') {
+      entry.searches++;
+      entry.totalResults += event.results ?? 0;
+      totals.searches++;
+
+      if (!event.results) {
+        const zero = zeroResults.get(event.query) ?? { query: event.query, searches: 0, lastSearchedAt: 0 };
+        zero.searches++;
+        zero.lastSearchedAt = Math.max(zero.lastSearchedAt, event.at);
+        zeroResults.set(event.query, zero);
+        totals.zeroResultSearches++;
+      }
+    } else if (event.type === 'click') {
+      entry.clicks++;
+      totals.clicks++;
+    } else {
+      entry.addsToCart++;
+      totals.addsToCart++;
+    }
+  }
+
+  const rate = (count: number, searches: number) => (searches ? Math.round((count / searches) * 1000) / 1000 : 0);
+  totals.conversionRate = rate(totals.addsToCart, totals.searches);
+
+  const topQueries = Array.from(stats.values())
+    .filter((entry) => entry.searches > 0)
+    .sort((a, b) => b.searches - a.searches || a.query.localeCompare(b.query))
+    .slice(0, limit)
+    .map(({ totalResults, ...entry }) => ({
+      ...entry,
+      averageResults: Math.round((totalResults / entry.searches) * 10) / 10,
+      clickRate: rate(entry.clicks, entry.searches),
+      conversionRate: rate(entry.addsToCart, entry.searches),
+    }));
+
+  const zeroResultQueries = Array.from(zeroResults.values())
+    .sort((a, b) => b.searches - a.searches || b.lastSearchedAt - a.lastSearchedAt)
+    .slice(0, limit);
+
+  return { since, totals, topQueries, zeroResultQueries };
+}
+
+/**
+ * This week's most searched queries that found products
+ * One-off queries are left out, as they are mostly typos and half-typed words. Queries
+ * are shown to every shopper, so only those made up of catalogue words qualify;
+ * anything else anyone typed (twice) stays out of the overlay.
+ */
+export async function getTrendingQueries(limit: number = 5): Promise<string[]> {
+  if (!trending || trending.expiresAt <= Date.now()) {
+    const [{ topQueries }, searchIndex] = await Promise.all([
+      getSearchReport(Date.now() - TRENDING_PERIOD, 50),
+      getSearchIndex(),
+    ]);
+    trending = {
+      queries: topQueries
+        .filter((entry) => entry.searches > 1 && entry.averageResults > 0)
+        .filter((entry) => searchIndex.matchesCatalog(entry.query))
+        .map((entry) => entry.query),
+      expiresAt: Date.now() + TRENDING_TTL,
+    };
+  }
+  return trending.queries.slice(0, limit);
+}
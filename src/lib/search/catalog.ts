@@ -0,0 +1,241 @@
+import { cache } from 'react';
+import { products } from '@/lib/woocommerce';
+import { createSearchIndex, type SearchDocument, type SearchIndex, type SearchIndexResult } from './index';
+import { createMemoryIndexStore, type SearchIndexSnapshot, type SearchIndexStore } from './store';
+import type { ProductsQueryParams, WCProduct } from '@/types/woocommerce';
+import type { SearchResponse } from '@/types/search';
+
+// Rebuild from the catalogue this often, in case a webhook was missed (seconds)
+const INDEX_TTL = parseInt(process.env.SEARCH_INDEX_TTL || '', 10) || 3600;
+
+// The most search results the shop page pages through
+const MAX_SHOP_RESULTS = 500;
+
+let store: SearchIndexStore = createMemoryIndexStore();
+
+// This instance's copy of the stored index
+let index: SearchIndex | null = null;
+let builtAt = 0;
+let updatedAt = 0;
+let building: Promise<SearchIndex> | null = null;
+let syncing: Promise<void> | null = null;
+
+/**
+ * Swap where the search index is kept (e.g. for a shared Redis instance)
+ */
+export function setSearchIndexStore(next: SearchIndexStore): void {
+  store = next;
+  index = null;
+  builtAt = 0;
+  updatedAt = 0;
+}
+
+/**
+ * Whether a product should turn up in search results
+ */
+function isSearchable(product: WCProduct): boolean {
+  return product.status === 'publish' && (product.catalog_visibility === 'visible' || product.catalog_visibility === 'search');
+}
+
+/**
+ * Describe a product for the index
+ */
+export function toSearchDocument(product: WCProduct): SearchDocument {
+  return {
+    id: product.id,
+    name: product.name,
+    sku: product.sku || '',
+    categories: product.categories.map((category) => ({ slug: category.slug, name: category.name })),
+    tags: product.tags.map((tag) => tag.name),
+    attributes: product.attributes
+      .filter((attribute) => attribute.visible || attribute.variation)
+      .map((attribute) => ({ name: attribute.name, options: attribute.options })),
+    inStock: product.stock_status !== 'outofstock',
+    onSale: product.on_sale,
+    popularity: product.total_sales || 0,
+    hit: {
+      id: product.id,
+      name: product.name,
+      slug: product.slug,
+      price: product.price,
+      regular_price: product.regular_price,
+      sale_price: product.sale_price,
+      on_sale: product.on_sale,
+      image: product.images?.[0]?.src || null,
+      stock_status: product.stock_status,
+    },
+  };
+}
+
+/**
+ * Describe every published product, a page at a time
+ */
+async function crawlCatalog(): Promise<SearchDocument[]> {
+  const documents: SearchDocument[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const result = await products.listPaginated({ status: 'publish', per_page: 100, page });
+    result.items.filter(isSearchable).forEach((product) => documents.push(toSearchDocument(product)));
+    totalPages = result.totalPages;
+    page++;
+  } while (page <= totalPages);
+
+  return documents;
+}
+
+/**
+ * Replace this instance's index with a stored snapshot
+ */
+function applySnapshot(snapshot: SearchIndexSnapshot): SearchIndex {
+  const next = createSearchIndex();
+  snapshot.documents.forEach((doc) => next.upsert(doc));
+
+  index = next;
+  builtAt = snapshot.builtAt;
+  updatedAt = snapshot.updatedAt;
+  return next;
+}
+
+/**
+ * Store the current index after a change, so other instances pick it up
+ */
+async function persist(): Promise<void> {
+  if (!index) return;
+
+  // Later than the snapshot this change was made to, even within the same millisecond
+  updatedAt = Math.max(Date.now(), updatedAt + 1);
+  await store.save({ documents: index.all(), builtAt, updatedAt });
+}
+
+/**
+ * Load the stored index when it is newer than this instance's copy, so
+ * instances share one crawl and each other's webhook updates
+ */
+function sync(): Promise<void> {
+  if (!syncing) {
+    syncing = (async () => {
+      const storedAt = await store.getUpdatedAt();
+      if (storedAt === null || storedAt <= updatedAt) return;
+
+      const snapshot = await store.load();
+      if (snapshot) applySnapshot(snapshot);
+    })()
+      .catch((error) => console.error('Error loading search index:', error))
+      .finally(() => {
+        syncing = null;
+      });
+  }
+  return syncing;
+}
+
+/**
+ * Start a rebuild unless one is already running, swapping the index in and
+ * storing it when it finishes
+ */
+function rebuild(): Promise<SearchIndex> {
+  if (!building) {
+    building = crawlCatalog()
+      .then(async (documents) => {
+        const now = Date.now();
+        const snapshot = { documents, builtAt: now, updatedAt: now };
+        const next = applySnapshot(snapshot);
+        await store.save(snapshot);
+        return next;
+      })
+      .finally(() => {
+        building = null;
+      });
+  }
+  return building;
+}
+
+/**
+ * The search index, loaded from the store or built on first use
+ * A stale index keeps answering while its replacement is built in the background.
+ */
+export async function getSearchIndex(): Promise<SearchIndex> {
+  await sync();
+  if (!index) return rebuild();
+
+  if (Date.now() - builtAt > INDEX_TTL * 1000) {
+    rebuild().catch((error) => console.error('Error rebuilding search index:', error));
+  }
+  return index;
+}
+
+/**
+ * Bring a changed product up to date in the index
+ * Variations are indexed through their parent, which is refetched.
+ */
+export async function upsertProduct(product: WCProduct): Promise<void> {
+  // Nothing to update until the index is first needed
+  await sync();
+  if (!index) return;
+
+  const target = product.parent_id ? await products.get(product.parent_id, { fresh: true }) : product;
+
+  if (isSearchable(target)) {
+    index.upsert(toSearchDocument(target));
+  } else {
+    index.remove(target.id);
+  }
+  await persist();
+}
+
+/**
+ * Drop a deleted product from the index
+ */
+export async function removeProduct(id: number): Promise<void> {
+  await sync();
+  if (!index?.get(id)) return;
+
+  index.remove(id);
+  await persist();
+}
+
+/**
+ * Results for the search overlay
+ */
+export async function searchProducts(query: string, limit: number = 8): Promise<SearchResponse> {
+  const searchIndex = await getSearchIndex();
+  const { ids, facets, didYouMean } = searchIndex.search(query);
+
+  return {
+    products: ids.slice(0, limit).map((id) => searchIndex.get(id)!.hit),
+    total: ids.length,
+    suggestions: searchIndex.suggest(query, 5),
+    didYouMean,
+    facets,
+  };
+}
+
+/**
+ * Search the index for the shop pages, or null when it can't be built
+ * (the page then falls back to WooCommerce's own search)
+ */
+export const searchCatalog = cache(async (query: string): Promise<SearchIndexResult | null> => {
+  try {
+    return (await getSearchIndex()).search(query);
+  } catch (error) {
+    console.error('Error building search index:', error);
+    return null;
+  }
+});
+
+/**
+ * Narrow a product query to search results, ranked by relevance unless
+ * another sort was chosen. Returns null when nothing matches.
+ */
+export function withSearchResults(query: ProductsQueryParams, results: SearchIndexResult): ProductsQueryParams | null {
+  let ids = results.ids.slice(0, MAX_SHOP_RESULTS);
+  if (query.include) {
+    const allowed = new Set(query.include);
+    ids = ids.filter((id) => allowed.has(id));
+  }
+
+  if (ids.length === 0) return null;
+
+  return { ...query, include: ids, orderby: query.orderby || 'include' };
+}
@@ -0,0 +1,352 @@
+import { allowedTypos, editDistance, normalize, splitWords, stem, tokenize } from './text';
+import { getSynonyms } from './synonyms';
+import type { SearchFacets, SearchFacetValue, SearchHit } from '@/types/search';
+
+/**
+ * A product as the search index sees it
+ */
+export interface SearchDocument {
+  id: number;
+  name: string;
+  sku: string;
+  categories: Array<{ slug: string; name: string }>;
+  tags: string[];
+  attributes: Array<{ name: string; options: string[] }>;
+  inStock: boolean;
+  onSale: boolean;
+  popularity: number; // Total sales
+  hit: SearchHit; // What the search overlay shows
+}
+
+export interface SearchIndexResult {
+  ids: number[]; // Every match, best first
+  facets: SearchFacets;
+  didYouMean: string | null;
+}
+
+/**
+ * In-memory inverted index over the product catalogue
+ */
+export interface SearchIndex {
+  /** Add a product, replacing any earlier version of it */
+  upsert(doc: SearchDocument): void;
+  remove(id: number): void;
+  get(id: number): SearchDocument | undefined;
+  /** Every indexed document, e.g. to store the index elsewhere */
+  all(): SearchDocument[];
+  search(query: string): SearchIndexResult;
+  /** Completions of the last word of the query, most common first */
+  suggest(query: string, limit: number): string[];
+  /** Whether every word of the query is a catalogue word (or a synonym of one) as typed */
+  matchesCatalog(query: string): boolean;
+  size(): number;
+}
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS = {
+  name: 5,
+  sku: 4,
+  categories: 3,
+  tags: 2,
+  attributes: 2,
+};
+
+// How much each kind of term match counts, relative to an exact one
+const MATCH_WEIGHTS = {
+  exact: 1,
+  synonym: 0.9,
+  prefix: 0.7,
+  typo: [1, 0.6, 0.4], // By edit distance
+};
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  terms: Map<string, number>; // Term -> field weight
+  words: Set<string>; // Unstemmed words, for suggestions and corrections
+}
+
+/**
+ * Index terms of a document with the weight of the best field they occur in
+ */
+function getDocumentTerms(doc: SearchDocument): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of tokenize(text)) {
+      terms.set(term, Math.max(terms.get(term) ?? 0, weight));
+    }
+  };
+
+  add(doc.name, FIELD_WEIGHTS.name);
+  add(doc.sku, FIELD_WEIGHTS.sku);
+  // The whole SKU as one term too, so "ab-12-xl" matches "ab12xl"
+  const compactSku = normalize(doc.sku).replace(/[^a-z0-9]/g, '');
+  if (compactSku) terms.set(compactSku, FIELD_WEIGHTS.sku);
+
+  doc.categories.forEach((category) => add(category.name, FIELD_WEIGHTS.categories));
+  doc.tags.forEach((tag) => add(tag, FIELD_WEIGHTS.tags));
+  doc.attributes.forEach((attribute) => attribute.options.forEach((option) => add(option, FIELD_WEIGHTS.attributes)));
+
+  return terms;
+}
+
+/**
+ * Words worth suggesting: those from the name, categories, tags and attribute options
+ */
+function getDocumentWords(doc: SearchDocument): Set<string> {
+  const texts = [
+    doc.name,
+    ...doc.categories.map((category) => category.name),
+    ...doc.tags,
+    ...doc.attributes.flatMap((attribute) => attribute.options),
+  ];
+  return new Set(texts.flatMap(splitWords).filter((word) => word.length > 1 && !/^\d+$/.test(word)));
+}
+
+/**
+ * Sort facet counts, most common first
+ */
+function toFacetValues(counts: Map<string, { label: string; count: number }>): SearchFacetValue[] {
+  return Array.from(counts, ([value, { label, count }]) => ({ value, label, count })).sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label)
+  );
+}
+
+/**
+ * Create an empty search index
+ */
+export function createSearchIndex(): SearchIndex {
+  const documents = new Map<number, IndexedDocument>();
+  const postings = new Map<string, Map<number, number>>(); // Term -> document ID -> field weight
+  const words = new Map<string, number>(); // Word -> number of documents using it
+
+  const idf = (term: string) => Math.log(1 + documents.size / (postings.get(term)?.size || 1));
+
+  /**
+   * Index terms matching a query term, with how well they match
+   */
+  const matchTerm = (term: string, isLast: boolean): Map<string, number> => {
+    const matches = new Map<string, number>();
+    const consider = (candidate: string, weight: number) => {
+      if (postings.has(candidate) && weight > (matches.get(candidate) ?? 0)) {
+        matches.set(candidate, weight);
+      }
+    };
+
+    consider(term, MATCH_WEIGHTS.exact);
+    getSynonyms(term).forEach((synonym) => consider(synonym, MATCH_WEIGHTS.synonym));
+
+    // The word being typed may be unfinished
+    if (isLast && term.length >= 2) {
+      postings.forEach((_, candidate) => {
+        if (candidate.startsWith(term)) consider(candidate, MATCH_WEIGHTS.prefix);
+      });
+    }
+
+    // Only look for typos when the word isn't in the catalogue as spelled
+    const maxTypos = allowedTypos(term);
+    if (matches.size === 0 && maxTypos > 0) {
+      postings.forEach((_, candidate) => {
+        const distance = editDistance(term, candidate, maxTypos);
+        if (distance <= maxTypos) consider(candidate, MATCH_WEIGHTS.typo[distance]);
+      });
+    }
+
+    return matches;
+  };
+
+  /**
+   * The most common catalogue spelling of an index term, for "did you mean"
+   */
+  const displayWord = (term: string): string => {
+    let best = term;
+    let bestCount = 0;
+    words.forEach((count, word) => {
+      if (count > bestCount && stem(word) === term) {
+        best = word;
+        bestCount = count;
+      }
+    });
+    return best;
+  };
+
+  /**
+   * Whether a query term is in the catalogue as typed (or, for the word being typed, begins one)
+   */
+  const isKnown = (term: string, isLast: boolean): boolean => {
+    if (postings.has(term) || getSynonyms(term).some((synonym) => postings.has(synonym))) return true;
+    if (!isLast) return false;
+    for (const candidate of postings.keys()) {
+      if (candidate.startsWith(term)) return true;
+    }
+    return false;
+  };
+
+  /**
+   * The nearest index term within the typo allowance, preferring the more common one on ties
+   */
+  const closestTerm = (term: string): string | null => {
+    const maxTypos = allowedTypos(term);
+    let best: { term: string; distance: number; docs: number } | null = null;
+
+    for (const [candidate, docs] of postings) {
+      const distance = editDistance(term, candidate, maxTypos);
+      if (distance > maxTypos) continue;
+      if (!best || distance < best.distance || (distance === best.distance && docs.size > best.docs)) {
+        best = { term: candidate, distance, docs: docs.size };
+      }
+    }
+
+    return best?.term ?? null;
+  };
+
+  const getFacets = (ids: number[]): SearchFacets => {
+    const categories = new Map<string, { label: string; count: number }>();
+    const attributes = new Map<string, Map<string, { label: string; count: number }>>();
+    let inStock = 0;
+    let onSale = 0;
+
+    for (const id of ids) {
+      const doc = documents.get(id)!.doc;
+
+      doc.categories.forEach((category) => {
+        const entry = categories.get(category.slug) ?? { label: category.name, count: 0 };
+        entry.count++;
+        categories.set(category.slug, entry);
+      });
+
+      doc.attributes.forEach((attribute) => {
+        const values = attributes.get(attribute.name) ?? new Map();
+        attribute.options.forEach((option) => {
+          const entry = values.get(option) ?? { label: option, count: 0 };
+          entry.count++;
+          values.set(option, entry);
+        });
+        attributes.set(attribute.name, values);
+      });
+
+      if (doc.inStock) inStock++;
+      if (doc.onSale) onSale++;
+    }
+
+    return {
+      categories: toFacetValues(categories),
+      attributes: Array.from(attributes, ([name, values]) => ({ name, values: toFacetValues(values) })),
+      inStock,
+      onSale,
+    };
+  };
+
+  const index: SearchIndex = {
+    upsert(doc) {
+      index.remove(doc.id);
+
+      const entry: IndexedDocument = { doc, terms: getDocumentTerms(doc), words: getDocumentWords(doc) };
+      documents.set(doc.id, entry);
+
+      entry.terms.forEach((weight, term) => {
+        const docs = postings.get(term) ?? new Map<number, number>();
+        docs.set(doc.id, weight);
+        postings.set(term, docs);
+      });
+      entry.words.forEach((word) => words.set(word, (words.get(word) ?? 0) + 1));
+    },
+
+    remove(id) {
+      const entry = documents.get(id);
+      if (!entry) return;
+
+      documents.delete(id);
+      entry.terms.forEach((_, term) => {
+        const docs = postings.get(term);
+        docs?.delete(id);
+        if (docs?.size === 0) postings.delete(term);
+      });
+      entry.words.forEach((word) => {
+        const count = (words.get(word) ?? 1) - 1;
+        if (count > 0) words.set(word, count);
+        else words.delete(word);
+      });
+    },
+
+    get(id) {
+      return documents.get(id)?.doc;
+    },
+
+    all() {
+      return Array.from(documents.values(), (entry) => entry.doc);
+    },
+
+    search(query) {
+      const terms = tokenize(query);
+      if (terms.length === 0) {
+        return { ids: [], facets: getFacets([]), didYouMean: null };
+      }
+
+      // Best score of each query term in each document
+      const termScores = terms.map((term, i) => {
+        const scores = new Map<number, number>();
+        matchTerm(term, i === terms.length - 1).forEach((matchWeight, candidate) => {
+          const weight = matchWeight * idf(candidate);
+          postings.get(candidate)!.forEach((fieldWeight, id) => {
+            scores.set(id, Math.max(scores.get(id) ?? 0, fieldWeight * weight));
+          });
+        });
+        return scores;
+      });
+
+      // Prefer documents matching every term, falling back to any term
+      const all = Array.from(termScores[0].keys()).filter((id) => termScores.every((scores) => scores.has(id)));
+      const candidates = all.length > 0 ? all : Array.from(new Set(termScores.flatMap((scores) => Array.from(scores.keys()))));
+
+      const scored = candidates.map((id) => {
+        const doc = documents.get(id)!.doc;
+        const relevance = termScores.reduce((sum, scores) => sum + (scores.get(id) ?? 0), 0);
+        const boost = (doc.inStock ? 1 : 0.8) * (1 + Math.log10(1 + doc.popularity) * 0.05);
+        return { id, score: relevance * boost };
+      });
+      scored.sort((a, b) => b.score - a.score || a.id - b.id);
+
+      // Suggest the catalogue's spelling when a word had to be corrected
+      let corrected = false;
+      const correction = splitWords(query).map((word, i) => {
+        const term = terms[i];
+        if (isKnown(term, i === terms.length - 1)) return word;
+
+        const closest = closestTerm(term);
+        if (!closest) return word;
+        corrected = true;
+        return displayWord(closest);
+      });
+
+      return {
+        ids: scored.map(({ id }) => id),
+        facets: getFacets(scored.map(({ id }) => id)),
+        didYouMean: corrected ? correction.join(' ') : null,
+      };
+    },
+
+    suggest(query, limit) {
+      const typed = splitWords(query);
+      const last = typed.pop();
+      if (!last) return [];
+
+      const completions = Array.from(words)
+        .filter(([word]) => word.startsWith(last) && word !== last)
+        .sort((a, b) => b[1] - a[1] || a[0].length - b[0].length)
+        .slice(0, limit);
+
+      return completions.map(([word]) => [...typed, word].join(' '));
+    },
+
+    matchesCatalog(query) {
+      const terms = tokenize(query);
+      return terms.length > 0 && terms.every((term) => isKnown(term, false));
+    },
+
+    size() {
+      return documents.size;
+    },
+  };
+
+  return index;
+}
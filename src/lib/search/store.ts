@@ -0,0 +1,71 @@
+import type { RedisLikeClient } from '@/lib/rate-limit';
+import type { SearchDocument } from './index';
+
+/**
+ * The indexed catalogue, as kept between server instances and restarts
+ */
+export interface SearchIndexSnapshot {
+  documents: SearchDocument[];
+  builtAt: number; // When the catalogue was last crawled
+  updatedAt: number; // When a document last changed
+}
+
+/**
+ * Storage for the search index
+ * The in-memory store keeps the index in the server process, which only suits a
+ * single long-lived server (the Docker setup). On serverless hosting or with several
+ * instances, pass a Redis client through createRedisIndexStore so instances share one
+ * crawl and every instance sees webhook updates.
+ */
+export interface SearchIndexStore {
+  load(): Promise<SearchIndexSnapshot | null>;
+  save(snapshot: SearchIndexSnapshot): Promise<void>;
+  /** When the stored snapshot last changed, so instances can tell whether theirs is current */
+  getUpdatedAt(): Promise<number | null>;
+}
+
+// Snapshots nobody refreshes for this long are dropped from Redis (seconds)
+const SNAPSHOT_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * Keep the snapshot in process memory
+ */
+export function createMemoryIndexStore(): SearchIndexStore {
+  let snapshot: SearchIndexSnapshot | null = null;
+
+  return {
+    async load() {
+      return snapshot;
+    },
+
+    async save(next) {
+      snapshot = next;
+    },
+
+    async getUpdatedAt() {
+      return snapshot?.updatedAt ?? null;
+    },
+  };
+}
+
+/**
+ * Keep the snapshot in Redis (or anything speaking the same commands)
+ */
+export function createRedisIndexStore(client: RedisLikeClient, prefix: string = 'search-index:'): SearchIndexStore {
+  return {
+    async load() {
+      const stored = await client.get(`${prefix}snapshot`);
+      return stored ? (JSON.parse(stored) as SearchIndexSnapshot) : null;
+    },
+
+    async save(snapshot) {
+      await client.set(`${prefix}snapshot`, JSON.stringify(snapshot), 'EX', SNAPSHOT_TTL);
+      await client.set(`${prefix}updated-at`, String(snapshot.updatedAt), 'EX', SNAPSHOT_TTL);
+    },
+
+    async getUpdatedAt() {
+      const stored = await client.get(`${prefix}updated-at`);
+      return stored ? parseInt(stored, 10) : null;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { tokenize } from './text';
+
+// Groups of interchangeable words; extend with SEARCH_SYNONYMS="tee,t-shirt;trousers,pants"
+const DEFAULT_SYNONYMS = [
+  ['tee', 't-shirt', 'tshirt'],
+  ['trousers', 'pants'],
+  ['sneaker', 'trainer'],
+  ['jumper', 'sweater', 'pullover'],
+  ['hoodie', 'hoody'],
+  ['handbag', 'purse'],
+  ['grey', 'gray'],
+  ['colour', 'color'],
+];
+
+let synonyms: Map<string, string[]> | null = null;
+
+/**
+ * Parse synonym groups from the "a,b;c,d" format of SEARCH_SYNONYMS
+ */
+function parseSynonyms(value: string | undefined): string[][] {
+  if (!value) return [];
+  return value
+    .split(';')
+    .map((group) => group.split(',').map((word) => word.trim()).filter(Boolean))
+    .filter((group) => group.length > 1);
+}
+
+/**
+ * Index the groups by term, so each term maps to the other terms of its groups
+ */
+function buildSynonyms(groups: string[][]): Map<string, string[]> {
+  const map = new Map<string, Set<string>>();
+
+  for (const group of groups) {
+    // Multi-word entries are matched by their last word
+    const terms = group.map((word) => tokenize(word).pop()).filter((term): term is string => Boolean(term));
+
+    for (const term of terms) {
+      const related = map.get(term) ?? new Set<string>();
+      terms.forEach((other) => other !== term && related.add(other));
+      map.set(term, related);
+    }
+  }
+
+  return new Map(Array.from(map, ([term, related]) => [term, Array.from(related)]));
+}
+
+/**
+ * Terms that should match the same products as the given index term
+ */
+export function getSynonyms(term: string): string[] {
+  if (!synonyms) {
+    synonyms = buildSynonyms([...DEFAULT_SYNONYMS, ...parseSynonyms(process.env.SEARCH_SYNONYMS)]);
+  }
+  return synonyms.get(term) ?? [];
+}
@@ -0,0 +1,85 @@
+// Words too common to help rank products
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'for', 'with', 'of', 'in', 'on', 'to', 'by']);
+
+/**
+ * Lowercase and strip accents, so "Café" matches "cafe"
+ */
+export function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
+}
+
+/**
+ * Reduce an English word to a rough stem ("dresses" -> "dress", "berries" -> "berry")
+ * Deliberately light: it only folds plurals, which is what shoppers vary most.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ch|sh|ss|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into words, keeping hyphenated words whole as well ("t-shirt" -> t, shirt, tshirt)
+ */
+export function splitWords(text: string): string[] {
+  const words: string[] = [];
+
+  for (const chunk of normalize(text).split(/[^a-z0-9-]+/)) {
+    const parts = chunk.split('-').filter(Boolean);
+    words.push(...parts);
+    if (parts.length > 1) words.push(parts.join(''));
+  }
+
+  return words.filter((word) => word && !STOP_WORDS.has(word));
+}
+
+/**
+ * Words of a text as index terms
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text).map(stem);
+}
+
+/**
+ * Edit distance (with adjacent swaps), or Infinity once it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return Infinity;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return Infinity;
+  }
+
+  const distance = row[b.length];
+  return distance <= maxDistance ? distance : Infinity;
+}
+
+/**
+ * How many typos to tolerate in a word of this length
+ */
+export function allowedTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
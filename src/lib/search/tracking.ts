@@ -0,0 +1,68 @@
+// Browser side of search analytics: remembers which search led to a product,
+// so adding it to the cart can be credited to that search
+
+const STORAGE_KEY = 'search-clicks';
+
+// Adds to cart this long after clicking a result still count as converted searches
+const ATTRIBUTION_WINDOW = 30 * 60 * 1000;
+
+type SearchClicks = Record<string, { query: string; at: number }>; // Keyed by product ID
+
+function readClicks(): SearchClicks {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeClicks(clicks: SearchClicks) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(clicks));
+  } catch {
+    // Storage full or disabled; attribution is best effort
+  }
+}
+
+function sendEvent(type: 'click' | 'add_to_cart', query: string, productId: number, results?: number) {
+  // keepalive lets the request finish while the page navigates away
+  fetch('/api/products/search/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, query, productId, results }),
+    keepalive: true,
+  }).catch(() => {});
+}
+
+/**
+ * Record a click on a search result, and the search itself when it came from the
+ * overlay (pass how many products it found)
+ */
+export function trackSearchClick(query: string, productId: number, results?: number): void {
+  const clicks = readClicks();
+  const now = Date.now();
+
+  for (const [id, click] of Object.entries(clicks)) {
+    if (now - click.at > ATTRIBUTION_WINDOW) delete clicks[id];
+  }
+  clicks[productId] = { query, at: now };
+  writeClicks(clicks);
+
+  sendEvent('click', query, productId, results);
+}
+
+/**
+ * Credit an add to cart to the search that led to the product, if any
+ */
+export function trackSearchAddToCart(productId: number): void {
+  const clicks = readClicks();
+  const click = clicks[productId];
+  if (!click) return;
+
+  delete clicks[productId];
+  writeClicks(clicks);
+
+  if (Date.now() - click.at <= ATTRIBUTION_WINDOW) {
+    sendEvent('add_to_cart', click.query, productId);
+  }
+}
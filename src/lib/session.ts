@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { getCurrentUser, getTokenExpiration, isTokenExpired, type AuthUser } from '@/lib/auth';
+import { getRateLimitStore } from '@/lib/rate-limit';
+
+export const SESSION_COOKIE = 'session';
+
+// Tokens are exchanged for fresh ones once they are this close to expiring
+const REFRESH_WINDOW = 24 * 60 * 60 * 1000;
+
+export interface Session {
+  token: string;
+  user: AuthUser;
+  expiresAt: Date;
+}
+
+// Tokens ended by logout or refresh are kept in the shared store (by hash) until
+// they would have expired anyway, so every instance stops accepting them
+function revokedKey(token: string): string {
+  return `revoked-token:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+/**
+ * Revoke a token so it can no longer be used as a session
+ */
+export async function revokeToken(token: string): Promise<void> {
+  const expiresAt = getTokenExpiration(token)?.getTime();
+  if (!expiresAt || expiresAt <= Date.now()) return;
+
+  await getRateLimitStore().set(revokedKey(token), '1', Math.ceil((expiresAt - Date.now()) / 1000));
+}
+
+/**
+ * Check whether a token can still be used for a session
+ */
+export async function isTokenUsable(token: string): Promise<boolean> {
+  if (isTokenExpired(token)) return false;
+  return (await getRateLimitStore().get(revokedKey(token))) === null;
+}
+
+/**
+ * Check whether a token is close enough to expiring to be refreshed
+ * Only when JWT_REFRESH_ENABLED is set, as the stock JWT plugin has no refresh endpoint.
+ */
+export function shouldRefreshToken(token: string): boolean {
+  if (process.env.JWT_REFRESH_ENABLED !== 'true') return false;
+
+  const expiresAt = getTokenExpiration(token);
+  return Boolean(expiresAt) && expiresAt!.getTime() - Date.now() < REFRESH_WINDOW;
+}
+
+/**
+ * Cookie options for a session token, expiring with the token itself
+ */
+export function getSessionCookieOptions(token: string) {
+  const expiresAt = getTokenExpiration(token);
+
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt ?? undefined,
+  };
+}
+
+/**
+ * Read the session token from the HttpOnly session cookie
+ */
+export async function getSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  return token && (await isTokenUsable(token)) ? token : null;
+}
+
+/**
+ * Persist a session token in an HttpOnly cookie
+ */
+export async function setSessionToken(token: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, getSessionCookieOptions(token));
+}
+
+/**
+ * End the session, revoking its token server-side
+ */
+export async function clearSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (token) await revokeToken(token);
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * Resolve the current session, or null when signed out
+ * Cached per request so layouts, pages and routes share one user lookup.
+ */
+export const getSession = cache(async (): Promise<Session | null> => {
+  const token = await getSessionToken();
+  if (!token) return null;
+
+  try {
+    const user = await getCurrentUser(token);
+    return { token, user, expiresAt: getTokenExpiration(token)! };
+  } catch {
+    return null;
+  }
+});
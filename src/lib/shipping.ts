@@ -0,0 +1,367 @@
+import { shipping } from '@/lib/woocommerce';
+import { getLinesSubtotal, type PricedLine } from '@/lib/pricing';
+import type { WCShippingZone, WCShippingZoneLocation, WCShippingZoneMethod } from '@/types/woocommerce';
+import type { ShippingDestination, ShippingRate } from '@/types/shipping';
+
+/**
+ * What shipping rates are calculated from
+ */
+export interface ShippingPackage {
+  subtotal: number; // Before discounts
+  discount: number;
+  freeShippingCoupon: boolean; // A coupon granting free shipping is applied
+  classes: ShippingClassGroup[]; // Items to ship, grouped by shipping class
+}
+
+/**
+ * The items of one shipping class in a package, for flat rate class costs
+ */
+export interface ShippingClassGroup {
+  id: number; // 0 for items without a class
+  itemCount: number;
+  subtotal: number;
+}
+
+class ShippingError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status: number = 400) {
+    super(message);
+    this.name = 'ShippingError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Build the package shipping rates are priced from
+ * Lines that don't need shipping count towards the subtotal, but not towards
+ * flat rate costs.
+ */
+export function getShippingPackage(
+  lines: PricedLine[],
+  discount: number,
+  freeShippingCoupon: boolean
+): ShippingPackage {
+  const classes = new Map<number, ShippingClassGroup>();
+  for (const line of lines.filter((l) => l.needsShipping)) {
+    const group = classes.get(line.shippingClassId) ?? { id: line.shippingClassId, itemCount: 0, subtotal: 0 };
+    group.itemCount += line.quantity;
+    group.subtotal += line.price * line.quantity;
+    classes.set(line.shippingClassId, group);
+  }
+
+  return {
+    subtotal: getLinesSubtotal(lines),
+    discount,
+    freeShippingCoupon,
+    classes: Array.from(classes.values()),
+  };
+}
+
+function normalizePostcode(postcode: string): string {
+  return postcode.toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Match a postcode against a zone pattern
+ * Supports exact codes, trailing wildcards ("902*") and numeric ranges ("90210...90299").
+ */
+export function matchesPostcode(pattern: string, postcode: string): boolean {
+  const code = normalizePostcode(postcode);
+  const normalized = normalizePostcode(pattern);
+
+  if (normalized.includes('...')) {
+    const [min, max] = normalized.split('...');
+    const value = Number(code);
+    return !isNaN(value) && value >= Number(min) && value <= Number(max);
+  }
+
+  if (normalized.includes('*')) {
+    return code.startsWith(normalized.slice(0, normalized.indexOf('*')));
+  }
+
+  return code === normalized;
+}
+
+/**
+ * Check whether a destination falls inside a zone's locations
+ * Region (country/state/continent) and postcode rules must both match when present.
+ */
+function matchesZone(
+  locations: WCShippingZoneLocation[],
+  destination: ShippingDestination,
+  continentOf: (country: string) => string | undefined
+): boolean {
+  if (locations.length === 0) return false;
+
+  const country = destination.country.toUpperCase();
+  const state = destination.state?.trim().toUpperCase();
+
+  const regions = locations.filter((location) => location.type !== 'postcode');
+  const postcodes = locations.filter((location) => location.type === 'postcode');
+
+  const regionMatch =
+    regions.length === 0 ||
+    regions.some((location) => {
+      switch (location.type) {
+        case 'country':
+          return location.code === country;
+        case 'state':
+          return Boolean(state) && location.code === `${country}:${state}`;
+        case 'continent':
+          return continentOf(country) === location.code;
+        default:
+          return false;
+      }
+    });
+
+  const postcodeMatch =
+    postcodes.length === 0 ||
+    (Boolean(destination.postcode) &&
+      postcodes.some((location) => matchesPostcode(location.code, destination.postcode!)));
+
+  return regionMatch && postcodeMatch;
+}
+
+/**
+ * Find the shipping zone for a destination
+ * Zones are checked in their configured order; zone 0 ("Locations not covered
+ * by your other zones") is the fallback.
+ */
+export async function findShippingZone(destination: ShippingDestination): Promise<WCShippingZone | null> {
+  const [zones, continents] = await Promise.all([shipping.listZones(), shipping.listContinents()]);
+
+  const continentOf = (country: string) =>
+    continents.find((continent) => continent.countries.some((c) => c.code === country))?.code;
+
+  const ordered = zones.filter((zone) => zone.id !== 0).sort((a, b) => a.order - b.order);
+  const locations = await Promise.all(ordered.map((zone) => shipping.getZoneLocations(zone.id)));
+
+  const index = ordered.findIndex((_zone, i) => matchesZone(locations[i], destination, continentOf));
+  if (index !== -1) return ordered[index];
+
+  return zones.find((zone) => zone.id === 0) || null;
+}
+
+/**
+ * Evaluate a flat rate cost formula, or null if it can't be parsed
+ * Handles plain amounts, [qty], [cost] and [fee percent="" min_fee="" max_fee=""]
+ * combined with + - * / and brackets. Decimal commas are read as points, as
+ * WooCommerce does.
+ */
+function evaluateCost(formula: string, itemCount: number, subtotal: number): number | null {
+  if (!formula.trim()) return 0;
+
+  const expression = formula
+    .replace(/,/g, '.')
+    .replace(/\[qty\]/g, String(itemCount))
+    .replace(/\[cost\]/g, String(subtotal))
+    .replace(/\[fee([^\]]*)\]/g, (_match, attrs: string) => {
+      const attr = (name: string) => parseFloat(attrs.match(new RegExp(`${name}="([^"]*)"`))?.[1] || '');
+      let fee = (subtotal * (attr('percent') || 0)) / 100;
+      if (!isNaN(attr('min_fee')) && fee < attr('min_fee')) fee = attr('min_fee');
+      if (!isNaN(attr('max_fee')) && fee > attr('max_fee')) fee = attr('max_fee');
+      return String(fee);
+    })
+    .replace(/\s+/g, '');
+
+  // Small recursive-descent parser; a formula it can't read has no price
+  let position = 0;
+
+  const parseNumber = (): number => {
+    if (expression[position] === '(') {
+      position++;
+      const value = parseSum();
+      if (expression[position++] !== ')') throw new Error(`Invalid shipping cost: ${formula}`);
+      return value;
+    }
+    if (expression[position] === '-') {
+      position++;
+      return -parseNumber();
+    }
+    const match = expression.slice(position).match(/^\d+(\.\d+)?/);
+    if (!match) throw new Error(`Invalid shipping cost: ${formula}`);
+    position += match[0].length;
+    return parseFloat(match[0]);
+  };
+
+  const parseProduct = (): number => {
+    let value = parseNumber();
+    while (expression[position] === '*' || expression[position] === '/') {
+      const operator = expression[position++];
+      const next = parseNumber();
+      value = operator === '*' ? value * next : value / next;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (expression[position] === '+' || expression[position] === '-') {
+      const operator = expression[position++];
+      const next = parseProduct();
+      value = operator === '+' ? value + next : value - next;
+    }
+    return value;
+  };
+
+  try {
+    const cost = parseSum();
+    return position === expression.length && isFinite(cost) ? Math.max(0, Math.round(cost * 100) / 100) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Price a flat rate method: its base cost plus any shipping class costs
+ * Class costs are added per class, or only the highest with the "per order"
+ * calculation type. Returns null when a cost can't be evaluated.
+ */
+function getFlatRateCost(method: WCShippingZoneMethod, pkg: ShippingPackage): number | null {
+  // [qty] and [cost] cover the items being shipped
+  const itemCount = pkg.classes.reduce((count, group) => count + group.itemCount, 0);
+  const contentsCost = pkg.classes.reduce((total, group) => total + group.subtotal, 0);
+  const base = evaluateCost(method.settings.cost?.value || '', itemCount, contentsCost);
+  if (base === null) return null;
+
+  // Methods only carry class cost settings when the store has shipping classes
+  const hasClassCosts = Object.keys(method.settings).some((key) => key.startsWith('class_cost_'));
+  if (!hasClassCosts) return base;
+
+  const classCosts: number[] = [];
+  for (const group of pkg.classes) {
+    const setting = group.id ? method.settings[`class_cost_${group.id}`] : method.settings.no_class_cost;
+    const cost = evaluateCost(setting?.value || '', group.itemCount, group.subtotal);
+    if (cost === null) return null;
+    classCosts.push(cost);
+  }
+
+  const classCost =
+    method.settings.type?.value === 'order'
+      ? Math.max(0, ...classCosts)
+      : classCosts.reduce((total, cost) => total + cost, 0);
+
+  return Math.round((base + classCost) * 100) / 100;
+}
+
+/**
+ * Read a plain cost setting, or null if it isn't a number
+ */
+function parseCost(value: string | undefined): number | null {
+  if (!value?.trim()) return 0;
+  const cost = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(cost) && cost >= 0 ? cost : null;
+}
+
+/**
+ * Check whether a free shipping method's requirements are met
+ */
+function isFreeShippingAvailable(method: WCShippingZoneMethod, pkg: ShippingPackage): boolean {
+  const requires = method.settings.requires?.value || '';
+  const minAmount = parseFloat(method.settings.min_amount?.value || '') || 0;
+  const ignoreDiscounts = method.settings.ignore_discounts?.value === 'yes';
+
+  const amount = ignoreDiscounts ? pkg.subtotal : pkg.subtotal - pkg.discount;
+  const meetsMinimum = amount >= minAmount;
+
+  switch (requires) {
+    case 'coupon':
+      return pkg.freeShippingCoupon;
+    case 'min_amount':
+      return meetsMinimum;
+    case 'either':
+      return pkg.freeShippingCoupon || meetsMinimum;
+    case 'both':
+      return pkg.freeShippingCoupon && meetsMinimum;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Turn a zone method into a rate, or null if it doesn't apply to this package
+ * Methods whose cost can't be worked out are left out rather than offered free.
+ */
+function toShippingRate(method: WCShippingZoneMethod, pkg: ShippingPackage): ShippingRate | null {
+  const rate = (cost: number | null): ShippingRate | null => {
+    if (cost === null) {
+      console.error(`Unreadable cost for shipping method ${method.method_id}:${method.instance_id}`);
+      return null;
+    }
+
+    return {
+      id: `${method.method_id}:${method.instance_id}`,
+      methodId: method.method_id,
+      instanceId: method.instance_id,
+      title: method.title || method.method_title,
+      cost,
+    };
+  };
+
+  switch (method.method_id) {
+    case 'flat_rate':
+      return rate(getFlatRateCost(method, pkg));
+    case 'free_shipping':
+      return isFreeShippingAvailable(method, pkg) ? rate(0) : null;
+    case 'local_pickup':
+      return rate(parseCost(method.settings.cost?.value));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the shipping rates available for a destination and package
+ */
+export async function getShippingRates(
+  destination: ShippingDestination,
+  pkg: ShippingPackage
+): Promise<{ zone: WCShippingZone | null; rates: ShippingRate[] }> {
+  const zone = await findShippingZone(destination);
+  if (!zone) return { zone: null, rates: [] };
+
+  const methods = await shipping.getZoneMethods(zone.id);
+
+  const rates = methods
+    .filter((method) => method.enabled)
+    .sort((a, b) => a.order - b.order)
+    .map((method) => toShippingRate(method, pkg))
+    .filter((rate): rate is ShippingRate => rate !== null);
+
+  return { zone, rates };
+}
+
+/**
+ * Resolve a submitted shipping method ID to a rate for the destination
+ * Throws if the method isn't offered there, so prices can't be picked client-side.
+ */
+export async function resolveShippingRate(
+  destination: ShippingDestination,
+  pkg: ShippingPackage,
+  rateId: string | undefined
+): Promise<ShippingRate> {
+  const { rates } = await getShippingRates(destination, pkg);
+
+  if (rates.length === 0) {
+    throw new ShippingError('We don\'t ship to this address yet.', 'no_shipping_methods');
+  }
+
+  if (!rateId) {
+    throw new ShippingError('Please choose a shipping method.', 'shipping_method_required');
+  }
+
+  const rate = rates.find((r) => r.id === rateId);
+  if (!rate) {
+    throw new ShippingError(
+      'The selected shipping method is not available for this address.',
+      'invalid_shipping_method'
+    );
+  }
+
+  return rate;
+}
+
+export { ShippingError };
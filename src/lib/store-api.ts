@@ -0,0 +1,228 @@
+import type { StoreAPICart, StoreAPICartItem } from '@/types/woocommerce';
+import type { Cart, CartItem, AddToCartData } from '@/types/cart';
+
+const WP_URL = process.env.NEXT_PUBLIC_WORDPRESS_URL;
+
+interface StoreAPIRequestOptions extends Omit<RequestInit, 'body'> {
+  cartToken?: string | null;
+  body?: unknown;
+}
+
+interface StoreAPIResponse<T> {
+  data: T;
+  cartToken: string | null;
+}
+
+class StoreAPIError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'StoreAPIError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Call the WooCommerce Store API
+ * Carts are identified by the Cart-Token header, which also exempts
+ * mutations from the nonce check, so the token is passed through both ways.
+ */
+async function storeAPI<T>(
+  endpoint: string,
+  options: StoreAPIRequestOptions = {}
+): Promise<StoreAPIResponse<T>> {
+  const { cartToken, body, ...fetchOptions } = options;
+
+  if (!WP_URL) {
+    throw new StoreAPIError('WordPress URL is not configured', 500);
+  }
+
+  const response = await fetch(`${WP_URL}/wp-json/wc/store/v1${endpoint}`, {
+    ...fetchOptions,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(cartToken ? { 'Cart-Token': cartToken } : {}),
+      ...fetchOptions.headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    cache: 'no-store',
+  });
+
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : null;
+
+  if (!response.ok) {
+    throw new StoreAPIError(
+      data?.message || `Store API Error: ${response.status}`,
+      response.status,
+      data?.code
+    );
+  }
+
+  return {
+    data: data as T,
+    cartToken: response.headers.get('Cart-Token') || cartToken || null,
+  };
+}
+
+/**
+ * Convert a Store API minor-unit amount ("1999") to a number (19.99)
+ */
+function fromMinorUnits(value: string | null | undefined, minorUnit: number): number {
+  const amount = parseInt(value || '0', 10);
+  return isNaN(amount) ? 0 : amount / Math.pow(10, minorUnit);
+}
+
+/**
+ * Store API items only carry the permalink, so derive the slug from it
+ */
+function getSlugFromPermalink(permalink: string): string {
+  try {
+    const segments = new URL(permalink).pathname.split('/').filter(Boolean);
+    return segments[segments.length - 1] || '';
+  } catch {
+    return '';
+  }
+}
+
+function normalizeCartItem(item: StoreAPICartItem): CartItem {
+  const minorUnit = item.prices.currency_minor_unit;
+  const regularPrice = fromMinorUnits(item.prices.regular_price, minorUnit);
+  const isVariation = item.type === 'variation' || item.variation.length > 0;
+
+  return {
+    id: item.key,
+    // Store API reports variations by their own ID; WooCommerce resolves the
+    // parent product from variation_id when the order is created
+    productId: item.id,
+    variationId: isVariation ? item.id : undefined,
+    name: item.name,
+    slug: getSlugFromPermalink(item.permalink),
+    price: fromMinorUnits(item.prices.price, minorUnit),
+    regularPrice: regularPrice || undefined,
+    quantity: item.quantity,
+    image: item.images[0]?.src || '',
+    attributes: item.variation.length
+      ? Object.fromEntries(item.variation.map((v) => [v.attribute, v.value]))
+      : undefined,
+    maxQuantity: item.quantity_limits?.maximum || undefined,
+  };
+}
+
+/**
+ * Map a Store API cart to the shape used by the client cart store
+ */
+export function normalizeCart(cart: StoreAPICart): Cart {
+  const minorUnit = cart.totals.currency_minor_unit;
+
+  return {
+    items: cart.items.map(normalizeCartItem),
+    itemCount: cart.items_count,
+    needsShipping: cart.needs_shipping,
+    totals: {
+      subtotal: fromMinorUnits(cart.totals.total_items, minorUnit),
+      discount: fromMinorUnits(cart.totals.total_discount, minorUnit),
+      shipping: fromMinorUnits(cart.totals.total_shipping, minorUnit),
+      tax: fromMinorUnits(cart.totals.total_tax, minorUnit),
+      total: fromMinorUnits(cart.totals.total_price, minorUnit),
+      currency: cart.totals.currency_code,
+    },
+    coupons: cart.coupons.map((coupon) => ({
+      code: coupon.code,
+      discountType: coupon.discount_type,
+      discount: fromMinorUnits(coupon.totals.total_discount, coupon.totals.currency_minor_unit),
+    })),
+    errors: cart.errors || [],
+  };
+}
+
+async function cartRequest(
+  endpoint: string,
+  cartToken: string | null | undefined,
+  options: StoreAPIRequestOptions = {}
+): Promise<{ cart: Cart; cartToken: string | null }> {
+  const { data, cartToken: token } = await storeAPI<StoreAPICart>(endpoint, {
+    ...options,
+    cartToken,
+  });
+
+  return { cart: normalizeCart(data), cartToken: token };
+}
+
+// Cart API
+// Every mutation returns the recalculated cart, so prices and stock are
+// re-checked by WooCommerce on each call.
+export const cart = {
+  /**
+   * Get the cart for a token (a new cart and token are issued if missing)
+   */
+  get: (cartToken?: string | null) => cartRequest('/cart', cartToken),
+
+  /**
+   * Add a product or variation to the cart
+   */
+  addItem: (cartToken: string | null | undefined, item: AddToCartData) =>
+    cartRequest('/cart/add-item', cartToken, {
+      method: 'POST',
+      body: {
+        id: item.variationId || item.productId,
+        quantity: item.quantity,
+        variation: item.attributes
+          ? Object.entries(item.attributes).map(([attribute, value]) => ({ attribute, value }))
+          : undefined,
+      },
+    }),
+
+  /**
+   * Change the quantity of a cart item
+   */
+  updateItem: (cartToken: string | null | undefined, key: string, quantity: number) =>
+    cartRequest('/cart/update-item', cartToken, {
+      method: 'POST',
+      body: { key, quantity },
+    }),
+
+  /**
+   * Remove a cart item
+   */
+  removeItem: (cartToken: string | null | undefined, key: string) =>
+    cartRequest('/cart/remove-item', cartToken, {
+      method: 'POST',
+      body: { key },
+    }),
+
+  /**
+   * Apply a coupon code (WooCommerce recalculates the discount)
+   */
+  applyCoupon: (cartToken: string | null | undefined, code: string) =>
+    cartRequest('/cart/apply-coupon', cartToken, {
+      method: 'POST',
+      body: { code },
+    }),
+
+  /**
+   * Remove a coupon code
+   */
+  removeCoupon: (cartToken: string | null | undefined, code: string) =>
+    cartRequest('/cart/remove-coupon', cartToken, {
+      method: 'POST',
+      body: { code },
+    }),
+
+  /**
+   * Remove all items from the cart
+   */
+  clear: async (cartToken: string | null | undefined) => {
+    await storeAPI<unknown>('/cart/items', { method: 'DELETE', cartToken });
+    return cartRequest('/cart', cartToken);
+  },
+};
+
+export const storeApi = {
+  cart,
+};
+
+export { StoreAPIError };
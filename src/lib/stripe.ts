@@ -0,0 +1,165 @@
+import Stripe from 'stripe';
+import type { WCOrder } from '@/types/woocommerce';
+
+const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+// Optional API base, e.g. http://localhost:12111 to run against stripe-mock
+const STRIPE_API_BASE = process.env.STRIPE_API_BASE;
+
+// Currencies Stripe expects in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = ['bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'];
+
+let stripeClient: Stripe | null = null;
+
+/**
+ * Check whether Stripe keys are present
+ */
+export function isStripeConfigured(): boolean {
+  return Boolean(STRIPE_SECRET_KEY && STRIPE_WEBHOOK_SECRET);
+}
+
+/**
+ * Get a shared Stripe client
+ */
+export function getStripe(): Stripe {
+  if (!STRIPE_SECRET_KEY) {
+    throw new Error('Stripe is not configured. Check your environment variables.');
+  }
+
+  if (!stripeClient) {
+    const config: Stripe.StripeConfig = {};
+
+    if (STRIPE_API_BASE) {
+      const base = new URL(STRIPE_API_BASE);
+      config.host = base.hostname;
+      config.port = base.port || (base.protocol === 'https:' ? 443 : 80);
+      config.protocol = base.protocol === 'https:' ? 'https' : 'http';
+    }
+
+    stripeClient = new Stripe(STRIPE_SECRET_KEY, config);
+  }
+
+  return stripeClient;
+}
+
+/**
+ * Convert a WooCommerce decimal amount to Stripe's smallest currency unit
+ */
+export function toStripeAmount(amount: string | number, currency: string): number {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (isNaN(value)) return 0;
+
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase())
+    ? Math.round(value)
+    : Math.round(value * 100);
+}
+
+/**
+ * Build Checkout line items from a WooCommerce order
+ * Line totals are already discounted; shipping and tax are added as their own
+ * lines so the session total matches the order total.
+ */
+function buildLineItems(order: WCOrder): Stripe.Checkout.SessionCreateParams.LineItem[] {
+  const currency = order.currency.toLowerCase();
+
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = order.line_items.map((item) => {
+    const lineAmount = toStripeAmount(item.total, currency);
+    // Fall back to a single line when the total doesn't divide evenly per unit
+    const splitsEvenly = lineAmount % item.quantity === 0;
+
+    return {
+      price_data: {
+        currency,
+        product_data: {
+          name: splitsEvenly ? item.name : `${item.name} × ${item.quantity}`,
+          images: item.image?.src ? [item.image.src] : undefined,
+        },
+        unit_amount: splitsEvenly ? lineAmount / item.quantity : lineAmount,
+      },
+      quantity: splitsEvenly ? item.quantity : 1,
+    };
+  });
+
+  const shipping = toStripeAmount(order.shipping_total, currency);
+  if (shipping > 0) {
+    lineItems.push({
+      price_data: { currency, product_data: { name: 'Shipping' }, unit_amount: shipping },
+      quantity: 1,
+    });
+  }
+
+  const tax = toStripeAmount(order.total_tax, currency);
+  if (tax > 0) {
+    lineItems.push({
+      price_data: { currency, product_data: { name: 'Tax' }, unit_amount: tax },
+      quantity: 1,
+    });
+  }
+
+  return lineItems;
+}
+
+/**
+ * Create a hosted Checkout Session for a pending WooCommerce order
+ */
+export async function createCheckoutSession(
+  order: WCOrder,
+  urls: { successUrl: string; cancelUrl: string }
+): Promise<Stripe.Checkout.Session> {
+  return getStripe().checkout.sessions.create(
+    {
+      mode: 'payment',
+      line_items: buildLineItems(order),
+      customer_email: order.billing.email || undefined,
+      client_reference_id: String(order.id),
+      metadata: {
+        order_id: String(order.id),
+        order_key: order.order_key,
+      },
+      payment_intent_data: {
+        metadata: { order_id: String(order.id) },
+      },
+      success_url: urls.successUrl,
+      cancel_url: urls.cancelUrl,
+    },
+    // Retrying the same order must not open a second session
+    { idempotencyKey: `wc-order-${order.id}-${order.date_modified}` }
+  );
+}
+
+/**
+ * Retrieve a Checkout Session (e.g. when the shopper returns from Stripe)
+ */
+export async function retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+  return getStripe().checkout.sessions.retrieve(sessionId);
+}
+
+/**
+ * Refund a PaymentIntent, fully or partially
+ */
+export async function refundPaymentIntent(
+  paymentIntentId: string,
+  amount?: string,
+  currency: string = 'usd'
+): Promise<Stripe.Refund> {
+  return getStripe().refunds.create({
+    payment_intent: paymentIntentId,
+    amount: amount !== undefined ? toStripeAmount(amount, currency) : undefined,
+  });
+}
+
+/**
+ * Verify a webhook payload against the Stripe-Signature header
+ * Throws if the signature is missing, invalid or too old.
+ */
+export function constructWebhookEvent(payload: string, signature: string | null): Stripe.Event {
+  if (!STRIPE_WEBHOOK_SECRET) {
+    throw new Error('Stripe webhook secret is not configured');
+  }
+
+  if (!signature) {
+    throw new Error('Missing Stripe-Signature header');
+  }
+
+  return getStripe().webhooks.constructEvent(payload, signature, STRIPE_WEBHOOK_SECRET);
+}
@@ -0,0 +1,193 @@
+import { cache } from 'react';
+import { settings } from '@/lib/woocommerce';
+import { getProductUrl, stripHtml } from '@/lib/utils';
+import type { WCProduct, WCProductVariation } from '@/types/woocommerce';
+
+// schema.org JSON-LD for search engines: products, breadcrumbs and the store itself
+
+export type JsonLdObject = Record<string, unknown>;
+
+export interface BreadcrumbItem {
+  name: string;
+  path: string; // Site-relative, e.g. /shop/dresses
+}
+
+const SITE_NAME = 'STORE';
+
+const AVAILABILITY: Record<WCProduct['stock_status'], string> = {
+  instock: 'https://schema.org/InStock',
+  outofstock: 'https://schema.org/OutOfStock',
+  onbackorder: 'https://schema.org/BackOrder',
+};
+
+function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function absoluteUrl(path: string): string {
+  return `${getSiteUrl()}${path}`;
+}
+
+function toPrice(price: string): number | null {
+  const value = parseFloat(price);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * The store's currency code, from the WooCommerce general settings
+ */
+export const getStoreCurrency = cache(async (): Promise<string> => {
+  try {
+    const general = await settings.list('general');
+    return general.find((option) => option.id === 'woocommerce_currency')?.value || 'USD';
+  } catch (error) {
+    console.error('Error fetching store currency:', error);
+    return 'USD';
+  }
+});
+
+/**
+ * An Offer for a simple product or one variation
+ * Sale prices carry their end date, so search results don't show them after the sale.
+ */
+function toOffer(item: WCProduct | WCProductVariation, url: string, currency: string): JsonLdObject | null {
+  const price = toPrice(item.price);
+  if (price === null) return null;
+
+  return {
+    '@type': 'Offer',
+    url,
+    ...(item.sku && { sku: item.sku }),
+    price: price.toFixed(2),
+    priceCurrency: currency,
+    availability: AVAILABILITY[item.stock_status],
+    itemCondition: 'https://schema.org/NewCondition',
+    ...(item.on_sale && item.date_on_sale_to && { priceValidUntil: item.date_on_sale_to.slice(0, 10) }),
+  };
+}
+
+/**
+ * An AggregateOffer spanning a variable product's purchasable variations
+ */
+function toAggregateOffer(
+  variations: WCProductVariation[],
+  url: string,
+  currency: string
+): JsonLdObject | null {
+  const offers = variations
+    .filter((variation) => variation.status !== 'private' && variation.purchasable !== false)
+    .map((variation) => ({ variation, offer: toOffer(variation, url, currency) }))
+    .filter((entry): entry is { variation: WCProductVariation; offer: JsonLdObject } => entry.offer !== null);
+
+  if (offers.length === 0) return null;
+
+  const prices = offers.map(({ variation }) => parseFloat(variation.price));
+  // In stock if any variation is, then on backorder if any can be ordered
+  const statuses = new Set(offers.map(({ variation }) => variation.stock_status));
+  const availability = statuses.has('instock') ? 'instock' : statuses.has('onbackorder') ? 'onbackorder' : 'outofstock';
+
+  return {
+    '@type': 'AggregateOffer',
+    url,
+    priceCurrency: currency,
+    lowPrice: Math.min(...prices).toFixed(2),
+    highPrice: Math.max(...prices).toFixed(2),
+    offerCount: offers.length,
+    availability: AVAILABILITY[availability],
+    offers: offers.map(({ offer }) => offer),
+  };
+}
+
+/**
+ * Product JSON-LD with its offers and review rating
+ * Variable products list an offer per variation, priced and stocked individually.
+ */
+export function getProductJsonLd(
+  product: WCProduct,
+  variations: WCProductVariation[],
+  currency: string
+): JsonLdObject {
+  const url = absoluteUrl(getProductUrl(product.slug));
+  const offers =
+    product.type === 'variable' && variations.length > 0
+      ? toAggregateOffer(variations, url, currency)
+      : toOffer(product, url, currency);
+  const description = stripHtml(product.short_description || product.description || '', { collapseWhitespace: true });
+  const rating = parseFloat(product.average_rating);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    '@id': `${url}#product`,
+    name: product.name,
+    url,
+    ...(description && { description }),
+    ...(product.sku && { sku: product.sku }),
+    image: product.images.map((image) => image.src),
+    ...(product.categories[0] && { category: product.categories[0].name }),
+    ...(offers && { offers }),
+    ...(product.rating_count > 0 &&
+      rating > 0 && {
+        aggregateRating: {
+          '@type': 'AggregateRating',
+          ratingValue: rating.toFixed(2),
+          reviewCount: product.rating_count,
+          bestRating: 5,
+          worstRating: 1,
+        },
+      }),
+  };
+}
+
+/**
+ * BreadcrumbList JSON-LD for a trail of pages, starting from the home page
+ */
+export function getBreadcrumbJsonLd(items: BreadcrumbItem[]): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: [{ name: 'Home', path: '/' }, ...items].map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: absoluteUrl(item.path),
+    })),
+  };
+}
+
+/**
+ * Organization JSON-LD for the store
+ */
+export function getOrganizationJsonLd(): JsonLdObject {
+  const siteUrl = getSiteUrl();
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    '@id': `${siteUrl}/#organization`,
+    name: SITE_NAME,
+    url: siteUrl,
+  };
+}
+
+/**
+ * WebSite JSON-LD with a SearchAction, so search engines can offer a search box
+ * that lands on the shop's search results
+ */
+export function getWebSiteJsonLd(): JsonLdObject {
+  const siteUrl = getSiteUrl();
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    '@id': `${siteUrl}/#website`,
+    name: SITE_NAME,
+    url: siteUrl,
+    publisher: { '@id': `${siteUrl}/#organization` },
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: { '@type': 'EntryPoint', urlTemplate: `${siteUrl}/shop?search={search_term_string}` },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
@@ -0,0 +1,254 @@
+import { taxes, settings } from '@/lib/woocommerce';
+import { matchesPostcode } from '@/lib/shipping';
+import { getLinesSubtotal, type PricedLine } from '@/lib/pricing';
+import type { WCTaxRate, WCSettingOption } from '@/types/woocommerce';
+import type { TaxSummary } from '@/types/tax';
+
+/**
+ * Where tax is calculated for
+ */
+export interface TaxLocation {
+  country: string;
+  state?: string;
+  postcode?: string;
+  city?: string;
+}
+
+export interface TaxSettings {
+  enabled: boolean;
+  pricesIncludeTax: boolean;
+  displayIncl: boolean; // Show cart amounts including tax
+  basedOn: 'shipping' | 'billing' | 'base';
+  shippingTaxClass: string; // "inherit", "" (standard) or a class slug
+  baseLocation: TaxLocation;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function getOption(options: WCSettingOption[], id: string): string {
+  return options.find((option) => option.id === id)?.value ?? '';
+}
+
+/**
+ * Load the store's tax settings
+ */
+export async function getTaxSettings(): Promise<TaxSettings> {
+  const [general, tax] = await Promise.all([settings.list('general'), settings.list('tax')]);
+  const [country, state] = getOption(general, 'woocommerce_default_country').split(':');
+  const basedOn = getOption(tax, 'woocommerce_tax_based_on');
+
+  return {
+    enabled: getOption(general, 'woocommerce_calc_taxes') === 'yes',
+    pricesIncludeTax: getOption(tax, 'woocommerce_prices_include_tax') === 'yes',
+    displayIncl: getOption(tax, 'woocommerce_tax_display_cart') === 'incl',
+    basedOn: basedOn === 'billing' || basedOn === 'base' ? basedOn : 'shipping',
+    shippingTaxClass: getOption(tax, 'woocommerce_shipping_tax_class'),
+    baseLocation: {
+      country: country || '',
+      state,
+      postcode: getOption(general, 'woocommerce_store_postcode'),
+      city: getOption(general, 'woocommerce_store_city'),
+    },
+  };
+}
+
+function matchesLocation(rate: WCTaxRate, location: TaxLocation): boolean {
+  const country = location.country.toUpperCase();
+  const state = location.state?.trim().toUpperCase() || '';
+  const city = location.city?.trim().toUpperCase() || '';
+
+  if (rate.country && rate.country.toUpperCase() !== country) return false;
+  if (rate.state && rate.state.toUpperCase() !== state) return false;
+
+  if (rate.postcodes.length > 0) {
+    if (!location.postcode) return false;
+    if (!rate.postcodes.some((pattern) => matchesPostcode(pattern, location.postcode!))) return false;
+  }
+
+  if (rate.cities.length > 0 && !rate.cities.some((c) => c.toUpperCase() === city)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the rates that apply to a tax class at a location
+ * As in WooCommerce, only the first matching rate of each priority is used.
+ */
+export function findTaxRates(rates: WCTaxRate[], location: TaxLocation, taxClass: string): WCTaxRate[] {
+  const slug = taxClass || 'standard';
+  const priorities = new Set<number>();
+
+  return rates
+    .filter((rate) => rate.class === slug && matchesLocation(rate, location))
+    .sort((a, b) => a.priority - b.priority || a.order - b.order)
+    .filter((rate) => {
+      if (priorities.has(rate.priority)) return false;
+      priorities.add(rate.priority);
+      return true;
+    });
+}
+
+/**
+ * Calculate the tax on an amount for each rate
+ * Inclusive amounts have tax extracted (compound rates first); exclusive
+ * amounts have it added, with compound rates applied on top of earlier taxes.
+ */
+export function calculateTax(
+  amount: number,
+  rates: WCTaxRate[],
+  inclusive: boolean
+): Array<{ rate: WCTaxRate; amount: number }> {
+  const regular = rates.filter((rate) => !rate.compound);
+  const compound = rates.filter((rate) => rate.compound);
+  const percent = (rate: WCTaxRate) => parseFloat(rate.rate) || 0;
+
+  if (inclusive) {
+    let net = amount;
+    const compoundTaxes = [...compound].reverse().map((rate) => {
+      const tax = net - net / (1 + percent(rate) / 100);
+      net -= tax;
+      return { rate, amount: roundAmount(tax) };
+    });
+
+    const regularPercent = regular.reduce((sum, rate) => sum + percent(rate), 0);
+    const base = net / (1 + regularPercent / 100);
+
+    return [
+      ...regular.map((rate) => ({ rate, amount: roundAmount((base * percent(rate)) / 100) })),
+      ...compoundTaxes.reverse(),
+    ];
+  }
+
+  const regularTaxes = regular.map((rate) => ({ rate, amount: roundAmount((amount * percent(rate)) / 100) }));
+  let running = amount + regularTaxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+  const compoundTaxes = compound.map((rate) => {
+    const tax = roundAmount((running * percent(rate)) / 100);
+    running += tax;
+    return { rate, amount: tax };
+  });
+
+  return [...regularTaxes, ...compoundTaxes];
+}
+
+/**
+ * Calculate cart totals with tax for a location
+ * The discount is spread across lines by value, and shipping is taxed with
+ * the shipping tax class (inherit uses the first taxable line's class).
+ */
+export function calculateTaxSummary(
+  lines: PricedLine[],
+  options: {
+    discount: number;
+    shipping: number;
+    location: TaxLocation;
+    settings: TaxSettings;
+    rates: WCTaxRate[];
+  }
+): TaxSummary {
+  const { discount, shipping, location, settings: taxSettings, rates } = options;
+  const inclusive = taxSettings.pricesIncludeTax;
+  const rawSubtotal = getLinesSubtotal(lines);
+  const breakdown = new Map<number, { label: string; amount: number }>();
+
+  const addToBreakdown = (taxes: Array<{ rate: WCTaxRate; amount: number }>) => {
+    taxes.forEach(({ rate, amount }) => {
+      const current = breakdown.get(rate.id);
+      breakdown.set(rate.id, { label: rate.name || 'Tax', amount: (current?.amount ?? 0) + amount });
+    });
+  };
+
+  const sum = (taxes: Array<{ amount: number }>) => taxes.reduce((total, tax) => total + tax.amount, 0);
+
+  let netSubtotal = 0;
+  let grossSubtotal = 0;
+  let netTotal = 0;
+  let grossTotal = 0;
+  let itemTax = 0;
+
+  lines.forEach((line) => {
+    const amount = line.price * line.quantity;
+    const discounted = amount - (rawSubtotal > 0 ? (discount * amount) / rawSubtotal : 0);
+    const lineRates =
+      taxSettings.enabled && line.taxStatus === 'taxable'
+        ? findTaxRates(rates, location, line.taxClass)
+        : [];
+
+    const subtotalTax = sum(calculateTax(amount, lineRates, inclusive));
+    const totalTaxes = calculateTax(discounted, lineRates, inclusive);
+    const totalTax = sum(totalTaxes);
+
+    netSubtotal += inclusive ? amount - subtotalTax : amount;
+    grossSubtotal += inclusive ? amount : amount + subtotalTax;
+    netTotal += inclusive ? discounted - totalTax : discounted;
+    grossTotal += inclusive ? discounted : discounted + totalTax;
+    itemTax += totalTax;
+    addToBreakdown(totalTaxes);
+  });
+
+  let shippingTax = 0;
+  if (taxSettings.enabled && shipping > 0) {
+    const shippingClass =
+      taxSettings.shippingTaxClass === 'inherit'
+        ? lines.find((line) => line.taxStatus === 'taxable')?.taxClass ?? ''
+        : taxSettings.shippingTaxClass;
+    const shippingRates = findTaxRates(rates, location, shippingClass).filter((rate) => rate.shipping);
+
+    // Shipping costs are always entered excluding tax
+    const shippingTaxes = calculateTax(shipping, shippingRates, false);
+    shippingTax = sum(shippingTaxes);
+    addToBreakdown(shippingTaxes);
+  }
+
+  const displayIncl = taxSettings.displayIncl;
+
+  return {
+    pricesIncludeTax: inclusive,
+    displayIncl,
+    subtotal: roundAmount(displayIncl ? grossSubtotal : netSubtotal),
+    discount: roundAmount(displayIncl ? grossSubtotal - grossTotal : netSubtotal - netTotal),
+    shipping: roundAmount(displayIncl ? shipping + shippingTax : shipping),
+    itemTax: roundAmount(itemTax),
+    shippingTax: roundAmount(shippingTax),
+    taxTotal: roundAmount(itemTax + shippingTax),
+    total: roundAmount(netTotal + itemTax + shipping + shippingTax),
+    lines: Array.from(breakdown, ([rateId, tax]) => ({
+      rateId,
+      label: tax.label,
+      amount: roundAmount(tax.amount),
+    })).filter((tax) => tax.amount > 0),
+  };
+}
+
+/**
+ * Load settings and rates, then calculate cart totals with tax
+ * Uses the store's base location when no address is known yet or when the
+ * store taxes by base location.
+ */
+export async function getTaxSummary(
+  lines: PricedLine[],
+  options: { discount: number; shipping: number; shippingAddress?: TaxLocation; billingAddress?: TaxLocation }
+): Promise<TaxSummary> {
+  const [taxSettings, rates] = await Promise.all([getTaxSettings(), taxes.listRates()]);
+
+  const customerLocation =
+    taxSettings.basedOn === 'billing'
+      ? options.billingAddress ?? options.shippingAddress
+      : options.shippingAddress ?? options.billingAddress;
+  const location =
+    taxSettings.basedOn === 'base' || !customerLocation?.country
+      ? taxSettings.baseLocation
+      : customerLocation;
+
+  return calculateTaxSummary(lines, {
+    discount: options.discount,
+    shipping: options.shipping,
+    location,
+    settings: taxSettings,
+    rates,
+  });
+}
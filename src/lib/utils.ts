@@ -32,10 +32,12 @@ export function formatPrice(
 
 /**
  * Strip HTML tags from a string
+ * With collapseWhitespace, tags become spaces and the text is kept to one line.
  */
-export function stripHtml(html: string): string {
+export function stripHtml(html: string, options: { collapseWhitespace?: boolean } = {}): string {
   if (!html) return '';
-  return html.replace(/<[^>]*>/g, '');
+  if (!options.collapseWhitespace) return html.replace(/<[^>]*>/g, '');
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
 }
 
 /**
@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Compare a base64 HMAC-SHA256 signature of the raw body in constant time
+ */
+function verifySignature(payload: string, signature: string | null, secret: string | undefined): boolean {
+  if (!secret || !signature) return false;
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(payload).digest('base64'));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Check the X-WC-Webhook-Signature header of a WooCommerce webhook delivery
+ * WooCommerce signs the raw body with HMAC-SHA256 using the webhook's secret.
+ */
+export function verifyWooCommerceSignature(payload: string, signature: string | null): boolean {
+  return verifySignature(payload, signature, process.env.WC_WEBHOOK_SECRET);
+}
+
+/**
+ * Check the X-Revalidate-Signature header of a WordPress content update,
+ * signed the same way as WooCommerce webhooks but with REVALIDATE_SECRET
+ */
+export function verifyRevalidateSignature(payload: string, signature: string | null): boolean {
+  return verifySignature(payload, signature, process.env.REVALIDATE_SECRET);
+}
@@ -0,0 +1,58 @@
+import type { WCCustomer, WCProduct } from '@/types/woocommerce';
+import type { WishlistEntry, WishlistItem } from '@/types/wishlist';
+
+export const WISHLIST_META_KEY = '_wishlist';
+
+// Oldest entries are dropped beyond this, to keep customer meta small
+export const WISHLIST_LIMIT = 100;
+
+/**
+ * Snapshot the product details a wishlist needs
+ */
+export function toWishlistItem(product: WCProduct, addedAt: string = new Date().toISOString()): WishlistItem {
+  return {
+    productId: product.id,
+    addedAt,
+    name: product.name,
+    slug: product.slug,
+    price: product.price,
+    regularPrice: product.regular_price,
+    onSale: product.on_sale,
+    image: product.images[0]?.src || null,
+    stockStatus: product.stock_status,
+  };
+}
+
+/**
+ * Read the saved wishlist from customer meta
+ */
+export function readWishlistEntries(customer: WCCustomer): WishlistEntry[] {
+  const value = customer.meta_data?.find((meta) => meta.key === WISHLIST_META_KEY)?.value;
+
+  try {
+    const entries = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(entries)
+      ? entries.filter((entry) => Number.isInteger(entry?.productId) && typeof entry.addedAt === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Combine two lists, keeping the earliest save of each product, newest first
+ */
+export function mergeWishlistEntries(current: WishlistEntry[], incoming: WishlistEntry[]): WishlistEntry[] {
+  const byProduct = new Map<number, WishlistEntry>();
+
+  for (const entry of [...current, ...incoming]) {
+    const existing = byProduct.get(entry.productId);
+    if (!existing || entry.addedAt < existing.addedAt) {
+      byProduct.set(entry.productId, { productId: entry.productId, addedAt: entry.addedAt });
+    }
+  }
+
+  return Array.from(byProduct.values())
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+    .slice(0, WISHLIST_LIMIT);
+}
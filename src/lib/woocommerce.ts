@@ -1,13 +1,29 @@
 import type {
   WCProduct,
   WCProductVariation,
+  WCProductAttribute,
+  WCAttributeTerm,
   WCCategory,
   WCOrder,
+  WCCoupon,
+  WCShippingZone,
+  WCShippingZoneLocation,
+  WCShippingZoneMethod,
+  WCContinent,
+  WCTaxRate,
+  WCSettingOption,
   WCCustomer,
+  WCProductReview,
   CreateOrderData,
+  UpdateOrderData,
+  WCOrderRefund,
+  CreateRefundData,
   CreateCustomerData,
+  CreateReviewData,
   ProductsQueryParams,
+  PaginatedResponse,
 } from '@/types/woocommerce';
+import { cacheTags } from '@/lib/cache-tags';
 
 const WC_URL = process.env.NEXT_PUBLIC_WORDPRESS_URL;
 const WC_KEY = process.env.WC_CONSUMER_KEY;
@@ -16,6 +32,7 @@ const WC_SECRET = process.env.WC_CONSUMER_SECRET;
 interface WooCommerceRequestOptions extends Omit<RequestInit, 'next'> {
   params?: Record<string, string | number | boolean | undefined>;
   next?: NextFetchRequestConfig;
+  tags?: string[]; // Cache tags, for on-demand revalidation (see cache-tags.ts)
 }
 
 class WooCommerceError extends Error {
@@ -30,11 +47,14 @@ class WooCommerceError extends Error {
   }
 }
 
-async function wooCommerceAPI<T>(
+/**
+ * Call the WooCommerce REST API, keeping the response headers
+ */
+async function wooCommerceRequest<T>(
   endpoint: string,
   options: WooCommerceRequestOptions = {}
-): Promise<T> {
-  const { params, next, ...fetchOptions } = options;
+): Promise<{ data: T; headers: Headers }> {
+  const { params, next, tags, ...fetchOptions } = options;
 
   if (!WC_URL || !WC_KEY || !WC_SECRET) {
     throw new WooCommerceError(
@@ -63,7 +83,7 @@ async function wooCommerceAPI<T>(
       Authorization: `Basic ${auth}`,
       ...fetchOptions.headers,
     },
-    next,
+    next: tags ? { ...next, tags: [...(next?.tags || []), ...tags] } : next,
   });
 
   // Handle empty responses (like DELETE)
@@ -78,7 +98,41 @@ async function wooCommerceAPI<T>(
     );
   }
 
-  return data as T;
+  return { data: data as T, headers: response.headers };
+}
+
+async function wooCommerceAPI<T>(
+  endpoint: string,
+  options: WooCommerceRequestOptions = {}
+): Promise<T> {
+  const { data } = await wooCommerceRequest<T>(endpoint, options);
+  return data;
+}
+
+/**
+ * Fetch a page of a collection with totals from the X-WP-Total/X-WP-TotalPages headers
+ */
+async function wooCommerceAPIPaginated<T>(
+  endpoint: string,
+  options: WooCommerceRequestOptions & { page: number; perPage: number }
+): Promise<PaginatedResponse<T>> {
+  const { page, perPage, params, ...requestOptions } = options;
+
+  const { data, headers } = await wooCommerceRequest<T[]>(endpoint, {
+    ...requestOptions,
+    params: { ...params, page, per_page: perPage },
+  });
+
+  const total = parseInt(headers.get('X-WP-Total') || '', 10);
+  const totalPages = parseInt(headers.get('X-WP-TotalPages') || '', 10);
+
+  return {
+    items: data,
+    total: isNaN(total) ? data.length : total,
+    totalPages: isNaN(totalPages) ? 1 : totalPages,
+    page,
+    perPage,
+  };
 }
 
 // Products API
@@ -90,25 +144,43 @@ export const products = {
     wooCommerceAPI<WCProduct[]>('/products', {
       params: params as Record<string, string | number | boolean | undefined>,
       next: { revalidate: 60 },
+      tags: [cacheTags.products],
     }),
 
   /**
-   * Get a single product by ID
+   * Get a page of products with total counts
    */
-  get: (id: number) =>
-    wooCommerceAPI<WCProduct>(`/products/${id}`, {
+  listPaginated: (params: ProductsQueryParams = {}) =>
+    wooCommerceAPIPaginated<WCProduct>('/products', {
+      params: params as Record<string, string | number | boolean | undefined>,
+      page: params.page || 1,
+      perPage: params.per_page || 10,
       next: { revalidate: 60 },
+      tags: [cacheTags.products],
     }),
 
+  /**
+   * Get a single product by ID
+   * Pass `fresh` to bypass the cache (e.g. for stock checks)
+   */
+  get: (id: number, options?: { fresh?: boolean }) =>
+    wooCommerceAPI<WCProduct>(
+      `/products/${id}`,
+      options?.fresh ? { cache: 'no-store' } : { next: { revalidate: 60 }, tags: [cacheTags.product(id)] }
+    ),
+
   /**
    * Get a product by slug
+   * The slug is resolved to an ID first, so the product is cached under its ID tag,
+   * which order and variation webhooks expire along with product updates.
    */
   getBySlug: async (slug: string): Promise<WCProduct | null> => {
-    const results = await wooCommerceAPI<WCProduct[]>('/products', {
-      params: { slug },
+    const results = await wooCommerceAPI<Array<Pick<WCProduct, 'id'>>>('/products', {
+      params: { slug, _fields: 'id' },
       next: { revalidate: 60 },
+      tags: [cacheTags.productSlug(slug)],
     });
-    return results[0] || null;
+    return results[0] ? products.get(results[0].id) : null;
   },
 
   /**
@@ -118,8 +190,61 @@ export const products = {
     wooCommerceAPI<WCProductVariation[]>(`/products/${productId}/variations`, {
       params: { per_page: 100, ...params },
       next: { revalidate: 60 },
+      tags: [cacheTags.product(productId)],
     }),
 
+  /**
+   * Get a single variation of a product
+   */
+  getVariation: (productId: number, variationId: number, options?: { fresh?: boolean }) =>
+    wooCommerceAPI<WCProductVariation>(
+      `/products/${productId}/variations/${variationId}`,
+      options?.fresh ? { cache: 'no-store' } : { next: { revalidate: 60 }, tags: [cacheTags.product(productId)] }
+    ),
+
+  /**
+   * Get the IDs of every product with any of the given attribute terms
+   */
+  listIdsByAttribute: async (attribute: string, termIds: number[]): Promise<number[]> => {
+    const ids: number[] = [];
+
+    for (let page = 1; ; page++) {
+      const { items, totalPages } = await wooCommerceAPIPaginated<{ id: number }>('/products', {
+        params: {
+          attribute,
+          attribute_term: termIds.join(','),
+          status: 'publish',
+          _fields: 'id',
+        },
+        page,
+        perPage: 100,
+        next: { revalidate: 60 },
+        tags: [cacheTags.products],
+      });
+      ids.push(...items.map((product) => product.id));
+      if (page >= totalPages) return ids;
+    }
+  },
+
+  /**
+   * Get the lowest and highest product prices (for the price filter)
+   */
+  getPriceRange: async (): Promise<{ min: number; max: number }> => {
+    const [cheapest, dearest] = await Promise.all(
+      (['asc', 'desc'] as const).map((order) =>
+        wooCommerceAPI<WCProduct[]>('/products', {
+          params: { orderby: 'price', order, per_page: 1, status: 'publish' },
+          next: { revalidate: 300 },
+          tags: [cacheTags.products],
+        })
+      )
+    );
+    return {
+      min: Math.floor(parseFloat(cheapest[0]?.price || '0') || 0),
+      max: Math.ceil(parseFloat(dearest[0]?.price || '0') || 0),
+    };
+  },
+
   /**
    * Get related products
    */
@@ -130,19 +255,95 @@ export const products = {
     return wooCommerceAPI<WCProduct[]>('/products', {
       params: { include: ids.join(','), per_page: limit },
       next: { revalidate: 60 },
+      tags: [cacheTags.products],
+    });
+  },
+
+  /**
+   * Get upsells (products recommended instead of this one)
+   */
+  getUpsells: async (product: WCProduct, limit: number = 4): Promise<WCProduct[]> => {
+    if (!product.upsell_ids?.length) return [];
+
+    const ids = product.upsell_ids.slice(0, limit);
+    return wooCommerceAPI<WCProduct[]>('/products', {
+      params: { include: ids.join(','), per_page: limit, status: 'publish' },
+      next: { revalidate: 60 },
+      tags: [cacheTags.products],
     });
   },
 };
 
+// Product Reviews API
+export const reviews = {
+  /**
+   * Get every approved review of a product, newest first
+   * Fetched in full so ratings can be counted and sorted locally.
+   */
+  listAllForProduct: async (productId: number): Promise<WCProductReview[]> => {
+    const results: WCProductReview[] = [];
+
+    for (let page = 1; ; page++) {
+      const { items, totalPages } = await wooCommerceAPIPaginated<WCProductReview>('/products/reviews', {
+        params: { product: productId, status: 'approved', orderby: 'date_gmt', order: 'desc' },
+        page,
+        perPage: 100,
+        next: { revalidate: 300 },
+        tags: [cacheTags.productReviews(productId)],
+      });
+      results.push(...items);
+      if (page >= totalPages) return results;
+    }
+  },
+
+  /**
+   * Create a review
+   */
+  create: (data: CreateReviewData) =>
+    wooCommerceAPI<WCProductReview>('/products/reviews', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+};
+
+// Attributes API
+export const attributes = {
+  /**
+   * Get all global product attributes
+   */
+  list: () =>
+    wooCommerceAPI<WCProductAttribute[]>('/products/attributes', {
+      next: { revalidate: 300 },
+      tags: [cacheTags.attributes],
+    }),
+
+  /**
+   * Get the terms of an attribute
+   */
+  listTerms: (attributeId: number) =>
+    wooCommerceAPI<WCAttributeTerm[]>(`/products/attributes/${attributeId}/terms`, {
+      params: { per_page: 100, hide_empty: true },
+      next: { revalidate: 300 },
+      tags: [cacheTags.attributes],
+    }),
+};
+
 // Categories API
 export const categories = {
   /**
    * Get all categories
    */
-  list: (params?: { per_page?: number; parent?: number; hide_empty?: boolean }) =>
+  list: (params?: {
+    per_page?: number;
+    parent?: number;
+    hide_empty?: boolean;
+    orderby?: 'name' | 'count' | 'id' | 'slug';
+    order?: 'asc' | 'desc';
+  }) =>
     wooCommerceAPI<WCCategory[]>('/products/categories', {
       params: { hide_empty: true, per_page: 100, ...params },
       next: { revalidate: 300 },
+      tags: [cacheTags.categories],
     }),
 
   /**
@@ -151,6 +352,7 @@ export const categories = {
   get: (id: number) =>
     wooCommerceAPI<WCCategory>(`/products/categories/${id}`, {
       next: { revalidate: 300 },
+      tags: [cacheTags.categories],
     }),
 
   /**
@@ -160,6 +362,7 @@ export const categories = {
     const results = await wooCommerceAPI<WCCategory[]>('/products/categories', {
       params: { slug },
       next: { revalidate: 300 },
+      tags: [cacheTags.categories],
     });
     return results[0] || null;
   },
@@ -193,11 +396,103 @@ export const orders = {
   /**
    * Update an order
    */
-  update: (id: number, data: Partial<CreateOrderData>) =>
+  update: (id: number, data: UpdateOrderData) =>
     wooCommerceAPI<WCOrder>(`/orders/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
+
+  /**
+   * Record a refund against an order
+   */
+  createRefund: (id: number, data: CreateRefundData) =>
+    wooCommerceAPI<WCOrderRefund>(`/orders/${id}/refunds`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+};
+
+// Coupons API
+export const coupons = {
+  /**
+   * Get a coupon by code
+   * Always fetched fresh so usage counts and expiry are current.
+   */
+  getByCode: async (code: string): Promise<WCCoupon | null> => {
+    const results = await wooCommerceAPI<WCCoupon[]>('/coupons', {
+      params: { code },
+      cache: 'no-store',
+    });
+    // The code filter is a search, so match the exact (case-insensitive) code
+    return results.find((coupon) => coupon.code.toLowerCase() === code.toLowerCase()) || null;
+  },
+};
+
+// Shipping API
+export const shipping = {
+  /**
+   * Get all shipping zones
+   */
+  listZones: () =>
+    wooCommerceAPI<WCShippingZone[]>('/shipping/zones', {
+      next: { revalidate: 300 },
+    }),
+
+  /**
+   * Get the locations a zone covers
+   */
+  getZoneLocations: (zoneId: number) =>
+    wooCommerceAPI<WCShippingZoneLocation[]>(`/shipping/zones/${zoneId}/locations`, {
+      next: { revalidate: 300 },
+    }),
+
+  /**
+   * Get the methods configured for a zone
+   */
+  getZoneMethods: (zoneId: number) =>
+    wooCommerceAPI<WCShippingZoneMethod[]>(`/shipping/zones/${zoneId}/methods`, {
+      next: { revalidate: 300 },
+    }),
+
+  /**
+   * Get continents and their countries (for continent zone locations)
+   */
+  listContinents: () =>
+    wooCommerceAPI<WCContinent[]>('/data/continents', {
+      next: { revalidate: 86400 },
+    }),
+};
+
+// Taxes API
+export const taxes = {
+  /**
+   * Get all tax rates (every class), a page at a time
+   */
+  listRates: async (): Promise<WCTaxRate[]> => {
+    const results: WCTaxRate[] = [];
+
+    for (let page = 1; ; page++) {
+      const { items, totalPages } = await wooCommerceAPIPaginated<WCTaxRate>('/taxes', {
+        params: { orderby: 'order' },
+        page,
+        perPage: 100,
+        next: { revalidate: 300 },
+      });
+      results.push(...items);
+      if (page >= totalPages) return results;
+    }
+  },
+};
+
+// Settings API
+export const settings = {
+  /**
+   * Get the options in a settings group (e.g. "general", "tax")
+   */
+  list: (group: string) =>
+    wooCommerceAPI<WCSettingOption[]>(`/settings/${group}`, {
+      next: { revalidate: 300 },
+    }),
 };
 
 // Customers API
@@ -228,9 +523,9 @@ export const customers = {
   },
 
   /**
-   * Update a customer
+   * Update a customer (a password sets a new login password)
    */
-  update: (id: number, data: Partial<WCCustomer>) =>
+  update: (id: number, data: Partial<WCCustomer> & { password?: string }) =>
     wooCommerceAPI<WCCustomer>(`/customers/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
@@ -240,8 +535,14 @@ export const customers = {
 // Export as a single object for convenience
 export const wooCommerce = {
   products,
+  reviews,
+  attributes,
   categories,
   orders,
+  coupons,
+  shipping,
+  taxes,
+  settings,
   customers,
 };
 
@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { refreshToken } from '@/lib/auth';
+import {
+  SESSION_COOKIE,
+  getSessionCookieOptions,
+  isTokenUsable,
+  revokeToken,
+  shouldRefreshToken,
+} from '@/lib/session';
+
+// Account pages that are reachable while signed out
+const PUBLIC_ACCOUNT_PATHS = [
+  '/account/login',
+  '/account/register',
+  '/account/forgot-password',
+  '/account/reset-password',
+  '/account/verify-email',
+  '/account/wishlist', // Guests keep a wishlist in the browser
+];
+
+function isProtectedPage(pathname: string): boolean {
+  return pathname.startsWith('/account') && !PUBLIC_ACCOUNT_PATHS.includes(pathname);
+}
+
+/**
+ * Resolve the session cookie before account pages and routes run
+ * Drops dead sessions, refreshes tokens that are about to expire and sends
+ * signed-out visitors of account pages to the login page.
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+
+  if (!token || !(await isTokenUsable(token))) {
+    const response = isProtectedPage(pathname)
+      ? NextResponse.redirect(
+          new URL(`/account/login?redirect=${encodeURIComponent(pathname + search)}`, request.url)
+        )
+      : NextResponse.next();
+
+    if (token) response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  if (!shouldRefreshToken(token)) {
+    return NextResponse.next();
+  }
+
+  try {
+    const { token: freshToken } = await refreshToken(token);
+
+    // Let this request's handlers see the fresh token too
+    request.cookies.set(SESSION_COOKIE, freshToken);
+    const response = NextResponse.next({ request: { headers: request.headers } });
+    response.cookies.set(SESSION_COOKIE, freshToken, getSessionCookieOptions(freshToken));
+
+    await revokeToken(token);
+    return response;
+  } catch (error) {
+    // The current token still works until it expires
+    console.error('Error refreshing session:', error);
+    return NextResponse.next();
+  }
+}
+
+export const config = {
+  matcher: ['/account/:path*', '/api/account/:path*', '/api/auth/session', '/checkout'],
+};
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import { endSession } from '@/lib/auth';
 
 export interface User {
   id: number;
@@ -11,14 +12,14 @@ export interface User {
 
 interface AuthState {
   user: User | null;
-  token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
 }
 
 interface AuthActions {
-  setUser: (user: User, token: string) => void;
-  logout: () => void;
+  setUser: (user: User) => void;
+  logout: () => Promise<void>;
+  clearUser: () => void;
   setLoading: (loading: boolean) => void;
 }
 
@@ -29,23 +30,35 @@ export const useAuthStore = create<AuthStore>()(
     (set) => ({
       // State
       user: null,
-      token: null,
       isAuthenticated: false,
       isLoading: false,
 
       // Actions
-      setUser: (user, token) =>
+      setUser: (user) =>
         set({
           user,
-          token,
           isAuthenticated: true,
           isLoading: false,
         }),
 
-      logout: () =>
+      // End the server session, then forget the user locally
+      logout: async () => {
+        set({ isLoading: true });
+        try {
+          await endSession();
+        } finally {
+          set({
+            user: null,
+            isAuthenticated: false,
+            isLoading: false,
+          });
+        }
+      },
+
+      // Forget the user without contacting the server (session already gone)
+      clearUser: () =>
         set({
           user: null,
-          token: null,
           isAuthenticated: false,
           isLoading: false,
         }),
@@ -54,13 +67,15 @@ export const useAuthStore = create<AuthStore>()(
     }),
     {
       name: 'auth-storage',
-      version: 1,
+      // v2: the JWT moved to an HttpOnly session cookie
+      version: 2,
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         user: state.user,
-        token: state.token,
         isAuthenticated: state.isAuthenticated,
       }),
+      // Old versions held the raw token; sign in again to get a cookie session
+      migrate: () => ({ user: null, isAuthenticated: false }),
     }
   )
 );
@@ -68,4 +83,3 @@ export const useAuthStore = create<AuthStore>()(
 // Selector hooks
 export const useUser = () => useAuthStore((state) => state.user);
 export const useIsAuthenticated = () => useAuthStore((state) => state.isAuthenticated);
-export const useAuthToken = () => useAuthStore((state) => state.token);
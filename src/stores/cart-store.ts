@@ -1,81 +1,88 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import { trackSearchAddToCart } from '@/lib/search/tracking';
+import type { Cart, CartItem, CartTotals, CartCoupon, CartNotice, AddToCartData } from '@/types/cart';
+import type { ShippingDestination } from '@/types/shipping';
+import type { TaxSummary } from '@/types/tax';
 
-export interface CartItem {
-  id: string; // Unique cart item ID (productId-variationId-attributes)
-  productId: number;
-  variationId?: number;
-  name: string;
-  slug: string;
-  price: number;
-  regularPrice?: number;
-  quantity: number;
-  image: string;
-  attributes?: Record<string, string>; // e.g., { Size: 'M', Color: 'Black' }
-  maxQuantity?: number; // Stock limit
-}
+export type { CartItem, CartTotals, CartCoupon, CartNotice, AddToCartData };
 
+/**
+ * The cart lives on the server (WooCommerce Store API via /api/cart).
+ * This store is a cache of the last server response: it is persisted so the
+ * bag renders instantly, and replaced wholesale after every request.
+ */
 interface CartState {
   items: CartItem[];
+  totals: CartTotals;
+  coupons: CartCoupon[];
+  needsShipping: boolean;
+  notices: CartNotice[];
+  taxes: TaxSummary | null; // Totals with tax for the last requested destination
   isOpen: boolean;
+  isSyncing: boolean;
+  error: string | null;
 }
 
 interface CartActions {
-  addItem: (item: Omit<CartItem, 'id'>) => void;
-  removeItem: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
-  clearCart: () => void;
+  fetchCart: () => Promise<void>;
+  addItem: (item: AddToCartData) => Promise<void>;
+  removeItem: (id: string) => Promise<void>;
+  updateQuantity: (id: string, quantity: number) => Promise<void>;
+  clearCart: () => Promise<void>;
+  applyCoupon: (code: string) => Promise<void>;
+  removeCoupon: (code: string) => Promise<void>;
+  fetchTaxes: (destination?: ShippingDestination & { shippingMethod?: string }) => Promise<void>;
   openCart: () => void;
   closeCart: () => void;
   toggleCart: () => void;
 }
 
-interface CartComputedValues {
-  total: number;
-  subtotal: number;
-  itemCount: number;
-  isEmpty: boolean;
-}
+type CartStore = CartState & CartActions;
 
-type CartStore = CartState & CartActions & CartComputedValues;
+const emptyTotals: CartTotals = {
+  subtotal: 0,
+  discount: 0,
+  shipping: 0,
+  tax: 0,
+  total: 0,
+  currency: 'USD',
+};
 
 /**
- * Generate unique ID for cart items based on product, variation, and attributes
+ * Call a /api/cart endpoint and return the server cart
  */
-function generateCartItemId(
-  productId: number,
-  variationId?: number,
-  attributes?: Record<string, string>
-): string {
-  let id = String(productId);
-
-  if (variationId) {
-    id += `-${variationId}`;
-  }
+async function cartRequest(url: string, init?: RequestInit): Promise<Cart> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+
+  const data = await response.json();
 
-  if (attributes && Object.keys(attributes).length > 0) {
-    const attrString = Object.entries(attributes)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([key, value]) => `${key}:${value}`)
-      .join('-');
-    id += `-${attrString}`;
+  if (!response.ok) {
+    throw new Error(data.message || 'Cart request failed');
   }
 
-  return id;
+  return data as Cart;
 }
 
 /**
- * Calculate cart totals
+ * Map a server cart onto store state
  */
-function calculateTotals(items: CartItem[]): { total: number; subtotal: number; itemCount: number } {
-  return items.reduce(
-    (acc, item) => ({
-      total: acc.total + item.price * item.quantity,
-      subtotal: acc.subtotal + item.price * item.quantity,
-      itemCount: acc.itemCount + item.quantity,
-    }),
-    { total: 0, subtotal: 0, itemCount: 0 }
-  );
+function fromServerCart(cart: Cart): Partial<CartState> {
+  return {
+    items: cart.items,
+    totals: cart.totals,
+    coupons: cart.coupons,
+    needsShipping: cart.needsShipping,
+    notices: cart.errors,
+    isSyncing: false,
+    error: null,
+  };
 }
 
 export const useCartStore = create<CartStore>()(
@@ -83,92 +90,164 @@ export const useCartStore = create<CartStore>()(
     (set, get) => ({
       // State
       items: [],
+      totals: emptyTotals,
+      coupons: [],
+      needsShipping: true,
+      notices: [],
+      taxes: null,
       isOpen: false,
+      isSyncing: false,
+      error: null,
 
-      // Computed values (recalculated on access)
-      get total() {
-        return calculateTotals(get().items).total;
-      },
-      get subtotal() {
-        return calculateTotals(get().items).subtotal;
-      },
-      get itemCount() {
-        return calculateTotals(get().items).itemCount;
-      },
-      get isEmpty() {
-        return get().items.length === 0;
+      // Actions
+      fetchCart: async () => {
+        set({ isSyncing: true });
+        try {
+          const cart = await cartRequest('/api/cart');
+          set(fromServerCart(cart));
+        } catch (err) {
+          set({ isSyncing: false, error: err instanceof Error ? err.message : 'Failed to load cart' });
+        }
       },
 
-      // Actions
-      addItem: (item) => {
-        const id = generateCartItemId(item.productId, item.variationId, item.attributes);
-
-        set((state) => {
-          const existingItemIndex = state.items.findIndex((i) => i.id === id);
-
-          if (existingItemIndex !== -1) {
-            // Update quantity if item exists
-            const existingItem = state.items[existingItemIndex];
-            const newQuantity = existingItem.quantity + item.quantity;
-            const maxQty = existingItem.maxQuantity;
-            const finalQuantity = maxQty ? Math.min(newQuantity, maxQty) : newQuantity;
-
-            const updatedItems = [...state.items];
-            updatedItems[existingItemIndex] = {
-              ...existingItem,
-              quantity: finalQuantity,
-            };
-
-            return {
-              items: updatedItems,
-              isOpen: true, // Open cart drawer when adding
-            };
-          }
-
-          // Add new item
-          return {
-            items: [...state.items, { ...item, id }],
-            isOpen: true,
-          };
-        });
+      addItem: async (item) => {
+        set({ isSyncing: true, error: null });
+        try {
+          const cart = await cartRequest('/api/cart/items', {
+            method: 'POST',
+            body: JSON.stringify(item),
+          });
+          set({ ...fromServerCart(cart), isOpen: true }); // Open cart drawer when adding
+          trackSearchAddToCart(item.productId);
+        } catch (err) {
+          set({ isSyncing: false, error: err instanceof Error ? err.message : 'Failed to add item' });
+          throw err;
+        }
       },
 
-      removeItem: (id) => {
+      removeItem: async (id) => {
+        // Optimistically hide the line; the server response is authoritative
         set((state) => ({
           items: state.items.filter((item) => item.id !== id),
+          isSyncing: true,
+        }));
+        try {
+          const cart = await cartRequest(`/api/cart/items/${encodeURIComponent(id)}`, {
+            method: 'DELETE',
+          });
+          set(fromServerCart(cart));
+        } catch (err) {
+          set({ error: err instanceof Error ? err.message : 'Failed to remove item' });
+          await get().fetchCart();
+        }
+      },
+
+      updateQuantity: async (id, quantity) => {
+        if (quantity <= 0) {
+          return get().removeItem(id);
+        }
+
+        set((state) => ({
+          items: state.items.map((item) => {
+            if (item.id !== id) return item;
+
+            const maxQty = item.maxQuantity;
+            const finalQuantity = maxQty ? Math.min(quantity, maxQty) : quantity;
+
+            return { ...item, quantity: finalQuantity };
+          }),
+          isSyncing: true,
         }));
+        try {
+          const cart = await cartRequest(`/api/cart/items/${encodeURIComponent(id)}`, {
+            method: 'PUT',
+            body: JSON.stringify({ quantity }),
+          });
+          set(fromServerCart(cart));
+        } catch (err) {
+          set({ error: err instanceof Error ? err.message : 'Failed to update quantity' });
+          await get().fetchCart();
+        }
       },
 
-      updateQuantity: (id, quantity) => {
-        set((state) => {
-          if (quantity <= 0) {
-            return { items: state.items.filter((item) => item.id !== id) };
-          }
+      clearCart: async () => {
+        set({ items: [], totals: emptyTotals, coupons: [], isSyncing: true });
+        try {
+          const cart = await cartRequest('/api/cart', { method: 'DELETE' });
+          set(fromServerCart(cart));
+        } catch (err) {
+          set({ isSyncing: false, error: err instanceof Error ? err.message : 'Failed to clear cart' });
+        }
+      },
 
-          return {
-            items: state.items.map((item) => {
-              if (item.id !== id) return item;
+      applyCoupon: async (code) => {
+        set({ isSyncing: true });
+        try {
+          const cart = await cartRequest('/api/cart/coupons', {
+            method: 'POST',
+            body: JSON.stringify({ code }),
+          });
+          set(fromServerCart(cart));
+        } catch (err) {
+          // The coupon form shows the reason, so it isn't stored as a cart error
+          set({ isSyncing: false });
+          throw err;
+        }
+      },
 
-              const maxQty = item.maxQuantity;
-              const finalQuantity = maxQty ? Math.min(quantity, maxQty) : quantity;
+      removeCoupon: async (code) => {
+        set((state) => ({
+          coupons: state.coupons.filter((coupon) => coupon.code !== code),
+          isSyncing: true,
+        }));
+        try {
+          const cart = await cartRequest(`/api/cart/coupons/${encodeURIComponent(code)}`, {
+            method: 'DELETE',
+          });
+          set(fromServerCart(cart));
+        } catch (err) {
+          set({ error: err instanceof Error ? err.message : 'Failed to remove coupon' });
+          await get().fetchCart();
+        }
+      },
 
-              return { ...item, quantity: finalQuantity };
+      fetchTaxes: async (destination) => {
+        try {
+          const response = await fetch('/api/cart/taxes', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              country: destination?.country,
+              state: destination?.state,
+              postcode: destination?.postcode,
+              shipping_method: destination?.shippingMethod,
             }),
-          };
-        });
+          });
+          if (!response.ok) throw new Error('Failed to calculate taxes');
+          set({ taxes: await response.json() });
+        } catch {
+          // Summaries fall back to the untaxed cart totals
+          set({ taxes: null });
+        }
       },
 
-      clearCart: () => set({ items: [] }),
-
       openCart: () => set({ isOpen: true }),
       closeCart: () => set({ isOpen: false }),
       toggleCart: () => set((state) => ({ isOpen: !state.isOpen })),
     }),
     {
       name: 'cart-storage',
-      version: 1,
+      version: 3,
       storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({ items: state.items }), // Only persist items, not isOpen
+      // Only cache the last server cart, not UI or request state.
+      // Older caches (client-priced carts, bare coupon codes) are dropped on upgrade.
+      partialize: (state) => ({
+        items: state.items,
+        totals: state.totals,
+        coupons: state.coupons,
+        needsShipping: state.needsShipping,
+      }),
+      migrate: () => ({ items: [], totals: emptyTotals, coupons: [] }),
     }
   )
 );
@@ -176,12 +255,14 @@ export const useCartStore = create<CartStore>()(
 // Selector hooks for better performance
 export const useCartItems = () => useCartStore((state) => state.items);
 export const useCartIsOpen = () => useCartStore((state) => state.isOpen);
-export const useCartTotal = () => {
-  const items = useCartStore((state) => state.items);
-  return calculateTotals(items).total;
-};
-export const useCartItemCount = () => {
-  const items = useCartStore((state) => state.items);
-  return calculateTotals(items).itemCount;
-};
+export const useCartTotals = () => useCartStore((state) => state.totals);
+export const useCartTotal = () => useCartStore((state) => state.totals.total);
+export const useCartSubtotal = () => useCartStore((state) => state.totals.subtotal);
+export const useCartCoupons = () => useCartStore((state) => state.coupons);
+export const useCartNeedsShipping = () => useCartStore((state) => state.needsShipping);
+export const useCartTaxes = () => useCartStore((state) => state.taxes);
+export const useCartItemCount = () =>
+  useCartStore((state) => state.items.reduce((count, item) => count + item.quantity, 0));
 export const useCartIsEmpty = () => useCartStore((state) => state.items.length === 0);
+export const useCartNotices = () => useCartStore((state) => state.notices);
+export const useCartError = () => useCartStore((state) => state.error);
@@ -0,0 +1,59 @@
+import { useSyncExternalStore } from 'react';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+// How many recent searches the search overlay offers
+const RECENT_SEARCH_LIMIT = 6;
+
+/**
+ * The shopper's recent searches, kept in this browser only
+ */
+interface SearchState {
+  recentSearches: string[]; // Most recent first
+}
+
+interface SearchActions {
+  addRecentSearch: (query: string) => void;
+  removeRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+}
+
+type SearchStore = SearchState & SearchActions;
+
+export const useSearchStore = create<SearchStore>()(
+  persist(
+    (set) => ({
+      recentSearches: [],
+
+      addRecentSearch: (query) => {
+        const trimmed = query.trim().replace(/\s+/g, ' ');
+        if (!trimmed) return;
+
+        // Searching again moves a query to the top rather than repeating it
+        set((state) => ({
+          recentSearches: [
+            trimmed,
+            ...state.recentSearches.filter((recent) => recent.toLowerCase() !== trimmed.toLowerCase()),
+          ].slice(0, RECENT_SEARCH_LIMIT),
+        }));
+      },
+
+      removeRecentSearch: (query) =>
+        set((state) => ({ recentSearches: state.recentSearches.filter((recent) => recent !== query) })),
+
+      clearRecentSearches: () => set({ recentSearches: [] }),
+    }),
+    {
+      name: 'search-storage',
+      version: 1,
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+const noSearches: string[] = [];
+
+// Selector hooks
+// Recent searches live in localStorage, so the server (and hydration) render none
+export const useRecentSearches = () =>
+  useSyncExternalStore(useSearchStore.subscribe, () => useSearchStore.getState().recentSearches, () => noSearches);
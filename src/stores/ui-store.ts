@@ -1,10 +1,14 @@
 import { create } from 'zustand';
 
+// Extra details for the open modal, e.g. { productId } for the quick view
+export type ModalData = Record<string, string | number>;
+
 interface UIState {
   isMobileMenuOpen: boolean;
   isSearchOpen: boolean;
   isFilterOpen: boolean;
   activeModal: string | null;
+  modalData: ModalData | null;
 }
 
 interface UIActions {
@@ -20,7 +24,7 @@ interface UIActions {
   closeFilter: () => void;
   toggleFilter: () => void;
 
-  openModal: (modalId: string) => void;
+  openModal: (modalId: string, data?: ModalData) => void;
   closeModal: () => void;
 
   closeAll: () => void;
@@ -34,6 +38,7 @@ export const useUIStore = create<UIStore>((set) => ({
   isSearchOpen: false,
   isFilterOpen: false,
   activeModal: null,
+  modalData: null,
 
   // Mobile Menu Actions
   openMobileMenu: () => set({ isMobileMenuOpen: true }),
@@ -51,8 +56,8 @@ export const useUIStore = create<UIStore>((set) => ({
   toggleFilter: () => set((state) => ({ isFilterOpen: !state.isFilterOpen })),
 
   // Modal Actions
-  openModal: (modalId) => set({ activeModal: modalId }),
-  closeModal: () => set({ activeModal: null }),
+  openModal: (modalId, data) => set({ activeModal: modalId, modalData: data ?? null }),
+  closeModal: () => set({ activeModal: null, modalData: null }),
 
   // Close all
   closeAll: () =>
@@ -61,6 +66,7 @@ export const useUIStore = create<UIStore>((set) => ({
       isSearchOpen: false,
       isFilterOpen: false,
       activeModal: null,
+      modalData: null,
     }),
 }));
 
@@ -69,3 +75,4 @@ export const useIsMobileMenuOpen = () => useUIStore((state) => state.isMobileMen
 export const useIsSearchOpen = () => useUIStore((state) => state.isSearchOpen);
 export const useIsFilterOpen = () => useUIStore((state) => state.isFilterOpen);
 export const useActiveModal = () => useUIStore((state) => state.activeModal);
+export const useModalData = () => useUIStore((state) => state.modalData);
@@ -0,0 +1,167 @@
+import { useSyncExternalStore } from 'react';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { useAuthStore } from '@/stores/auth-store';
+import { toWishlistItem } from '@/lib/wishlist';
+import type { WCProduct } from '@/types/woocommerce';
+import type { WishlistEntry, WishlistItem } from '@/types/wishlist';
+
+export type { WishlistItem };
+
+/**
+ * Signed out, the wishlist only lives in localStorage. Signed in, it is saved
+ * in customer meta via /api/account/wishlist and this store caches it; the
+ * signed-out list is merged into the account on sign-in.
+ */
+interface WishlistState {
+  items: WishlistItem[];
+  accountId: number | null; // Customer the cached list belongs to, null while signed out
+  isSyncing: boolean;
+  error: string | null;
+}
+
+interface WishlistActions {
+  addItem: (product: WCProduct) => Promise<void>;
+  removeItem: (productId: number) => Promise<void>;
+  toggleItem: (product: WCProduct) => Promise<void>;
+  syncAccount: (accountId: number) => Promise<void>;
+  reset: () => void;
+}
+
+type WishlistStore = WishlistState & WishlistActions;
+
+/**
+ * Call /api/account/wishlist and return the saved items
+ */
+async function wishlistRequest(url: string, init?: RequestInit): Promise<WishlistItem[]> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Wishlist request failed');
+  }
+
+  return data.items as WishlistItem[];
+}
+
+function toEntries(items: WishlistItem[]): WishlistEntry[] {
+  return items.map(({ productId, addedAt }) => ({ productId, addedAt }));
+}
+
+export const useWishlistStore = create<WishlistStore>()(
+  persist(
+    (set, get) => ({
+      // State
+      items: [],
+      accountId: null,
+      isSyncing: false,
+      error: null,
+
+      // Actions
+      addItem: async (product) => {
+        if (get().items.some((item) => item.productId === product.id)) return;
+
+        const item = toWishlistItem(product);
+        set((state) => ({ items: [item, ...state.items], error: null }));
+
+        if (!useAuthStore.getState().isAuthenticated) return;
+
+        set({ isSyncing: true });
+        try {
+          const items = await wishlistRequest('/api/account/wishlist', {
+            method: 'POST',
+            body: JSON.stringify({ items: toEntries([item]) }),
+          });
+          set({ items, isSyncing: false });
+        } catch (err) {
+          set((state) => ({
+            items: state.items.filter((existing) => existing.productId !== product.id),
+            isSyncing: false,
+            error: err instanceof Error ? err.message : 'Failed to save item',
+          }));
+        }
+      },
+
+      removeItem: async (productId) => {
+        const previous = get().items;
+        set({ items: previous.filter((item) => item.productId !== productId), error: null });
+
+        if (!useAuthStore.getState().isAuthenticated) return;
+
+        set({ isSyncing: true });
+        try {
+          const items = await wishlistRequest(`/api/account/wishlist?productId=${productId}`, {
+            method: 'DELETE',
+          });
+          set({ items, isSyncing: false });
+        } catch (err) {
+          set({
+            items: previous,
+            isSyncing: false,
+            error: err instanceof Error ? err.message : 'Failed to remove item',
+          });
+        }
+      },
+
+      toggleItem: async (product) => {
+        const saved = get().items.some((item) => item.productId === product.id);
+        return saved ? get().removeItem(product.id) : get().addItem(product);
+      },
+
+      // Load the account's list, first merging in anything saved while signed out
+      syncAccount: async (accountId) => {
+        const { items: localItems, accountId: cachedAccountId } = get();
+        const pending = cachedAccountId === null ? localItems : [];
+
+        // Never show (or merge) another account's cached list
+        if (cachedAccountId !== null && cachedAccountId !== accountId) {
+          set({ items: [] });
+        }
+
+        set({ isSyncing: true, error: null });
+        try {
+          const items = pending.length
+            ? await wishlistRequest('/api/account/wishlist', {
+                method: 'POST',
+                body: JSON.stringify({ items: toEntries(pending) }),
+              })
+            : await wishlistRequest('/api/account/wishlist');
+          set({ items, accountId, isSyncing: false });
+        } catch (err) {
+          set({ isSyncing: false, error: err instanceof Error ? err.message : 'Failed to load wishlist' });
+        }
+      },
+
+      // Forget an account's list after sign-out
+      reset: () => set({ items: [], accountId: null, isSyncing: false, error: null }),
+    }),
+    {
+      name: 'wishlist-storage',
+      version: 1,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ items: state.items, accountId: state.accountId }),
+    }
+  )
+);
+
+const noItems: WishlistItem[] = [];
+
+// Selector hooks
+// The list lives in localStorage, so the server (and hydration) render it empty
+export const useWishlistItems = () =>
+  useSyncExternalStore(useWishlistStore.subscribe, () => useWishlistStore.getState().items, () => noItems);
+export const useWishlistCount = () =>
+  useSyncExternalStore(useWishlistStore.subscribe, () => useWishlistStore.getState().items.length, () => 0);
+export const useIsInWishlist = (productId: number) =>
+  useSyncExternalStore(
+    useWishlistStore.subscribe,
+    () => useWishlistStore.getState().items.some((item) => item.productId === productId),
+    () => false
+  );
@@ -0,0 +1,51 @@
+// Cart types shared by the /api/cart routes and the client cart store
+
+export interface CartItem {
+  id: string; // Store API cart item key
+  productId: number;
+  variationId?: number;
+  name: string;
+  slug: string;
+  price: number;
+  regularPrice?: number;
+  quantity: number;
+  image: string;
+  attributes?: Record<string, string>; // e.g., { Size: 'M', Color: 'Black' }
+  maxQuantity?: number; // Stock limit
+}
+
+export interface CartTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  currency: string;
+}
+
+export interface CartCoupon {
+  code: string;
+  discountType: string;
+  discount: number; // Amount this coupon takes off the cart
+}
+
+export interface CartNotice {
+  code: string;
+  message: string;
+}
+
+export interface Cart {
+  items: CartItem[];
+  itemCount: number;
+  needsShipping: boolean; // False when every item is virtual
+  totals: CartTotals;
+  coupons: CartCoupon[];
+  errors: CartNotice[];
+}
+
+export interface AddToCartData {
+  productId: number;
+  variationId?: number;
+  quantity: number;
+  attributes?: Record<string, string>;
+}
@@ -0,0 +1,23 @@
+// Shop filter types shared by the shop page and the filter components
+
+export interface FilterTerm {
+  id: number;
+  name: string;
+  slug: string;
+  count: number;
+  color?: string; // CSS colour for colour swatches
+}
+
+export interface FilterAttribute {
+  id: number;
+  name: string;
+  taxonomy: string; // e.g. "pa_size"
+  param: string; // URL search param, e.g. "filter_size"
+  isColor: boolean;
+  terms: FilterTerm[];
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+}
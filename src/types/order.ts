@@ -0,0 +1,21 @@
+// Order types shared by the order tracking route and the track order page
+
+export interface TrackedOrderItem {
+  name: string;
+  quantity: number;
+  total: number;
+  image: string | null;
+}
+
+export interface TrackedOrder {
+  number: string;
+  status: string;
+  dateCreated: string;
+  items: TrackedOrderItem[];
+  shippingAddress: {
+    name: string;
+    lines: string[]; // Street, city/state/postcode and country, blanks removed
+  };
+  shippingMethod: string | null;
+  total: number;
+}
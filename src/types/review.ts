@@ -0,0 +1,33 @@
+// Review types shared by the product reviews route and the reviews section
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+export interface ProductReview {
+  id: number;
+  reviewer: string;
+  rating: number;
+  review: string; // Plain text
+  date: string;
+  verified: boolean;
+}
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  histogram: Record<1 | 2 | 3 | 4 | 5, number>; // Reviews per star rating
+}
+
+export interface ReviewsPage {
+  reviews: ProductReview[];
+  summary: ReviewSummary;
+  sort: ReviewSort;
+  page: number;
+  totalPages: number;
+}
+
+export interface ReviewPermissions {
+  enabled: boolean; // Reviews are on for the store and this product
+  canReview: boolean;
+  reason?: 'sign_in_required' | 'verified_owner_required' | 'already_reviewed';
+  verifiedOwner: boolean;
+}
@@ -0,0 +1,78 @@
+// Search types shared by the search route, the search overlay and the shop page
+
+export interface SearchHit {
+  id: number;
+  name: string;
+  slug: string;
+  price: string;
+  regular_price: string;
+  sale_price: string;
+  on_sale: boolean;
+  image: string | null;
+  stock_status: string;
+}
+
+export interface SearchFacetValue {
+  value: string; // Category slug or attribute option
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetValue[];
+  attributes: Array<{ name: string; values: SearchFacetValue[] }>;
+  inStock: number;
+  onSale: number;
+}
+
+export interface SearchResponse {
+  products: SearchHit[];
+  total: number;
+  suggestions: string[]; // Completions of the query as typed
+  didYouMean: string | null; // Corrected query when nothing matched
+  facets: SearchFacets;
+}
+
+export type SearchEventType = 'search' | 'click' | 'add_to_cart';
+
+export interface SearchEvent {
+  type: SearchEventType;
+  query: string; // Normalized, so "Dress " and "dress" count together
+  results?: number; // Searches only
+  productId?: number; // Clicks and adds to cart
+  at: number; // Timestamp in milliseconds
+}
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  averageResults: number;
+  clicks: number;
+  addsToCart: number;
+  clickRate: number; // Clicks per search
+  conversionRate: number; // Adds to cart per search
+}
+
+export interface ZeroResultQuery {
+  query: string;
+  searches: number;
+  lastSearchedAt: number;
+}
+
+export interface SearchReport {
+  since: number;
+  totals: {
+    searches: number;
+    zeroResultSearches: number;
+    clicks: number;
+    addsToCart: number;
+    conversionRate: number;
+  };
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: ZeroResultQuery[];
+}
+
+export interface SearchTrending {
+  queries: string[]; // Popular searches that found products
+  categories: Array<{ name: string; slug: string; count: number }>;
+}
@@ -0,0 +1,20 @@
+// Shipping types shared by the shipping rates route and the checkout page
+
+export interface ShippingDestination {
+  country: string;
+  state?: string;
+  postcode?: string;
+}
+
+export interface ShippingRate {
+  id: string; // "<method_id>:<instance_id>", submitted as the chosen method
+  methodId: string;
+  instanceId: number;
+  title: string;
+  cost: number;
+}
+
+export interface ShippingRatesResponse {
+  zone: string | null;
+  rates: ShippingRate[];
+}
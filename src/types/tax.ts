@@ -0,0 +1,25 @@
+// Tax types shared by the cart taxes route and the cart/checkout summaries
+
+export interface TaxBreakdownLine {
+  rateId: number;
+  label: string;
+  amount: number;
+}
+
+/**
+ * Cart totals with tax applied for a destination
+ * Subtotal, discount and shipping follow the store's cart display setting, so
+ * they include tax when `displayIncl` is set.
+ */
+export interface TaxSummary {
+  pricesIncludeTax: boolean;
+  displayIncl: boolean;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  itemTax: number;
+  shippingTax: number;
+  taxTotal: number;
+  total: number;
+  lines: TaxBreakdownLine[];
+}
@@ -0,0 +1,18 @@
+// Wishlist types shared by the wishlist routes and the client wishlist store
+
+// What is stored in customer meta: just the product and when it was saved
+export interface WishlistEntry {
+  productId: number;
+  addedAt: string;
+}
+
+// An entry with the product details needed to show it
+export interface WishlistItem extends WishlistEntry {
+  name: string;
+  slug: string;
+  price: string;
+  regularPrice: string;
+  onSale: boolean;
+  image: string | null;
+  stockStatus: 'instock' | 'outofstock' | 'onbackorder';
+}
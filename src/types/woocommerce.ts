@@ -39,8 +39,28 @@ export interface WCVariationAttribute {
   option: string;
 }
 
+export interface WCProductAttribute {
+  id: number;
+  name: string;
+  slug: string; // Taxonomy name, e.g. "pa_size"
+  type: string;
+  order_by: string;
+  has_archives: boolean;
+}
+
+export interface WCAttributeTerm {
+  id: number;
+  name: string;
+  slug: string;
+  description: string;
+  menu_order: number;
+  count: number;
+}
+
 export interface WCProductVariation {
   id: number;
+  status?: 'publish' | 'draft' | 'pending' | 'private';
+  purchasable?: boolean;
   sku: string;
   price: string;
   regular_price: string;
@@ -48,6 +68,9 @@ export interface WCProductVariation {
   on_sale: boolean;
   stock_status: 'instock' | 'outofstock' | 'onbackorder';
   stock_quantity: number | null;
+  manage_stock?: boolean | 'parent';
+  backorders_allowed?: boolean;
+  date_on_sale_to?: string | null;
   image: WCImage;
   attributes: WCVariationAttribute[];
 }
@@ -57,9 +80,10 @@ export interface WCProduct {
   name: string;
   slug: string;
   permalink: string;
-  type: 'simple' | 'variable' | 'grouped' | 'external';
+  type: 'simple' | 'variable' | 'grouped' | 'external' | 'variation';
   status: 'publish' | 'draft' | 'pending' | 'private';
   featured: boolean;
+  catalog_visibility: 'visible' | 'catalog' | 'search' | 'hidden';
   description: string;
   short_description: string;
   sku: string;
@@ -107,6 +131,7 @@ export interface WCProduct {
   menu_order: number;
   date_created: string;
   date_modified: string;
+  date_on_sale_to?: string | null;
 }
 
 export interface WCAddress {
@@ -150,6 +175,23 @@ export interface WCShippingLine {
   total_tax: string;
 }
 
+export interface WCTaxLine {
+  id: number;
+  rate_code: string;
+  rate_id: number;
+  label: string;
+  compound: boolean;
+  tax_total: string;
+  shipping_tax_total: string;
+}
+
+export interface WCCouponLine {
+  id: number;
+  code: string;
+  discount: string;
+  discount_tax: string;
+}
+
 export interface WCOrder {
   id: number;
   parent_id: number;
@@ -183,9 +225,86 @@ export interface WCOrder {
   number: string;
   line_items: WCLineItem[];
   shipping_lines: WCShippingLine[];
+  tax_lines: WCTaxLine[];
   fee_lines: Array<unknown>;
-  coupon_lines: Array<unknown>;
-  refunds: Array<unknown>;
+  coupon_lines: WCCouponLine[];
+  refunds: Array<{ id: number; reason: string; total: string }>; // Totals are negative
+}
+
+export interface WCCoupon {
+  id: number;
+  code: string;
+  amount: string;
+  discount_type: 'percent' | 'fixed_cart' | 'fixed_product';
+  description: string;
+  date_expires: string | null;
+  date_expires_gmt: string | null;
+  usage_count: number;
+  individual_use: boolean;
+  product_ids: number[];
+  excluded_product_ids: number[];
+  usage_limit: number | null;
+  usage_limit_per_user: number | null;
+  limit_usage_to_x_items: number | null;
+  free_shipping: boolean;
+  product_categories: number[];
+  excluded_product_categories: number[];
+  exclude_sale_items: boolean;
+  minimum_amount: string;
+  maximum_amount: string;
+  email_restrictions: string[];
+  used_by: string[]; // Customer IDs or guest emails
+}
+
+export interface WCShippingZone {
+  id: number; // Zone 0 covers locations not matched by any other zone
+  name: string;
+  order: number;
+}
+
+export interface WCShippingZoneLocation {
+  code: string; // e.g. "US", "US:CA", "NA" or a postcode pattern
+  type: 'postcode' | 'state' | 'country' | 'continent';
+}
+
+export interface WCShippingZoneMethod {
+  id: number;
+  instance_id: number;
+  title: string;
+  order: number;
+  enabled: boolean;
+  method_id: string; // flat_rate, free_shipping, local_pickup, ...
+  method_title: string;
+  method_description: string;
+  settings: Record<string, { id: string; label: string; type: string; value: string }>;
+}
+
+export interface WCContinent {
+  code: string;
+  name: string;
+  countries: Array<{ code: string; name: string }>;
+}
+
+export interface WCTaxRate {
+  id: number;
+  country: string; // Empty matches every country
+  state: string;
+  postcodes: string[];
+  cities: string[];
+  rate: string; // Percentage, e.g. "8.2500"
+  name: string;
+  priority: number;
+  compound: boolean;
+  shipping: boolean;
+  order: number;
+  class: string; // "standard" or a tax class slug
+}
+
+export interface WCSettingOption {
+  id: string;
+  label: string;
+  type: string;
+  value: string;
 }
 
 export interface WCCustomer {
@@ -201,6 +320,22 @@ export interface WCCustomer {
   shipping: WCAddress;
   is_paying_customer: boolean;
   avatar_url: string;
+  meta_data: Array<{ id?: number; key: string; value: string }>;
+}
+
+export interface WCProductReview {
+  id: number;
+  date_created: string;
+  date_created_gmt: string;
+  product_id: number;
+  product_name: string;
+  status: 'approved' | 'hold' | 'spam' | 'unspam' | 'trash' | 'untrash';
+  reviewer: string;
+  reviewer_email: string;
+  review: string; // HTML
+  rating: number; // 0 when ratings are disabled
+  verified: boolean; // Reviewer bought the product (checked by WooCommerce)
+  reviewer_avatar_urls: Record<string, string>;
 }
 
 // Request/Response types
@@ -218,6 +353,7 @@ export interface CreateOrderData {
   shipping_lines?: Array<{
     method_id: string;
     method_title: string;
+    instance_id?: string;
     total: string;
   }>;
   customer_id?: number;
@@ -225,6 +361,47 @@ export interface CreateOrderData {
   coupon_lines?: Array<{ code: string }>;
 }
 
+export type OrderLineItemInput = CreateOrderData['line_items'][number];
+
+export type LineItemErrorCode =
+  | 'invalid_quantity'
+  | 'product_not_found'
+  | 'not_published'
+  | 'not_purchasable'
+  | 'variation_required'
+  | 'invalid_variation'
+  | 'out_of_stock'
+  | 'insufficient_stock'
+  | 'sold_individually';
+
+export interface LineItemError {
+  index: number; // Position in the submitted line_items
+  product_id: number;
+  variation_id?: number;
+  code: LineItemErrorCode;
+  message: string;
+  max_quantity?: number; // Set when the line can be fixed by lowering the quantity
+}
+
+export interface UpdateOrderData extends Partial<CreateOrderData> {
+  status?: WCOrder['status'];
+  transaction_id?: string;
+}
+
+export interface WCOrderRefund {
+  id: number;
+  date_created: string;
+  amount: string;
+  reason: string;
+  refunded_by: number;
+}
+
+export interface CreateRefundData {
+  amount: string;
+  reason?: string;
+  api_refund?: boolean;
+}
+
 export interface CreateCustomerData {
   email: string;
   first_name: string;
@@ -233,6 +410,16 @@ export interface CreateCustomerData {
   password: string;
   billing?: Partial<WCAddress>;
   shipping?: Partial<WCAddress>;
+  meta_data?: Array<{ key: string; value: string }>;
+}
+
+export interface CreateReviewData {
+  product_id: number;
+  review: string;
+  reviewer: string;
+  reviewer_email: string;
+  rating: number;
+  status?: 'approved' | 'hold';
 }
 
 export interface ProductsQueryParams {
@@ -263,6 +450,14 @@ export interface ProductsQueryParams {
   stock_status?: 'instock' | 'outofstock' | 'onbackorder';
 }
 
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  totalPages: number;
+  page: number;
+  perPage: number;
+}
+
 // JWT Auth types
 export interface JWTAuthResponse {
   token: string;
@@ -285,3 +480,76 @@ export interface JWTErrorResponse {
     status: number;
   };
 }
+
+// Store API types (wc/store/v1)
+export interface StoreAPIPrices {
+  price: string;
+  regular_price: string;
+  sale_price: string;
+  currency_code: string;
+  currency_minor_unit: number;
+}
+
+export interface StoreAPICartItem {
+  key: string;
+  id: number;
+  type: string;
+  quantity: number;
+  quantity_limits: {
+    minimum: number;
+    maximum: number;
+    multiple_of: number;
+    editable: boolean;
+  };
+  name: string;
+  sku: string;
+  permalink: string;
+  low_stock_remaining: number | null;
+  backorders_allowed: boolean;
+  sold_individually: boolean;
+  images: Array<{ id: number; src: string; thumbnail: string; alt: string }>;
+  variation: Array<{ attribute: string; value: string }>;
+  prices: StoreAPIPrices;
+  totals: {
+    line_subtotal: string;
+    line_subtotal_tax: string;
+    line_total: string;
+    line_total_tax: string;
+    currency_minor_unit: number;
+  };
+}
+
+export interface StoreAPICartTotals {
+  total_items: string;
+  total_items_tax: string;
+  total_fees: string;
+  total_discount: string;
+  total_shipping: string | null;
+  total_tax: string;
+  total_price: string;
+  currency_code: string;
+  currency_minor_unit: number;
+}
+
+export interface StoreAPICartError {
+  code: string;
+  message: string;
+}
+
+export interface StoreAPICart {
+  items: StoreAPICartItem[];
+  items_count: number;
+  coupons: Array<{
+    code: string;
+    discount_type: string;
+    totals: {
+      total_discount: string;
+      total_discount_tax: string;
+      currency_code: string;
+      currency_minor_unit: number;
+    };
+  }>;
+  totals: StoreAPICartTotals;
+  needs_shipping: boolean;
+  errors: StoreAPICartError[];
+}